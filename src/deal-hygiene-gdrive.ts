@@ -1,10 +1,45 @@
 import 'dotenv/config';
 import { openai } from '@ai-sdk/openai';
 import { generateText } from 'ai';
-import { fetchPipelines, searchDealsByStages, findStageIdsByLabels, fetchOwners } from './hubspot.js';
+import { searchDealsByStages } from './hubspot.js';
+import { loadPipelineRegistry, getReportStageIds } from './lib/pipeline-registry.js';
+import {
+  loadOwnerDirectory,
+  getOwnerName,
+  getTeamName,
+  parseOwnerIds,
+  resolveCollaboratorNames,
+  type OwnerDirectory,
+} from './lib/owner-directory.js';
+import { getPropertySet } from './lib/property-sets.js';
+import {
+  loadHygieneRules,
+  resolveRules,
+  evaluateRule,
+  getRuleProperties,
+  describeFailedCheck,
+  scoreChecks,
+  type HygieneRulesConfig,
+  type HygieneScoringConfig,
+} from './lib/hygiene-rules.js';
+import { openHistoryStore, saveHistoryStore } from './lib/history-store.js';
+import {
+  saveHygieneRun,
+  loadHygieneRun,
+  loadPreviousHygieneRun,
+  diffHygieneRuns,
+  generateChangesText,
+  type HygieneRunDiff,
+} from './lib/hygiene-history.js';
+import { fetchDealTimelines } from './lib/deal-history.js';
+import {
+  buildSlippageReport,
+  generateSlippageText,
+  type SlippageReport,
+} from './lib/close-date-slippage.js';
+import { parseTaskMode, syncHygieneTasks, generateTaskSyncText } from './lib/hygiene-tasks.js';
+import { buildOwnerScorecards, generateScorecardText } from './lib/hygiene-scorecards.js';
 import {
-  REQUIRED_PROPERTIES,
-  isPropertyMissing,
   DealHygieneReport,
   HygieneSummary,
   PropertyCheck,
@@ -13,28 +48,39 @@ import { createGoogleDoc } from './lib/google-drive.js';
 import { insertTextToDoc } from './lib/google-docs.js';
 
 /**
- * Analyzes a single deal for missing required properties
+ * Analyzes a single deal against the hygiene rules for its pipeline and stage
  */
 function analyzeDeal(
   deal: any,
   stageMap: Map<string, string>,
   pipelineMap: Map<string, string>,
-  ownersMap: Map<string, any>
+  ownerDirectory: OwnerDirectory,
+  rulesConfig: HygieneRulesConfig
 ): DealHygieneReport {
   const props = deal.properties;
   const propertyChecks: PropertyCheck[] = [];
   const missingProperties: PropertyCheck[] = [];
 
-  // Check each required property
-  for (const reqProp of REQUIRED_PROPERTIES) {
-    const value = props[reqProp.propertyName];
-    const isMissing = isPropertyMissing(reqProp.propertyName, value);
+  const rules = resolveRules(
+    rulesConfig,
+    { id: props.pipeline || '', label: pipelineMap.get(props.pipeline) || '' },
+    { id: props.dealstage || '', label: stageMap.get(props.dealstage) || '' }
+  );
+
+  // Check each rule
+  for (const rule of rules) {
+    const value = props[rule.property];
+    const result = evaluateRule(rule, value);
+    const isMissing = !result.passed;
 
     const check: PropertyCheck = {
-      label: reqProp.label,
-      propertyName: reqProp.propertyName,
+      label: rule.label,
+      propertyName: rule.property,
       value: value,
       isMissing: isMissing,
+      failureReason: result.reason,
+      severity: rule.severity,
+      weight: rule.weight,
     };
 
     propertyChecks.push(check);
@@ -44,16 +90,18 @@ function analyzeDeal(
     }
   }
 
-  // Calculate completeness score
-  const totalRequired = REQUIRED_PROPERTIES.length;
+  // Calculate weighted completeness score and blocking status
+  const totalRequired = rules.length;
   const totalPresent = totalRequired - missingProperties.length;
-  const completenessScore = Math.round((totalPresent / totalRequired) * 100);
+  const { completenessScore, isBlocking, blockingReasons } = scoreChecks(propertyChecks, rulesConfig.scoring);
 
   // Get readable names
   const dealStageName = props.dealstage ? (stageMap.get(props.dealstage) || props.dealstage) : 'N/A';
   const dealPipelineName = props.pipeline ? (pipelineMap.get(props.pipeline) || props.pipeline) : 'N/A';
-  const owner = props.hubspot_owner_id ? ownersMap.get(props.hubspot_owner_id) : null;
-  const dealOwnerName = owner ? `${owner.firstName} ${owner.lastName}` : null;
+  const dealOwnerName = getOwnerName(ownerDirectory, props.hubspot_owner_id);
+  const dealTeamName = getTeamName(ownerDirectory, props.hubspot_team_id);
+  const collaboratorIds = parseOwnerIds(props.hs_all_collaborator_owner_ids);
+  const collaboratorNames = resolveCollaboratorNames(ownerDirectory, props.hs_all_collaborator_owner_ids);
 
   // Parse and check close date
   const closeDate = props.closedate ? new Date(props.closedate) : null;
@@ -72,9 +120,15 @@ function analyzeDeal(
     dealPipelineName: dealPipelineName,
     dealOwner: props.hubspot_owner_id || null,
     dealOwnerName: dealOwnerName,
+    dealTeam: props.hubspot_team_id || null,
+    dealTeamName: dealTeamName,
+    collaboratorIds: collaboratorIds,
+    collaboratorNames: collaboratorNames,
     propertyChecks: propertyChecks,
     missingProperties: missingProperties,
     completenessScore: completenessScore,
+    isBlocking: isBlocking,
+    blockingReasons: blockingReasons,
     totalRequired: totalRequired,
     totalPresent: totalPresent,
     totalMissing: missingProperties.length,
@@ -87,32 +141,40 @@ function analyzeDeal(
 /**
  * Creates a summary report from all deal hygiene reports
  */
-function createSummary(reports: DealHygieneReport[]): HygieneSummary {
+function createSummary(reports: DealHygieneReport[], scoring: HygieneScoringConfig): HygieneSummary {
   // Calculate average completeness
   const totalCompleteness = reports.reduce((sum, report) => sum + report.completenessScore, 0);
   const averageCompleteness = reports.length > 0 ? Math.round(totalCompleteness / reports.length) : 0;
 
-  // Count missing properties across all deals
+  // Count missing properties across all deals. Rules can differ by stage, so
+  // percentages are relative to the deals each property was checked on.
   const propertyMissingCounts = new Map<string, { label: string; missingCount: number; percentage: number }>();
+  const propertyCheckedCounts = new Map<string, number>();
 
-  for (const reqProp of REQUIRED_PROPERTIES) {
-    const missingCount = reports.filter(report =>
-      report.missingProperties.some(mp => mp.propertyName === reqProp.propertyName)
-    ).length;
+  for (const report of reports) {
+    for (const check of report.propertyChecks) {
+      if (!propertyMissingCounts.has(check.propertyName)) {
+        propertyMissingCounts.set(check.propertyName, { label: check.label, missingCount: 0, percentage: 0 });
+      }
+      propertyCheckedCounts.set(check.propertyName, (propertyCheckedCounts.get(check.propertyName) || 0) + 1);
 
-    const percentage = reports.length > 0 ? Math.round((missingCount / reports.length) * 100) : 0;
+      if (check.isMissing) {
+        propertyMissingCounts.get(check.propertyName)!.missingCount++;
+      }
+    }
+  }
 
-    propertyMissingCounts.set(reqProp.propertyName, {
-      label: reqProp.label,
-      missingCount: missingCount,
-      percentage: percentage,
-    });
+  for (const [propertyName, data] of propertyMissingCounts) {
+    const checkedCount = propertyCheckedCounts.get(propertyName) || 0;
+    data.percentage = checkedCount > 0 ? Math.round((data.missingCount / checkedCount) * 100) : 0;
   }
 
-  // Categorize deals by completeness
-  const excellent = reports.filter(r => r.completenessScore >= 90);
-  const good = reports.filter(r => r.completenessScore >= 70 && r.completenessScore < 90);
-  const poor = reports.filter(r => r.completenessScore < 70);
+  // Categorize deals by weighted completeness, using the configured tier cut-offs
+  const { tiers } = scoring;
+  const excellent = reports.filter(r => r.completenessScore >= tiers.excellent);
+  const good = reports.filter(r => r.completenessScore >= tiers.good && r.completenessScore < tiers.excellent);
+  const poor = reports.filter(r => r.completenessScore < tiers.good);
+  const blocking = reports.filter(r => r.isBlocking);
 
   // Identify deals with any issues (missing 1+ properties)
   const dealsWithIssues = reports.filter(r => r.totalMissing >= 1);
@@ -125,10 +187,15 @@ function createSummary(reports: DealHygieneReport[]): HygieneSummary {
     totalDeals: reports.length,
     averageCompleteness: averageCompleteness,
     propertyMissingCounts: propertyMissingCounts,
+    tierThresholds: {
+      excellent: tiers.excellent,
+      good: tiers.good,
+    },
     dealsByCompleteness: {
       excellent: excellent,
       good: good,
       poor: poor,
+      blocking: blocking,
     },
     dealsWithIssues: dealsWithIssues,
     dealsWithPastDueCloseDates: dealsWithPastDueCloseDates,
@@ -140,7 +207,12 @@ function createSummary(reports: DealHygieneReport[]): HygieneSummary {
  * Formats and generates the hygiene report as text (returns as string array)
  * This replaces console.log with string building for Google Docs output
  */
-function generateReportText(summary: HygieneSummary): string[] {
+function generateReportText(
+  summary: HygieneSummary,
+  changes: HygieneRunDiff | null,
+  slippage: SlippageReport | null,
+  stageNames: string
+): string[] {
   const lines: string[] = [];
 
   lines.push('━'.repeat(80));
@@ -148,13 +220,24 @@ function generateReportText(summary: HygieneSummary): string[] {
   lines.push('━'.repeat(80));
   lines.push('');
 
-  lines.push(`📊 Analyzed: ${summary.totalDeals} deal(s) in Sales pipeline ("Proposal" and "Demo - Completed" stages)`);
+  lines.push(`📊 Analyzed: ${summary.totalDeals} deal(s) in Sales pipeline (${stageNames})`);
   lines.push(`📈 Overall Health: ${summary.averageCompleteness}% complete (average)`);
   if (summary.pastDueCount > 0) {
     lines.push(`🚨 Past-Due Close Dates: ${summary.pastDueCount} deal(s) with close date in the past`);
   }
   lines.push('');
 
+  // What changed since the previous run
+  lines.push('━'.repeat(80));
+  lines.push('🔄 WHAT CHANGED SINCE LAST RUN:');
+  lines.push('');
+  if (changes) {
+    lines.push(...generateChangesText(changes));
+  } else {
+    lines.push('   No previous run saved yet - changes will appear from the next run');
+  }
+  lines.push('');
+
   // Deals with issues section
   if (summary.dealsWithIssues.length > 0) {
     lines.push('━'.repeat(80));
@@ -168,11 +251,20 @@ function generateReportText(summary: HygieneSummary): string[] {
       if (deal.dealOwnerName) {
         lines.push(`   👤 Owner: ${deal.dealOwnerName}`);
       }
-      lines.push(`   ❌ Missing: ${deal.missingProperties.map(mp => mp.label).join(', ')}`);
+      if (deal.dealTeamName) {
+        lines.push(`   👥 Team: ${deal.dealTeamName}`);
+      }
+      if (deal.collaboratorNames.length > 0) {
+        lines.push(`   🤝 Collaborators: ${deal.collaboratorNames.join(', ')}`);
+      }
+      lines.push(`   ❌ Missing: ${deal.missingProperties.map(describeFailedCheck).join(', ')}`);
       if (deal.isCloseDatePastDue && deal.closeDateString) {
         lines.push(`   🚨 Close Date Past Due: ${deal.closeDateString}`);
       }
-      lines.push(`   📉 Completeness: ${deal.completenessScore}% (${deal.totalPresent}/${deal.totalRequired} properties)`);
+      if (deal.isBlocking) {
+        lines.push(`   ⛔ Blocking: ${deal.blockingReasons.join(', ')}`);
+      }
+      lines.push(`   📉 Completeness: ${deal.completenessScore}% weighted (${deal.totalPresent}/${deal.totalRequired} properties)`);
       lines.push('');
     });
   } else {
@@ -201,17 +293,29 @@ function generateReportText(summary: HygieneSummary): string[] {
   lines.push('━'.repeat(80));
   lines.push('📊 DEALS BY COMPLETENESS:');
   lines.push('');
-  lines.push(`   🟢 90-100% Complete: ${summary.dealsByCompleteness.excellent.length} deal(s)`);
-  lines.push(`   🟡 70-89% Complete: ${summary.dealsByCompleteness.good.length} deal(s)`);
-  lines.push(`   🔴 Below 70%: ${summary.dealsByCompleteness.poor.length} deal(s)`);
+  const { excellent: excellentCutoff, good: goodCutoff } = summary.tierThresholds;
+  lines.push(`   🟢 ${excellentCutoff}-100% Complete: ${summary.dealsByCompleteness.excellent.length} deal(s)`);
+  lines.push(`   🟡 ${goodCutoff}-${excellentCutoff - 1}% Complete: ${summary.dealsByCompleteness.good.length} deal(s)`);
+  lines.push(`   🔴 Below ${goodCutoff}%: ${summary.dealsByCompleteness.poor.length} deal(s)`);
+  lines.push(`   ⛔ Blocking (critical field missing): ${summary.dealsByCompleteness.blocking.length} deal(s)`);
 
   // Show poor performers in detail
   if (summary.dealsByCompleteness.poor.length > 0) {
     lines.push('');
-    lines.push('   🔴 Deals Below 70% Completeness:');
+    lines.push(`   🔴 Deals Below ${goodCutoff}% Completeness:`);
     lines.push('');
     summary.dealsByCompleteness.poor.forEach(deal => {
-      lines.push(`      • "${deal.dealName}" - ${deal.completenessScore}% (Missing: ${deal.missingProperties.map(mp => mp.label).join(', ')})`);
+      lines.push(`      • "${deal.dealName}" - ${deal.completenessScore}% (Missing: ${deal.missingProperties.map(describeFailedCheck).join(', ')})`);
+    });
+  }
+
+  // Show blocking deals with the critical fields holding them up
+  if (summary.dealsByCompleteness.blocking.length > 0) {
+    lines.push('');
+    lines.push('   ⛔ Blocking Deals:');
+    lines.push('');
+    summary.dealsByCompleteness.blocking.forEach(deal => {
+      lines.push(`      • "${deal.dealName}" - ${deal.completenessScore}% (Blocked by: ${deal.blockingReasons.join(', ')})`);
     });
   }
 
@@ -233,6 +337,15 @@ function generateReportText(summary: HygieneSummary): string[] {
     });
   }
 
+  // Close-date slippage from property history
+  if (slippage && slippage.slippedDeals.length > 0) {
+    lines.push('━'.repeat(80));
+    lines.push('🐌 CLOSE-DATE SLIPPAGE:');
+    lines.push('');
+    lines.push(...generateSlippageText(slippage));
+    lines.push('');
+  }
+
   lines.push('━'.repeat(80));
   lines.push('💡 RECOMMENDATIONS:');
   lines.push('');
@@ -248,7 +361,11 @@ function generateReportText(summary: HygieneSummary): string[] {
   }
 
   if (summary.dealsByCompleteness.poor.length > 0) {
-    lines.push(`   3. Review ${summary.dealsByCompleteness.poor.length} deal(s) below 70% completeness`);
+    lines.push(`   3. Review ${summary.dealsByCompleteness.poor.length} deal(s) below ${goodCutoff}% completeness`);
+  }
+
+  if (summary.dealsByCompleteness.blocking.length > 0) {
+    lines.push(`   4. Unblock ${summary.dealsByCompleteness.blocking.length} deal(s) missing critical fields`);
   }
 
   lines.push('');
@@ -261,8 +378,13 @@ function generateReportText(summary: HygieneSummary): string[] {
  */
 async function generateEmailReport(
   summary: HygieneSummary,
-  reports: DealHygieneReport[]
+  reports: DealHygieneReport[],
+  changes: HygieneRunDiff | null,
+  slippage: SlippageReport | null,
+  stageNames: string
 ): Promise<string> {
+  const slippageByDeal = new Map((slippage?.slippedDeals || []).map(deal => [deal.dealId, deal]));
+
   // Organize deals with issues by owner for better accountability
   // Include deals with missing fields OR past-due close dates
   const dealsByOwner = new Map<string, DealHygieneReport[]>();
@@ -286,6 +408,20 @@ async function generateEmailReport(
     overallHealth: summary.averageCompleteness,
     dealsWithIssuesCount: summary.dealsWithIssues.length,
     pastDueCount: summary.pastDueCount,
+    blockingCount: summary.dealsByCompleteness.blocking.length,
+    changesSinceLastRun: changes ? {
+      healthChange: changes.averageCompletenessChange,
+      fieldsFixed: changes.fixed.reduce((sum, c) => sum + c.fields.length, 0),
+      fieldsNewlyMissing: changes.newlyMissing.reduce((sum, c) => sum + c.fields.length, 0),
+      dealsNewlyPastDue: changes.newlyPastDue.length,
+      dealsLeftReport: changes.leftReport.length,
+    } : null,
+    chronicSlippers: (slippage?.chronicSlippers || []).map(deal => ({
+      name: deal.dealName,
+      owner: deal.ownerName || 'Unassigned',
+      pushCount: deal.pushCount,
+      totalDaysSlipped: deal.totalDaysSlipped,
+    })),
     dealsByOwner: Array.from(dealsByOwner.entries()).map(([owner, deals]) => ({
       owner,
       dealCount: deals.length,
@@ -295,9 +431,12 @@ async function generateEmailReport(
         pipeline: deal.dealPipelineName,
         stage: deal.dealStageName,
         completeness: deal.completenessScore,
-        missingFields: deal.missingProperties.map(mp => mp.label),
+        blockingFields: deal.blockingReasons,
+        missingFields: deal.missingProperties.map(describeFailedCheck),
         isCloseDatePastDue: deal.isCloseDatePastDue,
         closeDateString: deal.closeDateString,
+        closeDatePushCount: slippageByDeal.get(deal.dealId)?.pushCount ?? 0,
+        isChronicSlipper: slippageByDeal.get(deal.dealId)?.isChronicSlipper ?? false,
       }))
     })),
     topMissingProperties: Array.from(summary.propertyMissingCounts.entries())
@@ -327,10 +466,13 @@ Your task is to create a professional email that the VP can send to their sales
 </context>
 
 <data>
-Total deals analyzed: ${dataForAI.totalDeals} (Sales pipeline only - Proposal and Demo stages)
-Overall health: ${dataForAI.overallHealth}% complete (average)
+Total deals analyzed: ${dataForAI.totalDeals} (Sales pipeline only - ${stageNames})
+Overall health: ${dataForAI.overallHealth}% complete (weighted average)
 Deals with issues: ${dataForAI.dealsWithIssuesCount} deals missing 1+ required fields
 Deals with past-due close dates: ${dataForAI.pastDueCount} deal(s)
+Blocking deals (missing a critical field): ${dataForAI.blockingCount} deal(s)
+Chronic close-date slippers: ${JSON.stringify(dataForAI.chronicSlippers)}
+Changes since last run: ${dataForAI.changesSinceLastRun ? JSON.stringify(dataForAI.changesSinceLastRun) : 'No previous run'}
 
 Deals by owner (includes ALL deals with missing fields OR past-due close dates):
 ${JSON.stringify(dataForAI.dealsByOwner, null, 2)}
@@ -348,6 +490,7 @@ OPENING:
 - Start with "Quick health check:" followed by 1-2 sentences about the stats
 - Include total deals, pipeline name, overall health percentage, and number of deals with missing fields
 - MUST also mention if there are any deals with past-due close dates (${dataForAI.pastDueCount} deals)
+- If changes since last run are available, add one short sentence on progress (fields fixed, newly missing, newly past due)
 
 BODY - DEALS BY OWNER:
 - Organize by owner name
@@ -356,6 +499,7 @@ BODY - DEALS BY OWNER:
 - CRITICAL: For EVERY deal where isCloseDatePastDue is true, you MUST show a separate line immediately after the missing fields line:
   "  - Close Date Past Due: [closeDateString]"
 - This is NOT optional - if a deal has isCloseDatePastDue: true, you MUST include the "Close Date Past Due" line
+- For every deal where isChronicSlipper is true, add a line: "  - Close date pushed [closeDatePushCount] times"
 - Even if a deal has NO missing fields, if isCloseDatePastDue is true, you MUST still list that deal under its owner with the past-due close date
 - Use plain hyphens (-) for lists
 
@@ -385,7 +529,7 @@ SIGN-OFF:
 <example>
 Subject: HubSpot Deal Hygiene Report
 
-Quick health check: We reviewed 25 Sales-pipeline deals (Proposal and Demo stages). Overall completeness is 82%, and there are 7 deals missing required fields. 3 deals have past-due close dates.
+Quick health check: We reviewed 25 Sales-pipeline deals (${stageNames}). Overall completeness is 82%, and there are 7 deals missing required fields. 3 deals have past-due close dates.
 
 Owner: Christopher Garraffa
 - Alpine Springs Addiction Treatment - Robert's Referral (Deal ID: 36660836688)
@@ -421,7 +565,11 @@ IMPORTANT: Do NOT include any meta-commentary, explanations, or notes - just out
 /**
  * Uploads report to Google Drive
  */
-async function uploadToGoogleDrive(reportLines: string[], emailReport: string): Promise<void> {
+async function uploadToGoogleDrive(
+  reportLines: string[],
+  scorecardLines: string[],
+  emailReport: string
+): Promise<void> {
   console.log('📤 Uploading report to Google Drive...\n');
 
   try {
@@ -467,7 +615,13 @@ async function uploadToGoogleDrive(reportLines: string[], emailReport: string):
       ...reportLines,
       '',
       '━'.repeat(80),
-      'SECTION 2: AI-GENERATED EMAIL REPORT',
+      'SECTION 2: OWNER SCORECARDS',
+      '━'.repeat(80),
+      '',
+      ...scorecardLines,
+      '',
+      '━'.repeat(80),
+      'SECTION 3: AI-GENERATED EMAIL REPORT',
       '━'.repeat(80),
       '',
       emailReport,
@@ -535,6 +689,92 @@ async function uploadToGoogleDrive(reportLines: string[], emailReport: string):
   }
 }
 
+/**
+ * Builds the close-date slippage report from each deal's property history.
+ * Returns null (with a warning) if the history can't be fetched.
+ */
+async function loadSlippage(
+  accessToken: string,
+  reports: DealHygieneReport[]
+): Promise<SlippageReport | null> {
+  try {
+    console.log('🕰️  Fetching close-date history...\n');
+    const timelines = await fetchDealTimelines(accessToken, reports.map(report => report.dealId));
+    return buildSlippageReport(
+      reports.map(report => ({
+        dealId: report.dealId,
+        dealName: report.dealName,
+        ownerName: report.dealOwnerName,
+        amount: null,
+      })),
+      timelines
+    );
+  } catch (error) {
+    console.warn('⚠️  Could not fetch close-date history:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Saves the run to the history store and diffs it against the previous run.
+ * History is best-effort: a store failure is reported but doesn't stop the report.
+ */
+async function recordHygieneRun(
+  summary: HygieneSummary,
+  reports: DealHygieneReport[]
+): Promise<HygieneRunDiff | null> {
+  try {
+    const store = await openHistoryStore();
+    const runId = saveHygieneRun(store, summary, reports);
+    await saveHistoryStore(store);
+
+    const previous = loadPreviousHygieneRun(store, runId);
+    const current = loadHygieneRun(store, runId);
+    return previous && current ? diffHygieneRuns(previous, current) : null;
+  } catch (error) {
+    console.warn('⚠️  Could not save hygiene history:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Builds the per-owner scorecard section from saved runs (including this one)
+ */
+async function buildScorecardLines(): Promise<string[]> {
+  try {
+    const store = await openHistoryStore();
+    const report = buildOwnerScorecards(store);
+    return report ? generateScorecardText(report) : ['No saved hygiene runs yet.'];
+  } catch (error) {
+    console.warn('⚠️  Could not build owner scorecards:', error instanceof Error ? error.message : error);
+    return ['Owner scorecards unavailable - hygiene history could not be read.'];
+  }
+}
+
+/**
+ * Creates (or previews) HubSpot tasks for deals with hygiene gaps.
+ * A failure here is reported but doesn't stop the rest of the report.
+ */
+async function writeHygieneTasks(
+  accessToken: string,
+  summary: HygieneSummary,
+  ownerDirectory: OwnerDirectory,
+  dryRun: boolean
+): Promise<void> {
+  console.log('━'.repeat(80));
+  console.log(`✍️  HUBSPOT TASKS${dryRun ? ' (DRY RUN)' : ''}`);
+  console.log('━'.repeat(80));
+  console.log('');
+
+  try {
+    const result = await syncHygieneTasks(accessToken, summary, { dryRun, ownerDirectory });
+    generateTaskSyncText(result).forEach(line => console.log(line));
+  } catch (error) {
+    console.error('❌ Failed to write hygiene tasks:', error instanceof Error ? error.message : error);
+  }
+  console.log('');
+}
+
 /**
  * Main function
  */
@@ -548,41 +788,39 @@ async function main() {
   }
 
   const accessToken = process.env.HUBSPOT_ACCESS_TOKEN;
+  const taskMode = parseTaskMode(process.argv.slice(2));
 
   try {
-    console.log('🔍 Fetching pipelines and stages...\n');
+    console.log('📏 Loading hygiene rules...\n');
+    const rulesConfig = await loadHygieneRules();
 
-    // Fetch all pipelines and stages
-    const pipelines = await fetchPipelines(accessToken);
+    console.log('🔍 Fetching pipelines and stages...\n');
 
-    // Find the Sales pipeline
-    const salesPipeline = pipelines.find(p => p.label === 'Sales');
-    if (!salesPipeline) {
-      throw new Error('Sales pipeline not found');
-    }
+    // Fetch all pipelines and resolve the configured pipeline and hygiene stages
+    const registry = await loadPipelineRegistry(accessToken);
+    const { pipelines, pipeline: salesPipeline } = registry;
 
-    console.log(`✅ Found Sales pipeline (ID: ${salesPipeline.id})\n`);
+    console.log(`✅ Found ${salesPipeline.label} pipeline (ID: ${salesPipeline.id})\n`);
 
-    // Find stages matching "proposal" and "demo" ONLY in Sales pipeline
-    const targetStages = ['proposal', 'demo'];
     const salesPipelineOnly = [salesPipeline];
-    const stageIds = findStageIdsByLabels(salesPipelineOnly, targetStages);
+    const stageIds = getReportStageIds(registry, 'hygiene');
+    const stageNames = registry.reports.hygiene.map(s => s.reportName).join(', ');
 
-    console.log(`✅ Found ${stageIds.length} matching stage(s) in Sales pipeline\n`);
+    console.log(`✅ Checking ${stageIds.length} stage(s): ${stageNames}\n`);
     console.log('📋 Fetching deals in Sales pipeline only...\n');
 
     // Search for deals in those stages, restricted to Sales pipeline
-    const result = await searchDealsByStages(accessToken, stageIds, salesPipeline.id);
-
-    console.log('💼 Fetching owner information...\n');
+    const result = await searchDealsByStages(
+      accessToken,
+      stageIds,
+      salesPipeline.id,
+      [...getPropertySet('hygiene', salesPipelineOnly), ...getRuleProperties(rulesConfig)]
+    );
 
-    // Collect all unique owner IDs
-    const ownerIds = result.results
-      .map(deal => deal.properties.hubspot_owner_id)
-      .filter(id => id);
+    console.log('💼 Loading owner directory...\n');
 
-    // Fetch all owners
-    const ownersMap = await fetchOwners(accessToken, ownerIds);
+    // Owners, teams and collaborators all resolve from the cached directory
+    const ownerDirectory = await loadOwnerDirectory(accessToken);
 
     // Create mappings for stage IDs and pipeline IDs
     const stageMap = new Map<string, string>();
@@ -599,21 +837,27 @@ async function main() {
 
     // Analyze each deal
     const reports: DealHygieneReport[] = result.results.map(deal =>
-      analyzeDeal(deal, stageMap, pipelineMap, ownersMap)
+      analyzeDeal(deal, stageMap, pipelineMap, ownerDirectory, rulesConfig)
     );
 
     // Create summary
-    const summary = createSummary(reports);
+    const summary = createSummary(reports, rulesConfig.scoring);
+
+    // Close-date slippage from property history (best-effort)
+    const slippage = await loadSlippage(accessToken, reports);
+
+    // Save this run and compare it with the previous one
+    const changes = await recordHygieneRun(summary, reports);
 
     // Generate report text (instead of displaying directly)
-    const reportLines = generateReportText(summary);
+    const reportLines = generateReportText(summary, changes, slippage, stageNames);
 
     // Display to console
     console.log('\n' + reportLines.join('\n'));
     console.log('\n✨ CLI Report Complete!\n');
 
     // Generate AI-powered email report
-    const emailReport = await generateEmailReport(summary, reports);
+    const emailReport = await generateEmailReport(summary, reports, changes, slippage, stageNames);
 
     // Display email to console
     console.log('━'.repeat(80));
@@ -623,8 +867,16 @@ async function main() {
     console.log('━'.repeat(80));
     console.log('');
 
+    // Optional write-back: HubSpot tasks for each deal with gaps
+    if (taskMode !== 'off') {
+      await writeHygieneTasks(accessToken, summary, ownerDirectory, taskMode === 'dry-run');
+    }
+
+    // Per-owner scorecards for the Google Doc
+    const scorecardLines = await buildScorecardLines();
+
     // Upload to Google Drive
-    await uploadToGoogleDrive(reportLines, emailReport);
+    await uploadToGoogleDrive(reportLines, scorecardLines, emailReport);
 
   } catch (error) {
     console.error('\n❌ Error:', error instanceof Error ? error.message : error);
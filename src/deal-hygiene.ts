@@ -1,38 +1,83 @@
 import 'dotenv/config';
 import { openai } from '@ai-sdk/openai';
 import { generateText } from 'ai';
-import { fetchPipelines, searchDealsByStages, findStageIdsByLabels, fetchOwners } from './hubspot';
+import { searchDealsByStages } from './hubspot';
+import { loadPipelineRegistry, getReportStageIds } from './lib/pipeline-registry.js';
+import {
+  loadOwnerDirectory,
+  getOwnerName,
+  getTeamName,
+  parseOwnerIds,
+  resolveCollaboratorNames,
+  type OwnerDirectory,
+} from './lib/owner-directory.js';
+import { getPropertySet } from './lib/property-sets.js';
+import {
+  loadHygieneRules,
+  resolveRules,
+  evaluateRule,
+  getRuleProperties,
+  describeFailedCheck,
+  scoreChecks,
+  type HygieneRulesConfig,
+  type HygieneScoringConfig,
+} from './lib/hygiene-rules.js';
+import { openHistoryStore, saveHistoryStore } from './lib/history-store.js';
+import {
+  saveHygieneRun,
+  loadHygieneRun,
+  loadPreviousHygieneRun,
+  diffHygieneRuns,
+  generateChangesText,
+  type HygieneRunDiff,
+} from './lib/hygiene-history.js';
+import { fetchDealTimelines } from './lib/deal-history.js';
+import {
+  buildSlippageReport,
+  generateSlippageText,
+  type SlippageReport,
+} from './lib/close-date-slippage.js';
+import { parseTaskMode, syncHygieneTasks, generateTaskSyncText } from './lib/hygiene-tasks.js';
 import {
-  REQUIRED_PROPERTIES,
-  isPropertyMissing,
   DealHygieneReport,
   HygieneSummary,
   PropertyCheck,
 } from './types';
 
 /**
- * Analyzes a single deal for missing required properties
+ * Analyzes a single deal against the hygiene rules for its pipeline and stage
  */
 function analyzeDeal(
   deal: any,
   stageMap: Map<string, string>,
   pipelineMap: Map<string, string>,
-  ownersMap: Map<string, any>
+  ownerDirectory: OwnerDirectory,
+  rulesConfig: HygieneRulesConfig
 ): DealHygieneReport {
   const props = deal.properties;
   const propertyChecks: PropertyCheck[] = [];
   const missingProperties: PropertyCheck[] = [];
 
-  // Check each required property
-  for (const reqProp of REQUIRED_PROPERTIES) {
-    const value = props[reqProp.propertyName];
-    const isMissing = isPropertyMissing(reqProp.propertyName, value);
+  const rules = resolveRules(
+    rulesConfig,
+    { id: props.pipeline || '', label: pipelineMap.get(props.pipeline) || '' },
+    { id: props.dealstage || '', label: stageMap.get(props.dealstage) || '' }
+  );
+
+  // Check each rule
+  for (const rule of rules) {
+    const value = props[rule.property];
+    const result = evaluateRule(rule, value);
+    const isMissing = !result.passed;
 
     const check: PropertyCheck = {
-      label: reqProp.label,
-      propertyName: reqProp.propertyName,
+      label: rule.label,
+      propertyName: rule.property,
       value: value,
       isMissing: isMissing,
+      failureReason: result.reason,
+      severity: rule.severity,
+      weight: rule.weight,
     };
 
     propertyChecks.push(check);
@@ -42,16 +87,18 @@ function analyzeDeal(
     }
   }
 
-  // Calculate completeness score
-  const totalRequired = REQUIRED_PROPERTIES.length;
+  // Calculate weighted completeness score and blocking status
+  const totalRequired = rules.length;
   const totalPresent = totalRequired - missingProperties.length;
-  const completenessScore = Math.round((totalPresent / totalRequired) * 100);
+  const { completenessScore, isBlocking, blockingReasons } = scoreChecks(propertyChecks, rulesConfig.scoring);
 
   // Get readable names
   const dealStageName = props.dealstage ? (stageMap.get(props.dealstage) || props.dealstage) : 'N/A';
   const dealPipelineName = props.pipeline ? (pipelineMap.get(props.pipeline) || props.pipeline) : 'N/A';
-  const owner = props.hubspot_owner_id ? ownersMap.get(props.hubspot_owner_id) : null;
-  const dealOwnerName = owner ? `${owner.firstName} ${owner.lastName}` : null;
+  const dealOwnerName = getOwnerName(ownerDirectory, props.hubspot_owner_id);
+  const dealTeamName = getTeamName(ownerDirectory, props.hubspot_team_id);
+  const collaboratorIds = parseOwnerIds(props.hs_all_collaborator_owner_ids);
+  const collaboratorNames = resolveCollaboratorNames(ownerDirectory, props.hs_all_collaborator_owner_ids);
 
   // Parse and check close date
   const closeDate = props.closedate ? new Date(props.closedate) : null;
@@ -70,9 +117,15 @@ function analyzeDeal(
     dealPipelineName: dealPipelineName,
     dealOwner: props.hubspot_owner_id || null,
     dealOwnerName: dealOwnerName,
+    dealTeam: props.hubspot_team_id || null,
+    dealTeamName: dealTeamName,
+    collaboratorIds: collaboratorIds,
+    collaboratorNames: collaboratorNames,
     propertyChecks: propertyChecks,
     missingProperties: missingProperties,
     completenessScore: completenessScore,
+    isBlocking: isBlocking,
+    blockingReasons: blockingReasons,
     totalRequired: totalRequired,
     totalPresent: totalPresent,
     totalMissing: missingProperties.length,
@@ -85,32 +138,40 @@ function analyzeDeal(
 /**
  * Creates a summary report from all deal hygiene reports
  */
-function createSummary(reports: DealHygieneReport[]): HygieneSummary {
+function createSummary(reports: DealHygieneReport[], scoring: HygieneScoringConfig): HygieneSummary {
   // Calculate average completeness
   const totalCompleteness = reports.reduce((sum, report) => sum + report.completenessScore, 0);
   const averageCompleteness = reports.length > 0 ? Math.round(totalCompleteness / reports.length) : 0;
 
-  // Count missing properties across all deals
+  // Count missing properties across all deals. Rules can differ by stage, so
+  // percentages are relative to the deals each property was checked on.
   const propertyMissingCounts = new Map<string, { label: string; missingCount: number; percentage: number }>();
+  const propertyCheckedCounts = new Map<string, number>();
 
-  for (const reqProp of REQUIRED_PROPERTIES) {
-    const missingCount = reports.filter(report =>
-      report.missingProperties.some(mp => mp.propertyName === reqProp.propertyName)
-    ).length;
+  for (const report of reports) {
+    for (const check of report.propertyChecks) {
+      if (!propertyMissingCounts.has(check.propertyName)) {
+        propertyMissingCounts.set(check.propertyName, { label: check.label, missingCount: 0, percentage: 0 });
+      }
+      propertyCheckedCounts.set(check.propertyName, (propertyCheckedCounts.get(check.propertyName) || 0) + 1);
 
-    const percentage = reports.length > 0 ? Math.round((missingCount / reports.length) * 100) : 0;
+      if (check.isMissing) {
+        propertyMissingCounts.get(check.propertyName)!.missingCount++;
+      }
+    }
+  }
 
-    propertyMissingCounts.set(reqProp.propertyName, {
-      label: reqProp.label,
-      missingCount: missingCount,
-      percentage: percentage,
-    });
+  for (const [propertyName, data] of propertyMissingCounts) {
+    const checkedCount = propertyCheckedCounts.get(propertyName) || 0;
+    data.percentage = checkedCount > 0 ? Math.round((data.missingCount / checkedCount) * 100) : 0;
   }
 
-  // Categorize deals by completeness
-  const excellent = reports.filter(r => r.completenessScore >= 90);
-  const good = reports.filter(r => r.completenessScore >= 70 && r.completenessScore < 90);
-  const poor = reports.filter(r => r.completenessScore < 70);
+  // Categorize deals by weighted completeness, using the configured tier cut-offs
+  const { tiers } = scoring;
+  const excellent = reports.filter(r => r.completenessScore >= tiers.excellent);
+  const good = reports.filter(r => r.completenessScore >= tiers.good && r.completenessScore < tiers.excellent);
+  const poor = reports.filter(r => r.completenessScore < tiers.good);
+  const blocking = reports.filter(r => r.isBlocking);
 
   // Identify deals with any issues (missing 1+ properties)
   const dealsWithIssues = reports.filter(r => r.totalMissing >= 1);
@@ -123,10 +184,15 @@ function createSummary(reports: DealHygieneReport[]): HygieneSummary {
     totalDeals: reports.length,
     averageCompleteness: averageCompleteness,
     propertyMissingCounts: propertyMissingCounts,
+    tierThresholds: {
+      excellent: tiers.excellent,
+      good: tiers.good,
+    },
     dealsByCompleteness: {
       excellent: excellent,
       good: good,
       poor: poor,
+      blocking: blocking,
     },
     dealsWithIssues: dealsWithIssues,
     dealsWithPastDueCloseDates: dealsWithPastDueCloseDates,
@@ -137,18 +203,33 @@ function createSummary(reports: DealHygieneReport[]): HygieneSummary {
 /**
  * Formats and displays the hygiene report
  */
-function displayReport(summary: HygieneSummary) {
+function displayReport(
+  summary: HygieneSummary,
+  changes: HygieneRunDiff | null,
+  slippage: SlippageReport | null,
+  stageNames: string
+) {
   console.log('\n' + '━'.repeat(80));
   console.log('DEAL HYGIENE REPORT - SALES PIPELINE ONLY');
   console.log('━'.repeat(80));
 
-  console.log(`\n📊 Analyzed: ${summary.totalDeals} deal(s) in Sales pipeline ("Proposal" and "Demo - Completed" stages)`);
+  console.log(`\n📊 Analyzed: ${summary.totalDeals} deal(s) in Sales pipeline (${stageNames})`);
   console.log(`📈 Overall Health: ${summary.averageCompleteness}% complete (average)`);
   if (summary.pastDueCount > 0) {
     console.log(`🚨 Past-Due Close Dates: ${summary.pastDueCount} deal(s) with close date in the past`);
   }
   console.log('');
 
+  // What changed since the previous run
+  console.log('━'.repeat(80));
+  console.log('🔄 WHAT CHANGED SINCE LAST RUN:\n');
+  if (changes) {
+    generateChangesText(changes).forEach(line => console.log(line));
+    console.log('');
+  } else {
+    console.log('   No previous run saved yet - changes will appear from the next run\n');
+  }
+
   // Deals with issues section
   if (summary.dealsWithIssues.length > 0) {
     console.log('━'.repeat(80));
@@ -161,11 +242,20 @@ function displayReport(summary: HygieneSummary) {
       if (deal.dealOwnerName) {
         console.log(`   👤 Owner: ${deal.dealOwnerName}`);
       }
-      console.log(`   ❌ Missing: ${deal.missingProperties.map(mp => mp.label).join(', ')}`);
+      if (deal.dealTeamName) {
+        console.log(`   👥 Team: ${deal.dealTeamName}`);
+      }
+      if (deal.collaboratorNames.length > 0) {
+        console.log(`   🤝 Collaborators: ${deal.collaboratorNames.join(', ')}`);
+      }
+      console.log(`   ❌ Missing: ${deal.missingProperties.map(describeFailedCheck).join(', ')}`);
       if (deal.isCloseDatePastDue && deal.closeDateString) {
         console.log(`   🚨 Close Date Past Due: ${deal.closeDateString}`);
       }
-      console.log(`   📉 Completeness: ${deal.completenessScore}% (${deal.totalPresent}/${deal.totalRequired} properties)\n`);
+      if (deal.isBlocking) {
+        console.log(`   ⛔ Blocking: ${deal.blockingReasons.join(', ')}`);
+      }
+      console.log(`   📉 Completeness: ${deal.completenessScore}% weighted (${deal.totalPresent}/${deal.totalRequired} properties)\n`);
     });
   } else {
     console.log('━'.repeat(80));
@@ -189,15 +279,25 @@ function displayReport(summary: HygieneSummary) {
   // Deals by completeness
   console.log('\n' + '━'.repeat(80));
   console.log('📊 DEALS BY COMPLETENESS:\n');
-  console.log(`   🟢 90-100% Complete: ${summary.dealsByCompleteness.excellent.length} deal(s)`);
-  console.log(`   🟡 70-89% Complete: ${summary.dealsByCompleteness.good.length} deal(s)`);
-  console.log(`   🔴 Below 70%: ${summary.dealsByCompleteness.poor.length} deal(s)`);
+  const { excellent: excellentCutoff, good: goodCutoff } = summary.tierThresholds;
+  console.log(`   🟢 ${excellentCutoff}-100% Complete: ${summary.dealsByCompleteness.excellent.length} deal(s)`);
+  console.log(`   🟡 ${goodCutoff}-${excellentCutoff - 1}% Complete: ${summary.dealsByCompleteness.good.length} deal(s)`);
+  console.log(`   🔴 Below ${goodCutoff}%: ${summary.dealsByCompleteness.poor.length} deal(s)`);
+  console.log(`   ⛔ Blocking (critical field missing): ${summary.dealsByCompleteness.blocking.length} deal(s)`);
 
   // Show poor performers in detail
   if (summary.dealsByCompleteness.poor.length > 0) {
-    console.log('\n   🔴 Deals Below 70% Completeness:\n');
+    console.log(`\n   🔴 Deals Below ${goodCutoff}% Completeness:\n`);
     summary.dealsByCompleteness.poor.forEach(deal => {
-      console.log(`      • "${deal.dealName}" - ${deal.completenessScore}% (Missing: ${deal.missingProperties.map(mp => mp.label).join(', ')})`);
+      console.log(`      • "${deal.dealName}" - ${deal.completenessScore}% (Missing: ${deal.missingProperties.map(describeFailedCheck).join(', ')})`);
+    });
+  }
+
+  // Show blocking deals with the critical fields holding them up
+  if (summary.dealsByCompleteness.blocking.length > 0) {
+    console.log('\n   ⛔ Blocking Deals:\n');
+    summary.dealsByCompleteness.blocking.forEach(deal => {
+      console.log(`      • "${deal.dealName}" - ${deal.completenessScore}% (Blocked by: ${deal.blockingReasons.join(', ')})`);
     });
   }
 
@@ -217,6 +317,14 @@ function displayReport(summary: HygieneSummary) {
     });
   }
 
+  // Close-date slippage from property history
+  if (slippage && slippage.slippedDeals.length > 0) {
+    console.log('━'.repeat(80));
+    console.log('🐌 CLOSE-DATE SLIPPAGE:\n');
+    generateSlippageText(slippage).forEach(line => console.log(line));
+    console.log('');
+  }
+
   console.log('━'.repeat(80));
   console.log('\n💡 RECOMMENDATIONS:\n');
 
@@ -231,7 +339,11 @@ function displayReport(summary: HygieneSummary) {
   }
 
   if (summary.dealsByCompleteness.poor.length > 0) {
-    console.log(`   3. Review ${summary.dealsByCompleteness.poor.length} deal(s) below 70% completeness`);
+    console.log(`   3. Review ${summary.dealsByCompleteness.poor.length} deal(s) below ${goodCutoff}% completeness`);
+  }
+
+  if (summary.dealsByCompleteness.blocking.length > 0) {
+    console.log(`   4. Unblock ${summary.dealsByCompleteness.blocking.length} deal(s) missing critical fields`);
   }
 
   console.log('\n✨ Done!\n');
@@ -242,8 +354,13 @@ function displayReport(summary: HygieneSummary) {
  */
 async function generateEmailReport(
   summary: HygieneSummary,
-  reports: DealHygieneReport[]
+  reports: DealHygieneReport[],
+  changes: HygieneRunDiff | null,
+  slippage: SlippageReport | null,
+  stageNames: string
 ): Promise<string> {
+  const slippageByDeal = new Map((slippage?.slippedDeals || []).map(deal => [deal.dealId, deal]));
+
   // Organize deals with issues by owner for better accountability
   // Include deals with missing fields OR past-due close dates
   const dealsByOwner = new Map<string, DealHygieneReport[]>();
@@ -267,6 +384,20 @@ async function generateEmailReport(
     overallHealth: summary.averageCompleteness,
     dealsWithIssuesCount: summary.dealsWithIssues.length,
     pastDueCount: summary.pastDueCount,
+    blockingCount: summary.dealsByCompleteness.blocking.length,
+    changesSinceLastRun: changes ? {
+      healthChange: changes.averageCompletenessChange,
+      fieldsFixed: changes.fixed.reduce((sum, c) => sum + c.fields.length, 0),
+      fieldsNewlyMissing: changes.newlyMissing.reduce((sum, c) => sum + c.fields.length, 0),
+      dealsNewlyPastDue: changes.newlyPastDue.length,
+      dealsLeftReport: changes.leftReport.length,
+    } : null,
+    chronicSlippers: (slippage?.chronicSlippers || []).map(deal => ({
+      name: deal.dealName,
+      owner: deal.ownerName || 'Unassigned',
+      pushCount: deal.pushCount,
+      totalDaysSlipped: deal.totalDaysSlipped,
+    })),
     dealsByOwner: Array.from(dealsByOwner.entries()).map(([owner, deals]) => ({
       owner,
       dealCount: deals.length,
@@ -276,9 +407,12 @@ async function generateEmailReport(
         pipeline: deal.dealPipelineName,
         stage: deal.dealStageName,
         completeness: deal.completenessScore,
-        missingFields: deal.missingProperties.map(mp => mp.label),
+        blockingFields: deal.blockingReasons,
+        missingFields: deal.missingProperties.map(describeFailedCheck),
         isCloseDatePastDue: deal.isCloseDatePastDue,
         closeDateString: deal.closeDateString,
+        closeDatePushCount: slippageByDeal.get(deal.dealId)?.pushCount ?? 0,
+        isChronicSlipper: slippageByDeal.get(deal.dealId)?.isChronicSlipper ?? false,
       }))
     })),
     topMissingProperties: Array.from(summary.propertyMissingCounts.entries())
@@ -308,10 +442,13 @@ Your task is to create a professional email that the VP can send to their sales
 </context>
 
 <data>
-Total deals analyzed: ${dataForAI.totalDeals} (Sales pipeline only - Proposal and Demo stages)
-Overall health: ${dataForAI.overallHealth}% complete (average)
+Total deals analyzed: ${dataForAI.totalDeals} (Sales pipeline only - ${stageNames})
+Overall health: ${dataForAI.overallHealth}% complete (weighted average)
 Deals with issues: ${dataForAI.dealsWithIssuesCount} deals missing 1+ required fields
 Deals with past-due close dates: ${dataForAI.pastDueCount} deal(s)
+Blocking deals (missing a critical field): ${dataForAI.blockingCount} deal(s)
+Chronic close-date slippers: ${JSON.stringify(dataForAI.chronicSlippers)}
+Changes since last run: ${dataForAI.changesSinceLastRun ? JSON.stringify(dataForAI.changesSinceLastRun) : 'No previous run'}
 
 Deals by owner (includes ALL deals with missing fields OR past-due close dates):
 ${JSON.stringify(dataForAI.dealsByOwner, null, 2)}
@@ -329,6 +466,7 @@ OPENING:
 - Start with "Quick health check:" followed by 1-2 sentences about the stats
 - Include total deals, pipeline name, overall health percentage, and number of deals with missing fields
 - MUST also mention if there are any deals with past-due close dates (${dataForAI.pastDueCount} deals)
+- If changes since last run are available, add one short sentence on progress (fields fixed, newly missing, newly past due)
 
 BODY - DEALS BY OWNER:
 - Organize by owner name
@@ -337,6 +475,7 @@ BODY - DEALS BY OWNER:
 - CRITICAL: For EVERY deal where isCloseDatePastDue is true, you MUST show a separate line immediately after the missing fields line:
   "  - Close Date Past Due: [closeDateString]"
 - This is NOT optional - if a deal has isCloseDatePastDue: true, you MUST include the "Close Date Past Due" line
+- For every deal where isChronicSlipper is true, add a line: "  - Close date pushed [closeDatePushCount] times"
 - Even if a deal has NO missing fields, if isCloseDatePastDue is true, you MUST still list that deal under its owner with the past-due close date
 - Use plain hyphens (-) for lists
 
@@ -366,7 +505,7 @@ SIGN-OFF:
 <example>
 Subject: HubSpot Deal Hygiene Report
 
-Quick health check: We reviewed 25 Sales-pipeline deals (Proposal and Demo stages). Overall completeness is 82%, and there are 7 deals missing required fields. 3 deals have past-due close dates.
+Quick health check: We reviewed 25 Sales-pipeline deals (${stageNames}). Overall completeness is 82%, and there are 7 deals missing required fields. 3 deals have past-due close dates.
 
 Owner: Christopher Garraffa
 - Alpine Springs Addiction Treatment - Robert's Referral (Deal ID: 36660836688)
@@ -399,6 +538,78 @@ IMPORTANT: Do NOT include any meta-commentary, explanations, or notes - just out
   }
 }
 
+/**
+ * Builds the close-date slippage report from each deal's property history.
+ * Returns null (with a warning) if the history can't be fetched.
+ */
+async function loadSlippage(
+  accessToken: string,
+  reports: DealHygieneReport[]
+): Promise<SlippageReport | null> {
+  try {
+    console.log('🕰️  Fetching close-date history...\n');
+    const timelines = await fetchDealTimelines(accessToken, reports.map(report => report.dealId));
+    return buildSlippageReport(
+      reports.map(report => ({
+        dealId: report.dealId,
+        dealName: report.dealName,
+        ownerName: report.dealOwnerName,
+        amount: null,
+      })),
+      timelines
+    );
+  } catch (error) {
+    console.warn('⚠️  Could not fetch close-date history:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Saves the run to the history store and diffs it against the previous run.
+ * History is best-effort: a store failure is reported but doesn't stop the report.
+ */
+async function recordHygieneRun(
+  summary: HygieneSummary,
+  reports: DealHygieneReport[]
+): Promise<HygieneRunDiff | null> {
+  try {
+    const store = await openHistoryStore();
+    const runId = saveHygieneRun(store, summary, reports);
+    await saveHistoryStore(store);
+
+    const previous = loadPreviousHygieneRun(store, runId);
+    const current = loadHygieneRun(store, runId);
+    return previous && current ? diffHygieneRuns(previous, current) : null;
+  } catch (error) {
+    console.warn('⚠️  Could not save hygiene history:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Creates (or previews) HubSpot tasks for deals with hygiene gaps.
+ * A failure here is reported but doesn't stop the rest of the report.
+ */
+async function writeHygieneTasks(
+  accessToken: string,
+  summary: HygieneSummary,
+  ownerDirectory: OwnerDirectory,
+  dryRun: boolean
+): Promise<void> {
+  console.log('━'.repeat(80));
+  console.log(`✍️  HUBSPOT TASKS${dryRun ? ' (DRY RUN)' : ''}`);
+  console.log('━'.repeat(80));
+  console.log('');
+
+  try {
+    const result = await syncHygieneTasks(accessToken, summary, { dryRun, ownerDirectory });
+    generateTaskSyncText(result).forEach(line => console.log(line));
+  } catch (error) {
+    console.error('❌ Failed to write hygiene tasks:', error instanceof Error ? error.message : error);
+  }
+  console.log('');
+}
+
 /**
  * Main function
  */
@@ -412,41 +623,39 @@ async function main() {
   }
 
   const accessToken = process.env.HUBSPOT_ACCESS_TOKEN;
+  const taskMode = parseTaskMode(process.argv.slice(2));
 
   try {
-    console.log('🔍 Fetching pipelines and stages...\n');
+    console.log('📏 Loading hygiene rules...\n');
+    const rulesConfig = await loadHygieneRules();
 
-    // Fetch all pipelines and stages
-    const pipelines = await fetchPipelines(accessToken);
+    console.log('🔍 Fetching pipelines and stages...\n');
 
-    // Find the Sales pipeline
-    const salesPipeline = pipelines.find(p => p.label === 'Sales');
-    if (!salesPipeline) {
-      throw new Error('Sales pipeline not found');
-    }
+    // Fetch all pipelines and resolve the configured pipeline and hygiene stages
+    const registry = await loadPipelineRegistry(accessToken);
+    const { pipelines, pipeline: salesPipeline } = registry;
 
-    console.log(`✅ Found Sales pipeline (ID: ${salesPipeline.id})\n`);
+    console.log(`✅ Found ${salesPipeline.label} pipeline (ID: ${salesPipeline.id})\n`);
 
-    // Find stages matching "proposal" and "demo" ONLY in Sales pipeline
-    const targetStages = ['proposal', 'demo'];
     const salesPipelineOnly = [salesPipeline];
-    const stageIds = findStageIdsByLabels(salesPipelineOnly, targetStages);
+    const stageIds = getReportStageIds(registry, 'hygiene');
+    const stageNames = registry.reports.hygiene.map(s => s.reportName).join(', ');
 
-    console.log(`✅ Found ${stageIds.length} matching stage(s) in Sales pipeline\n`);
+    console.log(`✅ Checking ${stageIds.length} stage(s): ${stageNames}\n`);
     console.log('📋 Fetching deals in Sales pipeline only...\n');
 
     // Search for deals in those stages, restricted to Sales pipeline
-    const result = await searchDealsByStages(accessToken, stageIds, salesPipeline.id);
-
-    console.log('💼 Fetching owner information...\n');
+    const result = await searchDealsByStages(
+      accessToken,
+      stageIds,
+      salesPipeline.id,
+      [...getPropertySet('hygiene', salesPipelineOnly), ...getRuleProperties(rulesConfig)]
+    );
 
-    // Collect all unique owner IDs
-    const ownerIds = result.results
-      .map(deal => deal.properties.hubspot_owner_id)
-      .filter(id => id);
+    console.log('💼 Loading owner directory...\n');
 
-    // Fetch all owners
-    const ownersMap = await fetchOwners(accessToken, ownerIds);
+    // Owners, teams and collaborators all resolve from the cached directory
+    const ownerDirectory = await loadOwnerDirectory(accessToken);
 
     // Create mappings for stage IDs and pipeline IDs
     const stageMap = new Map<string, string>();
@@ -463,17 +672,28 @@ async function main() {
 
     // Analyze each deal
     const reports: DealHygieneReport[] = result.results.map(deal =>
-      analyzeDeal(deal, stageMap, pipelineMap, ownersMap)
+      analyzeDeal(deal, stageMap, pipelineMap, ownerDirectory, rulesConfig)
     );
 
     // Create summary
-    const summary = createSummary(reports);
+    const summary = createSummary(reports, rulesConfig.scoring);
+
+    // Close-date slippage from property history (best-effort)
+    const slippage = await loadSlippage(accessToken, reports);
+
+    // Save this run and compare it with the previous one
+    const changes = await recordHygieneRun(summary, reports);
 
     // Display report
-    displayReport(summary);
+    displayReport(summary, changes, slippage, stageNames);
+
+    // Optional write-back: HubSpot tasks for each deal with gaps
+    if (taskMode !== 'off') {
+      await writeHygieneTasks(accessToken, summary, ownerDirectory, taskMode === 'dry-run');
+    }
 
     // Generate AI-powered email report
-    const emailReport = await generateEmailReport(summary, reports);
+    const emailReport = await generateEmailReport(summary, reports, changes, slippage, stageNames);
 
     // Display copy-pasteable email
     console.log('\n' + '━'.repeat(80));
@@ -0,0 +1,319 @@
+import 'dotenv/config';
+import { searchDeals, fetchOwners, fetchDealsByIds, getCurrentStageEnteredDate } from './hubspot.js';
+import { DealQuery } from './lib/deal-query.js';
+import { getPropertySet } from './lib/property-sets.js';
+import { loadPipelineRegistry, getReportStageIds } from './lib/pipeline-registry.js';
+import {
+  loadFiscalCalendar,
+  getFiscalQuarter,
+  getFiscalQuarterForDate,
+  parseQuarterArg,
+} from './lib/fiscal-calendar.js';
+import { openHistoryStore } from './lib/history-store.js';
+import {
+  loadForecastSnapshot,
+  loadForecastSnapshotsBetween,
+  type ForecastSnapshot,
+  type ForecastSnapshotSource,
+} from './lib/forecast-history.js';
+import {
+  buildForecastAccuracy,
+  buildForecastWaterfall,
+  generateAccuracyText,
+  generateWaterfallText,
+  getPeriodForecastDeals,
+  type ActualDeal,
+  type DealOutcome,
+} from './lib/forecast-accuracy.js';
+import { getRevenueBasis, getDealRevenue, describeRevenueBasis } from './lib/revenue-basis.js';
+import {
+  getCurrencySettings,
+  isUnconverted,
+  toUnconvertedDeal,
+  formatCurrency,
+  describeUnconvertedDeals,
+} from './lib/currency.js';
+import type { QuarterInfo } from './types.js';
+
+/**
+ * Forecast accuracy
+ *
+ * Compares the forecast snapshots saved by the quarterly and weekly forecasts
+ * against actual closed-won ARR for a quarter: accuracy by week of quarter, by
+ * rep and by forecast category, plus a waterfall of how the forecast moved
+ * between two snapshots.
+ *
+ * Usage:
+ *   npm run forecast-accuracy                              # Last completed fiscal quarter
+ *   npm run forecast-accuracy -- --quarter FY2027-Q1
+ *   npm run forecast-accuracy -- --source weekly           # Only weekly (or quarterly) snapshots
+ *   npm run forecast-accuracy -- --as-of 2026-08-15        # Rep/category breakdown from this date's snapshot
+ *   npm run forecast-accuracy -- --waterfall 12..31        # Waterfall between two snapshot IDs
+ *
+ * Without --waterfall the waterfall runs from the first to the last snapshot
+ * of the quarter with the same source as the reference snapshot. Quarterly and
+ * weekly snapshots are tracked as separate series. Only snapshots on the
+ * current revenue basis (REVENUE_BASIS, see lib/revenue-basis.ts) and in the
+ * current REPORTING_CURRENCY are compared with the actuals.
+ */
+
+interface AccuracyOptions {
+  quarter: QuarterInfo;
+  source: ForecastSnapshotSource | null;
+  asOf: Date | null;
+  waterfall: { from: number; to: number } | null;
+}
+
+function getArgValue(args: string[], flag: string): string | null {
+  const index = args.indexOf(flag);
+  if (index === -1) return null;
+
+  const value = args[index + 1];
+  return value && !value.startsWith('--') ? value : null;
+}
+
+function parseOptions(args: string[], now: Date = new Date()): AccuracyOptions {
+  const calendar = loadFiscalCalendar();
+
+  // Default to the last completed quarter
+  const current = getFiscalQuarterForDate(calendar, now);
+  let quarter = getFiscalQuarterForDate(calendar, new Date(current.startDate.getTime() - 1));
+
+  const quarterArg = getArgValue(args, '--quarter');
+  if (quarterArg) {
+    const parsed = parseQuarterArg(quarterArg);
+    if (!parsed) {
+      throw new Error('--quarter must look like Q3, Q3-2027 or FY2027-Q3');
+    }
+    quarter = getFiscalQuarter(calendar, parsed.fiscalYear ?? current.year, parsed.quarter);
+  }
+
+  const source = getArgValue(args, '--source');
+  if (source && source !== 'quarterly' && source !== 'weekly') {
+    throw new Error('--source must be "quarterly" or "weekly"');
+  }
+
+  let asOf: Date | null = null;
+  const asOfArg = getArgValue(args, '--as-of');
+  if (asOfArg) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(asOfArg)) {
+      throw new Error('--as-of must be a YYYY-MM-DD date');
+    }
+    const [year, month, day] = asOfArg.split('-').map(Number);
+    asOf = new Date(year, month - 1, day, 23, 59, 59, 999);
+  }
+
+  let waterfall: AccuracyOptions['waterfall'] = null;
+  const waterfallArg = getArgValue(args, '--waterfall');
+  if (waterfallArg) {
+    const match = waterfallArg.match(/^(\d+)\.\.(\d+)$/);
+    if (!match) {
+      throw new Error('--waterfall must be two snapshot IDs, e.g. 12..31');
+    }
+    waterfall = { from: Number(match[1]), to: Number(match[2]) };
+  }
+
+  return { quarter, source: source as ForecastSnapshotSource | null, asOf, waterfall };
+}
+
+/**
+ * Looks up what happened to deals that dropped out of the forecast
+ */
+async function fetchDealOutcomes(
+  accessToken: string,
+  dealIds: string[],
+  wonStageIds: string[],
+  lostStageIds: string[]
+): Promise<Map<string, DealOutcome>> {
+  const outcomes = new Map<string, DealOutcome>();
+  const deals = await fetchDealsByIds(accessToken, dealIds, ['dealstage']);
+
+  for (const deal of deals) {
+    const stageId = deal.properties.dealstage;
+    outcomes.set(
+      deal.id,
+      wonStageIds.includes(stageId) ? 'won' : lostStageIds.includes(stageId) ? 'lost' : 'open'
+    );
+  }
+
+  return outcomes;
+}
+
+function printSection(title: string, lines: string[]): void {
+  console.log('━'.repeat(80));
+  console.log(title);
+  console.log('━'.repeat(80));
+  console.log('');
+  lines.forEach(line => console.log(line));
+  console.log('');
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  const accessToken = process.env.HUBSPOT_ACCESS_TOKEN;
+  if (!accessToken) {
+    console.error('❌ Error: HUBSPOT_ACCESS_TOKEN environment variable is required');
+    process.exit(1);
+  }
+
+  try {
+    const options = parseOptions(process.argv.slice(2));
+    const { quarter } = options;
+    console.log(`🚀 Checking forecast accuracy for ${quarter.label}...\n`);
+
+    if (quarter.endDate > new Date()) {
+      console.log(`ℹ️  ${quarter.label} hasn't closed yet - actuals are closed-won ARR to date\n`);
+    }
+
+    // Snapshots taken during the quarter, on the same revenue basis and in the
+    // same currency as the actuals
+    const basis = getRevenueBasis();
+    const { reportingCurrency } = getCurrencySettings();
+    console.log(`💵 Revenue basis: ${describeRevenueBasis(basis)}, in ${reportingCurrency}\n`);
+    const store = await openHistoryStore();
+    const quarterSnapshots = loadForecastSnapshotsBetween(store, quarter.startDate, quarter.endDate)
+      .filter(snapshot => !options.source || snapshot.source === options.source);
+    const onBasis = quarterSnapshots.filter(snapshot => snapshot.revenueBasis === basis);
+    if (onBasis.length < quarterSnapshots.length) {
+      console.log(`ℹ️  Skipping ${quarterSnapshots.length - onBasis.length} snapshot(s) saved on a different revenue basis\n`);
+    }
+    const snapshots = onBasis.filter(snapshot => snapshot.reportingCurrency === reportingCurrency);
+    if (snapshots.length < onBasis.length) {
+      console.log(`ℹ️  Skipping ${onBasis.length - snapshots.length} snapshot(s) saved in a currency other than ${reportingCurrency}\n`);
+    }
+
+    if (snapshots.length === 0 && !options.waterfall) {
+      console.log(`ℹ️  No forecast snapshots were saved during ${quarter.label}.`);
+      console.log('   Snapshots are saved by every forecast and weekly-forecast run.\n');
+      return;
+    }
+
+    console.log(`📸 ${snapshots.length} snapshot(s) in ${quarter.label}:`);
+    for (const snapshot of snapshots) {
+      const forecastARR = getPeriodForecastDeals(snapshot, quarter)
+        .reduce((sum, deal) => sum + deal.amount, 0);
+      console.log(
+        `   #${snapshot.snapshotId} ${snapshot.runAt.toLocaleString('en-US')} ${snapshot.source} ` +
+        `(${snapshot.periodLabel}) - ${formatCurrency(forecastARR)} forecast for the quarter`
+      );
+    }
+    console.log('');
+
+    console.log('🔍 Loading pipeline configuration...');
+    const registry = await loadPipelineRegistry(accessToken);
+    const wonStageIds = getReportStageIds(registry, 'closedWon');
+    const lostStageIds = getReportStageIds(registry, 'closedLost');
+    console.log(`✅ Pipeline: "${registry.pipeline.label}"\n`);
+
+    // Actual closed-won deals: entered a closed-won stage during the quarter,
+    // the same booked revenue as the quarterly forecast
+    console.log('📥 Fetching closed-won deals...');
+    const { results: wonResults } = wonStageIds.length > 0
+      ? await searchDeals(
+          accessToken,
+          new DealQuery()
+            .inPipeline(registry.pipeline.id)
+            .enteredStageBetween(wonStageIds, quarter.startDate, quarter.endDate)
+            .select(getPropertySet('forecast', [registry.pipeline]))
+        )
+      : { results: [] };
+    const wonDeals = wonResults.filter(deal => {
+      const wonDate = getCurrentStageEnteredDate(deal);
+      return wonDate !== null && wonDate >= quarter.startDate && wonDate <= quarter.endDate;
+    });
+    console.log(`✅ Found ${wonDeals.length} closed-won deal(s)\n`);
+
+    // Actuals in the reporting currency, like the snapshots
+    const wonAmounts = wonDeals.map(deal => ({ deal, dealAmount: getDealRevenue(deal.properties, basis) }));
+    const unconverted = wonAmounts.filter(({ dealAmount }) => isUnconverted(dealAmount));
+    if (unconverted.length > 0) {
+      describeUnconvertedDeals(
+        unconverted.map(({ deal, dealAmount }) => toUnconvertedDeal(deal, dealAmount)),
+        'left out of actuals'
+      ).forEach(line => console.warn(line));
+      console.warn('');
+    }
+
+    const actuals: ActualDeal[] = wonAmounts
+      .filter(({ dealAmount }) => !isUnconverted(dealAmount))
+      .map(({ deal, dealAmount }) => ({
+        dealId: deal.id,
+        dealName: deal.properties.dealname || 'Untitled Deal',
+        ownerId: deal.properties.hubspot_owner_id || null,
+        amount: dealAmount.amount ?? 0,
+      }));
+
+    // Weekly snapshots don't store owner names
+    const ownerIds = [
+      ...actuals.map(deal => deal.ownerId),
+      ...snapshots.flatMap(snapshot => snapshot.deals.map(deal => deal.ownerId)),
+    ].filter((id): id is string => !!id);
+    const owners = await fetchOwners(accessToken, ownerIds);
+    const ownerNames = new Map<string, string>();
+    owners.forEach((owner, id) => ownerNames.set(id, `${owner.firstName} ${owner.lastName}`));
+
+    // Reference snapshot for the rep and category breakdowns
+    const reference = options.asOf
+      ? [...snapshots].reverse().find(snapshot => snapshot.runAt <= options.asOf!) || null
+      : snapshots[0] || null;
+    if (options.asOf && !reference) {
+      console.warn(`⚠️  No snapshot on or before ${options.asOf.toLocaleDateString('en-US')} - skipping the rep and category breakdowns\n`);
+    }
+
+    const report = buildForecastAccuracy(snapshots, actuals, quarter, reference, ownerNames);
+    printSection(`🎯 FORECAST ACCURACY - ${quarter.label}`, generateAccuracyText(report));
+
+    // Waterfall between two snapshots, by default the first and last of the
+    // reference snapshot's source so both cover the same deals
+    const waterfallSnapshots = snapshots.filter(snapshot => !reference || snapshot.source === reference.source);
+    let from: ForecastSnapshot | null = waterfallSnapshots[0] || null;
+    let to: ForecastSnapshot | null = waterfallSnapshots[waterfallSnapshots.length - 1] || null;
+    if (options.waterfall) {
+      from = loadForecastSnapshot(store, options.waterfall.from);
+      to = loadForecastSnapshot(store, options.waterfall.to);
+      if (!from || !to) {
+        throw new Error(`Snapshot #${from ? options.waterfall.to : options.waterfall.from} not found`);
+      }
+      if (from.revenueBasis !== to.revenueBasis) {
+        console.warn(
+          `⚠️  Snapshot #${from.snapshotId} is on ${describeRevenueBasis(from.revenueBasis)} and ` +
+          `#${to.snapshotId} on ${describeRevenueBasis(to.revenueBasis)} - the waterfall mixes bases\n`
+        );
+      }
+      if (from.reportingCurrency !== to.reportingCurrency) {
+        console.warn(
+          `⚠️  Snapshot #${from.snapshotId} is in ${from.reportingCurrency} and ` +
+          `#${to.snapshotId} in ${to.reportingCurrency} - the waterfall mixes currencies\n`
+        );
+      }
+      if (from.source !== to.source) {
+        console.warn(
+          `⚠️  Snapshot #${from.snapshotId} is a ${from.source} snapshot and #${to.snapshotId} a ${to.source} one - ` +
+          'they cover different stages, so deals will show as added or removed that never moved\n'
+        );
+      }
+    }
+
+    if (from && to && from.snapshotId !== to.snapshotId) {
+      const [earlier, later] = from.runAt <= to.runAt ? [from, to] : [to, from];
+      const toIds = new Set(getPeriodForecastDeals(later, quarter).map(deal => deal.dealId));
+      const droppedIds = getPeriodForecastDeals(earlier, quarter)
+        .map(deal => deal.dealId)
+        .filter(id => !toIds.has(id));
+
+      console.log('🔎 Checking deals that left the forecast...\n');
+      const outcomes = await fetchDealOutcomes(accessToken, droppedIds, wonStageIds, lostStageIds);
+      const waterfall = buildForecastWaterfall(earlier, later, quarter, outcomes, ownerNames);
+      printSection('🌊 FORECAST WATERFALL', generateWaterfallText(waterfall));
+    }
+
+    console.log('✨ Done!\n');
+  } catch (error) {
+    console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main();
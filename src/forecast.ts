@@ -1,50 +1,133 @@
 /**
  * Quarterly Sales Forecast Generator
  *
- * Analyzes deals in Proposal stage with close dates in current quarter
- * to generate revenue forecasts based on ARR (Amount field).
+ * Analyzes deals in the forecast stages (Proposal by default, see
+ * config/pipeline.json) with close dates in the forecast quarter
+ * to generate revenue forecasts based on ARR (the Amount field, or another
+ * revenue basis, see lib/revenue-basis.ts).
+ *
+ * Quarters follow the fiscal calendar (see lib/fiscal-calendar.ts). Deals are
+ * also broken down by forecast category (see lib/forecast-categories.ts).
+ * Each run is saved as a forecast snapshot for forecast-accuracy. With
+ * --monte-carlo the forecast is also simulated from historical win rates,
+ * slips and amount haircuts to give P10/P50/P90 ranges (see
+ * lib/monte-carlo-forecast.ts). When quotas are set for the quarter (see
+ * lib/quotas.ts) the report also shows attainment, gap and pipeline coverage.
+ * Amounts are in the reporting currency (see lib/currency.ts); deals that
+ * can't be converted are left out and listed.
+ *
+ * Usage:
+ *   npm run forecast                                       # Current fiscal quarter
+ *   npm run forecast -- --next                             # Next fiscal quarter
+ *   npm run forecast -- --quarter Q3                       # Q3 of the current fiscal year
+ *   npm run forecast -- --quarter FY2027-Q1
+ *   npm run forecast -- --range 2026-02-01..2026-07-31     # Custom date range
+ *   npm run forecast -- --monte-carlo                      # Add P10/P50/P90 ranges
  */
 
 import 'dotenv/config';
-import { searchDealsByStages, fetchOwners, fetchPipelines, findStageIdsByLabels } from './hubspot.js';
+import { searchDeals, fetchOwners, getCurrentStageEnteredDate } from './hubspot.js';
+import {
+  loadPipelineRegistry,
+  getReportStageIds,
+  getStage,
+  type PipelineRegistry,
+} from './lib/pipeline-registry.js';
+import { DealQuery } from './lib/deal-query.js';
+import { getPropertySet } from './lib/property-sets.js';
+import { fetchDealTimelines } from './lib/deal-history.js';
+import { buildSlippageReport, type SlippageReport } from './lib/close-date-slippage.js';
+import {
+  loadFiscalCalendar,
+  getFiscalQuarter,
+  getFiscalQuarterForDate,
+  getNextFiscalQuarter,
+  getFiscalRange,
+  parseQuarterArg,
+} from './lib/fiscal-calendar.js';
+import {
+  resolveForecastCategory,
+  buildForecastCategoryReport,
+  FORECAST_CATEGORY_LABELS,
+} from './lib/forecast-categories.js';
+import { openHistoryStore, saveHistoryStore } from './lib/history-store.js';
+import { saveForecastSnapshot } from './lib/forecast-history.js';
+import { getCalibrationSettings, getLookbackStart, calibrateStageWeights } from './lib/stage-weights.js';
+import { loadOwnerDirectory } from './lib/owner-directory.js';
+import { getRevenueBasis, getDealRevenue, describeRevenueBasis } from './lib/revenue-basis.js';
+import {
+  getCurrencySettings,
+  convertWithRates,
+  isUnconverted,
+  toUnconvertedDeal,
+  formatCurrency,
+  describeUnconvertedDeals,
+  type UnconvertedDeal,
+} from './lib/currency.js';
+import { loadQuotas, buildQuotaReport, generateQuotaText, type QuotaReport } from './lib/quotas.js';
+import {
+  getSimulationSettings,
+  buildSimulationModel,
+  runMonteCarloForecast,
+  generateMonteCarloText,
+  type MonteCarloForecast,
+} from './lib/monte-carlo-forecast.js';
 import { generateText } from 'ai';
 import { openai } from '@ai-sdk/openai';
 import type {
   QuarterInfo,
   ForecastDeal,
+  ClosedDeal,
   MonthlyForecast,
   OwnerForecast,
   ForecastSummary
 } from './types.js';
 
-// Target stage for forecasting
-const TARGET_STAGE = 'proposal';
-
 /**
- * Get current quarter information
+ * Resolves the forecast period from the command-line options:
+ *   --quarter Q3 | Q3-2027 | FY2027-Q3   a fiscal quarter (current fiscal year if no year)
+ *   --next                               the quarter after the current one (or after --quarter)
+ *   --range 2026-02-01..2026-07-31       a custom date range
+ * Without options the current fiscal quarter is used.
  */
-function getCurrentQuarter(): QuarterInfo {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = now.getMonth(); // 0-11
+function resolveForecastPeriod(args: string[]): QuarterInfo {
+  const calendar = loadFiscalCalendar();
+  const valueOf = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index === -1 ? null : args[index + 1] || '';
+  };
 
-  // Determine quarter (1-4) based on month
-  const quarter = Math.floor(month / 3) + 1;
+  const rangeArg = valueOf('--range');
+  if (rangeArg !== null) {
+    const match = rangeArg.match(/^(\d{4})-(\d{2})-(\d{2})\.\.(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) {
+      throw new Error('--range must look like 2026-02-01..2026-07-31');
+    }
+    const [, y1, m1, d1, y2, m2, d2] = match.map(Number);
+    const start = new Date(y1, m1 - 1, d1);
+    const end = new Date(y2, m2 - 1, d2);
+    if (start > end) {
+      throw new Error('--range start must be before its end');
+    }
+    return getFiscalRange(calendar, start, end);
+  }
 
-  // Calculate quarter start and end dates
-  const quarterStartMonth = (quarter - 1) * 3;
-  const startDate = new Date(year, quarterStartMonth, 1);
+  let quarter = getFiscalQuarterForDate(calendar);
 
-  const quarterEndMonth = quarter * 3;
-  const endDate = new Date(year, quarterEndMonth, 0, 23, 59, 59, 999); // Last day of quarter
+  const quarterArg = valueOf('--quarter');
+  if (quarterArg !== null) {
+    const parsed = parseQuarterArg(quarterArg);
+    if (!parsed) {
+      throw new Error('--quarter must look like Q3, Q3-2027 or FY2027-Q3');
+    }
+    quarter = getFiscalQuarter(calendar, parsed.fiscalYear ?? quarter.year, parsed.quarter);
+  }
 
-  return {
-    year,
-    quarter,
-    startDate,
-    endDate,
-    label: `Q${quarter} ${year}`
-  };
+  if (args.includes('--next')) {
+    quarter = getNextFiscalQuarter(calendar, quarter);
+  }
+
+  return quarter;
 }
 
 /**
@@ -54,18 +137,6 @@ function isInQuarter(date: Date, quarter: QuarterInfo): boolean {
   return date >= quarter.startDate && date <= quarter.endDate;
 }
 
-/**
- * Format currency value
- */
-function formatCurrency(amount: number): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0
-  }).format(amount);
-}
-
 /**
  * Format date for display
  */
@@ -78,23 +149,19 @@ function formatDate(date: Date): string {
 }
 
 /**
- * Get month name from month number (1-12)
- */
-function getMonthName(monthNumber: number, year: number): string {
-  const date = new Date(year, monthNumber - 1, 1);
-  return date.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
-}
-
-/**
- * Process deals and filter to current quarter
+ * Process deals and filter to the forecast period
  */
 function processForecastDeals(
   deals: any[],
   owners: Map<string, string>,
-  quarter: QuarterInfo
-): { forecastDeals: ForecastDeal[], skippedCount: number } {
+  quarter: QuarterInfo,
+  registry: PipelineRegistry
+): { forecastDeals: ForecastDeal[], skippedCount: number, unconvertedDeals: UnconvertedDeal[] } {
   const forecastDeals: ForecastDeal[] = [];
+  const unconvertedDeals: UnconvertedDeal[] = [];
   let skippedCount = 0;
+  const currency = getCurrencySettings();
+  const basis = getRevenueBasis();
 
   for (const deal of deals) {
     const properties = deal.properties;
@@ -109,17 +176,33 @@ function processForecastDeals(
     // Parse close date
     const closeDate = new Date(closeDateStr);
 
-    // Skip if not in current quarter
+    // Skip if outside the forecast period
     if (!isInQuarter(closeDate, quarter)) {
       continue;
     }
 
-    // Skip if missing amount
-    const amount = parseFloat(properties.amount);
-    if (isNaN(amount) || amount === null || amount === undefined) {
+    // Skip if missing revenue, or if it can't be converted to the reporting currency
+    const dealAmount = getDealRevenue(properties, basis, currency);
+    if (isUnconverted(dealAmount)) {
+      unconvertedDeals.push(toUnconvertedDeal(deal, dealAmount));
+      continue;
+    }
+    if (dealAmount.amount === null) {
       skippedCount++;
       continue;
     }
+    const amount = dealAmount.amount;
+
+    // Rep-set forecast category, falling back to the stage mapping
+    const { category, source } = resolveForecastCategory(
+      properties.hs_manual_forecast_category,
+      getStage(registry, properties.dealstage)
+    );
+    // hs_forecast_amount is in the portal's home currency
+    const hubspotForecastAmount = parseFloat(properties.hs_forecast_amount);
+    const convertedForecastAmount = isNaN(hubspotForecastAmount)
+      ? null
+      : convertWithRates(hubspotForecastAmount, currency.homeCurrency, currency.reportingCurrency, currency.rates);
 
     // Create forecast deal
     forecastDeals.push({
@@ -133,11 +216,55 @@ function processForecastDeals(
         : 'Unassigned',
       amount,
       closeDate,
-      closeDateString: formatDate(closeDate)
+      closeDateString: formatDate(closeDate),
+      forecastCategory: category,
+      forecastCategorySource: source,
+      hubspotForecastAmount: convertedForecastAmount
+    });
+  }
+
+  return { forecastDeals, skippedCount, unconvertedDeals };
+}
+
+/**
+ * Process closed won / closed lost deals that entered their closed stage in the forecast period
+ */
+function processClosedDeals(
+  deals: any[],
+  owners: Map<string, string>,
+  quarter: QuarterInfo
+): { closedDeals: ClosedDeal[], unconvertedDeals: UnconvertedDeal[] } {
+  const closedDeals: ClosedDeal[] = [];
+  const unconvertedDeals: UnconvertedDeal[] = [];
+  const currency = getCurrencySettings();
+  const basis = getRevenueBasis();
+
+  for (const deal of deals) {
+    const properties = deal.properties;
+    const closedDate = getCurrentStageEnteredDate(deal);
+    if (!closedDate || !isInQuarter(closedDate, quarter)) continue;
+
+    const dealAmount = getDealRevenue(properties, basis, currency);
+    if (isUnconverted(dealAmount)) {
+      unconvertedDeals.push(toUnconvertedDeal(deal, dealAmount));
+      continue;
+    }
+
+    closedDeals.push({
+      dealId: deal.id,
+      dealName: properties.dealname || 'Untitled Deal',
+      dealOwner: properties.hubspot_owner_id || null,
+      dealOwnerName: properties.hubspot_owner_id
+        ? owners.get(properties.hubspot_owner_id) || 'Unknown Owner'
+        : 'Unassigned',
+      amount: dealAmount.amount ?? 0,
+      closedDate,
+      closedDateString: formatDate(closedDate),
+      lostReason: properties.closed_lost_reason?.trim() || null
     });
   }
 
-  return { forecastDeals, skippedCount };
+  return { closedDeals, unconvertedDeals };
 }
 
 /**
@@ -145,80 +272,282 @@ function processForecastDeals(
  */
 function createForecastSummary(
   forecastDeals: ForecastDeal[],
+  closedWonDeals: ClosedDeal[],
+  closedLostDeals: ClosedDeal[],
   quarter: QuarterInfo,
-  skippedCount: number
+  skippedCount: number,
+  unconvertedDeals: UnconvertedDeal[],
+  slippage: SlippageReport | null,
+  monteCarlo: MonteCarloForecast | null,
+  quotas: QuotaReport | null
 ): ForecastSummary {
+  const sumARR = (deals: Array<{ amount: number }>) => deals.reduce((sum, deal) => sum + deal.amount, 0);
+
   // Calculate totals
-  const totalARR = forecastDeals.reduce((sum, deal) => sum + deal.amount, 0);
+  const totalARR = sumARR(forecastDeals);
   const totalDeals = forecastDeals.length;
   const averageDealSize = totalDeals > 0 ? totalARR / totalDeals : 0;
+  const bookedARR = sumARR(closedWonDeals);
 
-  // Group by month
-  const monthlyMap = new Map<number, ForecastDeal[]>();
-  for (const deal of forecastDeals) {
-    const month = deal.closeDate.getMonth() + 1; // 1-12
-    if (!monthlyMap.has(month)) {
-      monthlyMap.set(month, []);
-    }
-    monthlyMap.get(month)!.push(deal);
-  }
-
-  // Create monthly breakdown
-  const monthlyBreakdown: MonthlyForecast[] = [];
-  const quarterStartMonth = quarter.startDate.getMonth() + 1;
-  const quarterEndMonth = quarter.endDate.getMonth() + 1;
-
-  for (let month = quarterStartMonth; month <= quarterEndMonth; month++) {
-    const deals = monthlyMap.get(month) || [];
-    const monthARR = deals.reduce((sum, deal) => sum + deal.amount, 0);
+  // Create monthly breakdown (fiscal months / periods)
+  const monthlyBreakdown: MonthlyForecast[] = quarter.periods.map((period, index) => {
+    const deals = forecastDeals.filter(deal =>
+      deal.closeDate >= period.startDate && deal.closeDate <= period.endDate
+    );
+    const bookedDeals = closedWonDeals.filter(deal =>
+      deal.closedDate >= period.startDate && deal.closedDate <= period.endDate
+    );
 
-    monthlyBreakdown.push({
-      month: getMonthName(month, quarter.year),
-      monthNumber: month,
-      totalARR: monthARR,
+    return {
+      month: period.label,
+      monthNumber: index + 1,
+      totalARR: sumARR(deals),
       dealCount: deals.length,
-      deals
-    });
-  }
-
-  // Group by owner
-  const ownerMap = new Map<string, ForecastDeal[]>();
-  for (const deal of forecastDeals) {
-    const ownerId = deal.dealOwner || 'unassigned';
-    if (!ownerMap.has(ownerId)) {
-      ownerMap.set(ownerId, []);
+      deals,
+      bookedARR: sumARR(bookedDeals),
+      bookedDeals,
+      projectedARR: sumARR(bookedDeals) + sumARR(deals)
+    };
+  });
+
+  // Group by owner (reps with only closed won deals are included)
+  const ownerMap = new Map<string, { deals: ForecastDeal[]; bookedDeals: ClosedDeal[]; ownerName: string | null }>();
+  const groupFor = (ownerId: string | null, ownerName: string | null) => {
+    const key = ownerId || 'unassigned';
+    if (!ownerMap.has(key)) {
+      ownerMap.set(key, { deals: [], bookedDeals: [], ownerName });
     }
-    ownerMap.get(ownerId)!.push(deal);
+    return ownerMap.get(key)!;
+  };
+  for (const deal of forecastDeals) {
+    groupFor(deal.dealOwner, deal.dealOwnerName).deals.push(deal);
+  }
+  for (const deal of closedWonDeals) {
+    groupFor(deal.dealOwner, deal.dealOwnerName).bookedDeals.push(deal);
   }
 
   // Create owner breakdown
   const ownerBreakdown: OwnerForecast[] = [];
-  for (const [ownerId, deals] of ownerMap.entries()) {
-    const ownerARR = deals.reduce((sum, deal) => sum + deal.amount, 0);
+  for (const [ownerId, group] of ownerMap.entries()) {
     ownerBreakdown.push({
       ownerId: ownerId === 'unassigned' ? null : ownerId,
-      ownerName: deals[0]?.dealOwnerName || 'Unassigned',
-      totalARR: ownerARR,
-      dealCount: deals.length,
-      deals
+      ownerName: group.ownerName || 'Unassigned',
+      totalARR: sumARR(group.deals),
+      dealCount: group.deals.length,
+      deals: group.deals,
+      bookedARR: sumARR(group.bookedDeals),
+      bookedDeals: group.bookedDeals,
+      projectedARR: sumARR(group.bookedDeals) + sumARR(group.deals)
     });
   }
 
-  // Sort by ARR descending
-  ownerBreakdown.sort((a, b) => b.totalARR - a.totalARR);
+  // Sort by projected ARR descending
+  ownerBreakdown.sort((a, b) => b.projectedARR - a.projectedARR);
+
+  // Closed lost ARR grouped by loss reason
+  const reasonMap = new Map<string, ClosedDeal[]>();
+  for (const deal of closedLostDeals) {
+    const reason = deal.lostReason || 'No reason given';
+    reasonMap.set(reason, [...(reasonMap.get(reason) || []), deal]);
+  }
+  const byReason = Array.from(reasonMap.entries())
+    .map(([reason, deals]) => ({ reason, totalARR: sumARR(deals), dealCount: deals.length }))
+    .sort((a, b) => b.totalARR - a.totalARR);
 
   return {
     quarter,
+    revenueBasis: getRevenueBasis(),
     totalARR,
     totalDeals,
     averageDealSize,
+    bookedARR,
+    projectedARR: bookedARR + totalARR,
+    closedWonDeals,
+    closedLost: {
+      totalARR: sumARR(closedLostDeals),
+      dealCount: closedLostDeals.length,
+      byReason,
+      deals: closedLostDeals
+    },
     monthlyBreakdown,
     ownerBreakdown,
     allDeals: forecastDeals,
-    skippedDealsCount: skippedCount
+    skippedDealsCount: skippedCount,
+    unconvertedDeals,
+    slippage,
+    categories: buildForecastCategoryReport(forecastDeals, quarter.periods),
+    monteCarlo,
+    quotas
   };
 }
 
+/**
+ * Simulates the forecast from historical outcomes: stage win rates and the
+ * slips and amount changes of deals won in the calibration window.
+ * Omitted deals are left out. A failure is reported but doesn't stop the report.
+ */
+async function buildMonteCarloForecast(
+  accessToken: string,
+  registry: PipelineRegistry,
+  forecastDeals: ForecastDeal[],
+  quarter: QuarterInfo
+): Promise<MonteCarloForecast | null> {
+  try {
+    const calibrationSettings = { ...getCalibrationSettings(), source: 'historical' as const };
+    const wonStageIds = getReportStageIds(registry, 'closedWon');
+    const closedStageIds = [...wonStageIds, ...getReportStageIds(registry, 'closedLost')];
+
+    const { results: closedDeals } = closedStageIds.length > 0
+      ? await searchDeals(
+          accessToken,
+          new DealQuery()
+            .inPipeline(registry.pipeline.id)
+            .inStages(closedStageIds)
+            .closeDateOnOrAfter(getLookbackStart(calibrationSettings))
+            .select(getPropertySet('forecast', [registry.pipeline]))
+        )
+      : { results: [] };
+    console.log(`✅ Found ${closedDeals.length} closed deal(s) from the last ${calibrationSettings.lookbackDays} days\n`);
+
+    const stageWeights = calibrateStageWeights(registry.reports.forecast, closedDeals, registry, calibrationSettings);
+    const wonDeals = closedDeals.filter(deal => wonStageIds.includes(deal.properties.dealstage));
+    const timelines = await fetchDealTimelines(accessToken, wonDeals.map(deal => deal.id));
+    const model = buildSimulationModel(stageWeights, wonDeals, timelines);
+
+    return runMonteCarloForecast(
+      forecastDeals
+        .filter(deal => deal.forecastCategory !== 'omit')
+        .map(deal => ({
+          dealId: deal.dealId,
+          stageId: deal.dealStage,
+          ownerName: deal.dealOwnerName || 'Unassigned',
+          amount: deal.amount,
+          closeDate: deal.closeDate,
+        })),
+      quarter.periods,
+      model,
+      getSimulationSettings()
+    );
+  } catch (error: any) {
+    console.warn(`⚠️  Could not run the Monte Carlo forecast: ${error.message}\n`);
+    return null;
+  }
+}
+
+/**
+ * Compares closed-won ARR and the open pipeline closing in the quarter with
+ * each rep's and team's quota. Open deals are weighted with the weekly
+ * forecast's stage weights. A failure is reported but doesn't stop the report.
+ */
+async function buildQuotaAttainment(
+  accessToken: string,
+  registry: PipelineRegistry,
+  quarter: QuarterInfo,
+  closedWonDeals: ClosedDeal[]
+): Promise<QuotaReport | null> {
+  try {
+    const directory = await loadOwnerDirectory(accessToken);
+    const quotas = await loadQuotas(accessToken, quarter, directory);
+    if (!quotas) {
+      console.log(`ℹ️  No quotas set for ${quarter.label}\n`);
+      return null;
+    }
+
+    const properties = getPropertySet('forecast', [registry.pipeline]);
+    const closedStageIds = [
+      ...getReportStageIds(registry, 'closedWon'),
+      ...getReportStageIds(registry, 'closedLost')
+    ];
+    const { results: openDeals } = await searchDeals(
+      accessToken,
+      new DealQuery()
+        .inPipeline(registry.pipeline.id)
+        .inStages(getReportStageIds(registry, 'weeklyForecast'))
+        .closeDateBetween(quarter.startDate, quarter.endDate)
+        .select(properties)
+    );
+    console.log(`✅ Found ${openDeals.length} open deal(s) closing in ${quarter.label}\n`);
+
+    const openAmounts = new Map(openDeals.map(deal => [deal.id, getDealRevenue(deal.properties)]));
+    const unconvertedOpenDeals = openDeals
+      .filter(deal => isUnconverted(openAmounts.get(deal.id)!))
+      .map(deal => toUnconvertedDeal(deal, openAmounts.get(deal.id)!));
+    if (unconvertedOpenDeals.length > 0) {
+      describeUnconvertedDeals(unconvertedOpenDeals, 'left out of pipeline coverage').forEach(line => console.warn(line));
+      console.warn('');
+    }
+
+    // Historical weights need the calibration window's closed deals
+    const calibrationSettings = getCalibrationSettings();
+    const { results: calibrationDeals } = calibrationSettings.source === 'historical' && closedStageIds.length > 0
+      ? await searchDeals(
+          accessToken,
+          new DealQuery()
+            .inPipeline(registry.pipeline.id)
+            .inStages(closedStageIds)
+            .closeDateOnOrAfter(getLookbackStart(calibrationSettings))
+            .select(properties)
+        )
+      : { results: [] };
+    const stageWeights = calibrateStageWeights(
+      registry.reports.weeklyForecast,
+      calibrationDeals,
+      registry,
+      calibrationSettings
+    );
+
+    return buildQuotaReport(
+      quotas,
+      directory,
+      closedWonDeals.map(deal => ({ ownerId: deal.dealOwner, amount: deal.amount, weight: 1 })),
+      openDeals.map(deal => ({
+        ownerId: deal.properties.hubspot_owner_id || null,
+        amount: openAmounts.get(deal.id)!.amount ?? 0,
+        weight: stageWeights.stages.find(stage => stage.stageId === deal.properties.dealstage)?.weight ?? 0,
+      }))
+    );
+  } catch (error: any) {
+    console.warn(`⚠️  Could not build quota attainment: ${error.message}\n`);
+    return null;
+  }
+}
+
+/**
+ * Saves the run as a forecast snapshot for forecast-accuracy.
+ * History is best-effort: a store failure is reported but doesn't stop the report.
+ */
+async function recordForecastSnapshot(summary: ForecastSummary): Promise<void> {
+  try {
+    const store = await openHistoryStore();
+    saveForecastSnapshot(store, {
+      runAt: new Date(),
+      source: 'quarterly',
+      revenueBasis: summary.revenueBasis,
+      reportingCurrency: getCurrencySettings().reportingCurrency,
+      periodLabel: summary.quarter.label,
+      periodStart: summary.quarter.startDate,
+      periodEnd: summary.quarter.endDate,
+      totalARR: summary.totalARR,
+      weightedARR: null,
+      deals: summary.allDeals.map(deal => ({
+        dealId: deal.dealId,
+        dealName: deal.dealName,
+        stageId: deal.dealStage,
+        stageName: deal.dealStageName,
+        ownerId: deal.dealOwner,
+        ownerName: deal.dealOwnerName,
+        amount: deal.amount,
+        closeDate: deal.closeDate,
+        forecastCategory: deal.forecastCategory,
+        weight: null,
+      })),
+    });
+    await saveHistoryStore(store);
+  } catch (error: any) {
+    console.warn(`⚠️  Could not save forecast snapshot: ${error.message}\n`);
+  }
+}
+
 /**
  * Display forecast report to console
  */
@@ -231,12 +560,16 @@ function displayForecastReport(summary: ForecastSummary): void {
 
   // Executive Summary
   console.log(`📊 Quarter: ${summary.quarter.label} (${formatDate(summary.quarter.startDate)} - ${formatDate(summary.quarter.endDate)})`);
+  console.log(`💵 Revenue basis: ${describeRevenueBasis(summary.revenueBasis)}, in ${getCurrencySettings().reportingCurrency}`);
+  console.log(`✅ Booked ARR (Closed Won): ${formatCurrency(summary.bookedARR)} (${summary.closedWonDeals.length} deals)`);
   console.log(`💰 Total Forecasted ARR: ${formatCurrency(summary.totalARR)}`);
+  console.log(`🎯 Projected ARR (booked + forecast): ${formatCurrency(summary.projectedARR)}`);
   console.log(`📈 Total Deals in Pipeline: ${summary.totalDeals}`);
   console.log(`📐 Average Deal Size: ${formatCurrency(summary.averageDealSize)}`);
   if (summary.skippedDealsCount > 0) {
-    console.log(`⚠️  Skipped Deals (missing close date or amount): ${summary.skippedDealsCount}`);
+    console.log(`⚠️  Skipped Deals (missing close date or ${describeRevenueBasis(summary.revenueBasis)}): ${summary.skippedDealsCount}`);
   }
+  describeUnconvertedDeals(summary.unconvertedDeals).forEach(line => console.log(line));
   console.log('');
 
   // Monthly Breakdown
@@ -251,8 +584,10 @@ function displayForecastReport(summary: ForecastSummary): void {
       : '0.0';
 
     console.log(`${monthly.month}`);
+    console.log(`   Booked: ${formatCurrency(monthly.bookedARR)} (${monthly.bookedDeals.length} deals)`);
     console.log(`   ARR: ${formatCurrency(monthly.totalARR)} (${percentage}% of quarter)`);
     console.log(`   Deals: ${monthly.dealCount}`);
+    console.log(`   Projected: ${formatCurrency(monthly.projectedARR)}`);
 
     if (monthly.deals.length > 0) {
       // Show top 3 deals for this month
@@ -280,9 +615,16 @@ function displayForecastReport(summary: ForecastSummary): void {
       : '0.0';
 
     console.log(`${owner.ownerName}`);
+    console.log(`   Booked ARR: ${formatCurrency(owner.bookedARR)} (${owner.bookedDeals.length} deals)`);
     console.log(`   Forecasted ARR: ${formatCurrency(owner.totalARR)} (${percentage}% of quarter)`);
+    console.log(`   Projected ARR: ${formatCurrency(owner.projectedARR)}`);
     console.log(`   Deal Count: ${owner.dealCount}`);
-    console.log(`   Avg Deal Size: ${formatCurrency(owner.totalARR / owner.dealCount)}`);
+    if (owner.dealCount > 0) {
+      console.log(`   Avg Deal Size: ${formatCurrency(owner.totalARR / owner.dealCount)}`);
+    }
+    for (const deal of owner.bookedDeals) {
+      console.log(`      ✓ ${deal.dealName} - ${formatCurrency(deal.amount)} - Won ${deal.closedDateString}`);
+    }
     console.log('   Deals:');
 
     // Sort deals by close date
@@ -296,26 +638,145 @@ function displayForecastReport(summary: ForecastSummary): void {
     console.log('');
   }
 
+  // Closed lost, for context
+  if (summary.closedLost.dealCount > 0) {
+    const { closedLost } = summary;
+
+    console.log('━'.repeat(100));
+    console.log('❌ CLOSED LOST THIS QUARTER');
+    console.log('━'.repeat(100));
+    console.log('');
+    console.log(`   Lost ARR: ${formatCurrency(closedLost.totalARR)} (${closedLost.dealCount} deals)`);
+    console.log('   By loss reason:');
+    for (const reason of closedLost.byReason) {
+      console.log(`      • ${reason.reason}: ${formatCurrency(reason.totalARR)} (${reason.dealCount} deals)`);
+    }
+    console.log('');
+  }
+
+  // Quota attainment and pipeline coverage
+  if (summary.quotas) {
+    console.log('━'.repeat(100));
+    console.log('🎯 QUOTA ATTAINMENT & PIPELINE COVERAGE');
+    console.log('━'.repeat(100));
+    console.log('');
+    generateQuotaText(summary.quotas).forEach(line => console.log(`   ${line}`));
+    console.log('');
+  }
+
+  // Forecast categories with rollups by rep and month
+  const { categories } = summary;
+
+  console.log('━'.repeat(100));
+  console.log('🗂️  FORECAST BY CATEGORY');
+  console.log('━'.repeat(100));
+  console.log('');
+  console.log(`   Commit:     ${formatCurrency(categories.commitARR)}`);
+  console.log(`   Best Case:  ${formatCurrency(categories.bestCaseARR)} (Commit + Best Case)`);
+  console.log(`   Pipeline:   ${formatCurrency(categories.pipelineARR)} (all except Omitted)`);
+  console.log(`   Omitted:    ${formatCurrency(categories.omittedARR)}`);
+  if (categories.stageFallbackCount + categories.defaultCount > 0) {
+    console.log(`   ℹ️  ${categories.stageFallbackCount} deal(s) categorised from their stage, ${categories.defaultCount} defaulted to Pipeline (no category set by the rep)`);
+  }
+  console.log('');
+
+  for (const category of categories.categories) {
+    if (category.dealCount === 0) continue;
+
+    console.log(`${category.label}: ${formatCurrency(category.totalARR)} (${category.dealCount} deals, ${category.repSetCount} set by rep)`);
+    console.log(`   HubSpot forecast amount: ${formatCurrency(category.hubspotForecastAmount)}`);
+    console.log('   By rep:');
+    for (const owner of category.byOwner) {
+      console.log(`      • ${owner.name}: ${formatCurrency(owner.totalARR)} (${owner.dealCount} deals)`);
+    }
+    console.log('   By month:');
+    for (const month of category.byMonth) {
+      console.log(`      • ${month.name}: ${formatCurrency(month.totalARR)} (${month.dealCount} deals)`);
+    }
+    console.log('');
+  }
+
+  // Probabilistic forecast ranges
+  if (summary.monteCarlo) {
+    console.log('━'.repeat(100));
+    console.log('🎲 PROBABILISTIC FORECAST (MONTE CARLO)');
+    console.log('━'.repeat(100));
+    console.log('');
+    generateMonteCarloText(summary.monteCarlo).forEach(line => console.log(`   ${line}`));
+    console.log('');
+  }
+
+  // Forecast risk: deals whose close date keeps moving
+  if (summary.slippage) {
+    const { slippage } = summary;
+
+    console.log('━'.repeat(100));
+    console.log('⚠️  FORECAST RISK - CLOSE-DATE SLIPPAGE');
+    console.log('━'.repeat(100));
+    console.log('');
+    console.log(`   Deals pushed at least once: ${slippage.slippedDeals.length} of ${slippage.dealsAnalyzed}`);
+    console.log(`   Chronic slippers (${slippage.thresholds.pushes}+ pushes or ${slippage.thresholds.days}+ days): ${slippage.chronicSlippers.length}`);
+    console.log(`   ARR on chronic slippers: ${formatCurrency(slippage.chronicSlipperAmount)}`);
+    console.log(`   Forecast excluding chronic slippers: ${formatCurrency(summary.totalARR - slippage.chronicSlipperAmount)}`);
+    console.log('');
+
+    for (const deal of slippage.slippedDeals) {
+      const marker = deal.isChronicSlipper ? '🐌' : '•';
+      console.log(`   ${marker} ${deal.dealName} - ${formatCurrency(deal.amount ?? 0)} (${deal.ownerName}) - pushed ${deal.pushCount} time(s), ${deal.totalDaysSlipped} days`);
+    }
+    console.log('');
+  }
+
   console.log('━'.repeat(100));
 }
 
+/**
+ * Formats one quota line for the email data
+ */
+function formatAttainment(line: QuotaReport['total']) {
+  const ratio = (value: number | null) => value === null ? null : `${value.toFixed(1)}x`;
+  return {
+    name: line.name,
+    quota: line.quota === null ? null : formatCurrency(line.quota),
+    closedWon: formatCurrency(line.closedWonARR),
+    attainment: line.attainment === null ? null : `${Math.round(line.attainment * 100)}%`,
+    gap: line.gap === null ? null : formatCurrency(line.gap),
+    openPipeline: formatCurrency(line.openPipelineARR),
+    coverage: line.gap === 0 ? 'quota met' : ratio(line.coverage),
+    weightedCoverage: line.gap === 0 ? 'quota met' : ratio(line.weightedCoverage)
+  };
+}
+
 /**
  * Generate AI-powered email report
+ *
+ * @param stageNames - Forecast stages, e.g. "SQL, Demo Completed, Proposal"
  */
-async function generateForecastEmail(summary: ForecastSummary): Promise<string> {
+async function generateForecastEmail(summary: ForecastSummary, stageNames: string): Promise<string> {
   console.log('\n📧 Generating AI-powered email report...\n');
 
   // Prepare data for AI
   const data = {
     quarter: summary.quarter.label,
     quarterDates: `${formatDate(summary.quarter.startDate)} - ${formatDate(summary.quarter.endDate)}`,
+    reportingCurrency: getCurrencySettings().reportingCurrency,
+    revenueBasis: describeRevenueBasis(summary.revenueBasis),
+    bookedARR: formatCurrency(summary.bookedARR),
+    bookedDeals: summary.closedWonDeals.length,
     totalARR: formatCurrency(summary.totalARR),
+    projectedARR: formatCurrency(summary.projectedARR),
     totalDeals: summary.totalDeals,
     averageDealSize: formatCurrency(summary.averageDealSize),
     skippedDeals: summary.skippedDealsCount,
+    unconvertedDeals: summary.unconvertedDeals.map(d => ({
+      name: d.dealName,
+      amount: formatCurrency(d.originalAmount, d.currency)
+    })),
     monthlyBreakdown: summary.monthlyBreakdown.map(m => ({
       month: m.month,
+      booked: formatCurrency(m.bookedARR),
       arr: formatCurrency(m.totalARR),
+      projected: formatCurrency(m.projectedARR),
       dealCount: m.dealCount,
       percentage: summary.totalARR > 0
         ? ((m.totalARR / summary.totalARR) * 100).toFixed(1) + '%'
@@ -332,7 +793,9 @@ async function generateForecastEmail(summary: ForecastSummary): Promise<string>
     })),
     ownerBreakdown: summary.ownerBreakdown.map(o => ({
       owner: o.ownerName,
+      booked: formatCurrency(o.bookedARR),
       arr: formatCurrency(o.totalARR),
+      projected: formatCurrency(o.projectedARR),
       dealCount: o.dealCount,
       percentage: summary.totalARR > 0
         ? ((o.totalARR / summary.totalARR) * 100).toFixed(1) + '%'
@@ -340,9 +803,65 @@ async function generateForecastEmail(summary: ForecastSummary): Promise<string>
       deals: o.deals.map(d => ({
         name: d.dealName,
         arr: formatCurrency(d.amount),
-        closeDate: d.closeDateString
+        closeDate: d.closeDateString,
+        category: FORECAST_CATEGORY_LABELS[d.forecastCategory]
+      }))
+    })),
+    closedLost: summary.closedLost.dealCount > 0 ? {
+      arr: formatCurrency(summary.closedLost.totalARR),
+      dealCount: summary.closedLost.dealCount,
+      byReason: summary.closedLost.byReason.map(r => ({
+        reason: r.reason,
+        arr: formatCurrency(r.totalARR),
+        dealCount: r.dealCount
+      }))
+    } : null,
+    quotaAttainment: summary.quotas ? {
+      total: formatAttainment(summary.quotas.total),
+      teams: summary.quotas.teams.map(formatAttainment),
+      reps: summary.quotas.reps.map(formatAttainment)
+    } : null,
+    forecastCategories: {
+      commit: formatCurrency(summary.categories.commitARR),
+      bestCase: formatCurrency(summary.categories.bestCaseARR),
+      pipeline: formatCurrency(summary.categories.pipelineARR),
+      omitted: formatCurrency(summary.categories.omittedARR),
+      categories: summary.categories.categories
+        .filter(c => c.dealCount > 0)
+        .map(c => ({
+          category: c.label,
+          arr: formatCurrency(c.totalARR),
+          dealCount: c.dealCount,
+          byRep: c.byOwner.map(o => ({ rep: o.name, arr: formatCurrency(o.totalARR), dealCount: o.dealCount })),
+          byMonth: c.byMonth.map(m => ({ month: m.name, arr: formatCurrency(m.totalARR), dealCount: m.dealCount }))
+        }))
+    },
+    forecastRange: summary.monteCarlo ? {
+      runs: summary.monteCarlo.settings.runs,
+      quarter: {
+        p10: formatCurrency(summary.monteCarlo.quarter.p10),
+        p50: formatCurrency(summary.monteCarlo.quarter.p50),
+        p90: formatCurrency(summary.monteCarlo.quarter.p90)
+      },
+      byMonth: summary.monteCarlo.byMonth.map(r => ({
+        month: r.name, p10: formatCurrency(r.p10), p50: formatCurrency(r.p50), p90: formatCurrency(r.p90)
+      })),
+      byRep: summary.monteCarlo.byOwner.map(r => ({
+        rep: r.name, p10: formatCurrency(r.p10), p50: formatCurrency(r.p50), p90: formatCurrency(r.p90)
       }))
-    }))
+    } : null,
+    slippageRisk: summary.slippage ? {
+      dealsPushed: summary.slippage.slippedDeals.length,
+      chronicSlipperARR: formatCurrency(summary.slippage.chronicSlipperAmount),
+      forecastExcludingChronicSlippers: formatCurrency(summary.totalARR - summary.slippage.chronicSlipperAmount),
+      chronicSlippers: summary.slippage.chronicSlippers.map(d => ({
+        name: d.dealName,
+        arr: formatCurrency(d.amount ?? 0),
+        owner: d.ownerName,
+        timesPushed: d.pushCount,
+        daysSlipped: d.totalDaysSlipped
+      }))
+    } : null
   };
 
   const prompt = `You are an executive assistant for a VP of Revenue Operations at an EHR software company.
@@ -352,41 +871,54 @@ Generate a professional quarterly sales forecast email based on the following da
 ${JSON.stringify(data, null, 2)}
 
 CONTEXT:
-- This forecast shows Proposal-stage deals expected to close in ${data.quarter}
-- The ARR (Annual Recurring Revenue) values come from the deal "Amount" field in HubSpot
+- This forecast shows deals in the ${stageNames} stage(s) expected to close in ${data.quarter}
+- Booked ARR is revenue already closed won this quarter; projected ARR = booked + forecast
+- The ARR values come from the ${data.revenueBasis} deal field in HubSpot, converted to ${data.reportingCurrency}; mention the revenue basis once in the summary
 - This is sent to the executive team to provide visibility into the sales pipeline
 
 REQUIREMENTS:
 1. Write in plain text format (NO markdown, NO asterisks, NO special formatting)
 2. Use a professional but conversational tone appropriate for executive communication
 3. Start with a brief executive summary highlighting:
-   - Total forecasted ARR for the quarter
+   - Booked ARR so far, total forecasted ARR and projected ARR (booked + forecast) for the quarter
    - Number of deals in the pipeline
    - Key trends or insights (which month is strongest, top performers, etc.)
 
 4. Include a monthly breakdown section showing:
-   - ARR expected per month
+   - Booked, forecasted and projected ARR per month
    - Percentage of quarter's total
    - Number of deals closing that month
    - Top 3-5 deals for each month (name, ARR, owner, close date)
 
 5. Include a sales rep breakdown section showing:
-   - Each rep's total forecasted ARR
+   - Each rep's booked, forecasted and projected ARR
    - Their percentage contribution to the quarter
    - Number of deals they own
    - List of their deals with ARR and close dates
 
-6. If there were skipped deals (missing close date or amount), mention this in a data quality note
+6. If quotaAttainment is present, include a "Quota attainment" section showing, for the total, each team and each rep: quota, closed won to date, attainment %, remaining gap, and pipeline coverage (open pipeline ÷ gap) plus weighted coverage. Call out reps with the largest gaps or the lowest coverage
+
+7. Include a forecast category section showing:
+   - Commit, Best Case (Commit + Best Case), Pipeline and Omitted totals
+   - For each category, ARR by rep and by month
+
+8. If closedLost is present, include a short "Closed lost" note with the lost ARR and the main loss reasons, for context
+
+9. If slippageRisk is present, include a short "Forecast risk" section: how many deals have had their close date pushed, the chronic slippers (name, ARR, owner, times pushed) and the forecast excluding them
+
+10. If forecastRange is present, include a "Forecast range" section with the P10, P50 and P90 for the quarter, each month and each rep. Explain briefly that P10 is a conservative outcome (90% of simulations came in above it) and P90 an upside outcome
 
-7. End with a brief call-to-action or next steps (e.g., "Let me know if you need any adjustments to these projections")
+11. If there were skipped deals (missing close date or revenue value) or unconvertedDeals (amounts in a currency that couldn't be converted, left out of the totals), mention them in a data quality note
 
-8. Sign off casually with just "Best"
+12. End with a brief call-to-action or next steps (e.g., "Let me know if you need any adjustments to these projections")
 
-9. DO NOT include any meta-commentary like "Here's the email" or "Subject:" - just write the email body
+13. Sign off casually with just "Best"
 
-10. Make sure all dollar amounts and dates are formatted exactly as provided in the data
+14. DO NOT include any meta-commentary like "Here's the email" or "Subject:" - just write the email body
 
-11. Keep the tone confident but realistic - this is a forecast, not guaranteed revenue
+15. Make sure all currency amounts and dates are formatted exactly as provided in the data
+
+16. Keep the tone confident but realistic - this is a forecast, not guaranteed revenue
 
 WRITE ONLY THE EMAIL BODY (no subject line needed):`;
 
@@ -422,43 +954,64 @@ async function main() {
 
     const accessToken = process.env.HUBSPOT_ACCESS_TOKEN;
 
-    // Get current quarter
-    const quarter = getCurrentQuarter();
+    // Resolve the forecast period (current fiscal quarter unless --quarter/--next/--range)
+    const quarter = resolveForecastPeriod(process.argv.slice(2));
     console.log(`📅 Generating forecast for ${quarter.label}`);
     console.log(`   Period: ${formatDate(quarter.startDate)} - ${formatDate(quarter.endDate)}\n`);
 
-    // Fetch pipelines to find Sales pipeline
+    // Fetch pipelines and resolve the configured pipeline and forecast stages
     console.log('🔍 Fetching pipelines...\n');
-    const pipelines = await fetchPipelines(accessToken);
-    const salesPipeline = pipelines.find(p =>
-      p.label.toLowerCase() === 'sales'
-    );
+    const registry = await loadPipelineRegistry(accessToken);
+    const salesPipeline = registry.pipeline;
 
-    if (!salesPipeline) {
-      throw new Error('Sales pipeline not found');
-    }
+    console.log(`✅ Found ${salesPipeline.label} pipeline (ID: ${salesPipeline.id})\n`);
 
-    console.log(`✅ Found Sales pipeline (ID: ${salesPipeline.id})\n`);
-
-    // Find stage IDs for the target stage in Sales pipeline
     const salesPipelineOnly = [salesPipeline];
-    const stageIds = findStageIdsByLabels(salesPipelineOnly, [TARGET_STAGE]);
-
-    if (stageIds.length === 0) {
-      throw new Error(`No stages found matching "${TARGET_STAGE}" in Sales pipeline`);
-    }
-
-    console.log(`✅ Found ${stageIds.length} matching stage(s) in Sales pipeline\n`);
-
-    // Fetch deals in Proposal stage, restricted to Sales pipeline
-    console.log(`📋 Fetching deals in "${TARGET_STAGE}" stage...\n`);
-    const result = await searchDealsByStages(accessToken, stageIds, salesPipeline.id);
+    const stageIds = getReportStageIds(registry, 'forecast');
+    const stageNames = registry.reports.forecast.map(stage => stage.reportName).join(', ');
+
+    console.log(`✅ Forecasting ${stageIds.length} stage(s): ${stageNames}\n`);
+
+    // Fetch deals in the forecast stages, restricted to Sales pipeline and closing in the
+    // forecast period. Deals without a close date are fetched too so they can be reported
+    // as skipped.
+    console.log(`📋 Fetching deals in ${stageNames}...\n`);
+    const query = new DealQuery()
+      .inPipeline(salesPipeline.id)
+      .inStages(stageIds)
+      .anyOf(
+        q => q.closeDateBetween(quarter.startDate, quarter.endDate),
+        q => q.missingProperty('closedate')
+      )
+      .sortBy('closedate')
+      .select(getPropertySet('forecast', salesPipelineOnly));
+    const result = await searchDeals(accessToken, query);
     const salesDeals = result.results;
 
     console.log(`✅ Found ${salesDeals.length} deal(s) in Sales pipeline\n`);
 
-    if (salesDeals.length === 0) {
-      console.log('ℹ️  No deals found in Proposal stage. Forecast is empty.\n');
+    // Fetch deals that entered Closed Won / Closed Lost during the forecast period
+    const closedDealsFor = async (report: 'closedWon' | 'closedLost') => {
+      const closedStageIds = getReportStageIds(registry, report);
+      if (closedStageIds.length === 0) return [];
+
+      const closedResult = await searchDeals(
+        accessToken,
+        new DealQuery()
+          .inPipeline(salesPipeline.id)
+          .enteredStageBetween(closedStageIds, quarter.startDate, quarter.endDate)
+          .select(getPropertySet('forecast', salesPipelineOnly))
+      );
+      return closedResult.results;
+    };
+
+    console.log('📋 Fetching Closed Won and Closed Lost deals...\n');
+    const closedWonResults = await closedDealsFor('closedWon');
+    const closedLostResults = await closedDealsFor('closedLost');
+    console.log(`✅ Found ${closedWonResults.length} Closed Won and ${closedLostResults.length} Closed Lost deal(s)\n`);
+
+    if (salesDeals.length === 0 && closedWonResults.length === 0) {
+      console.log(`ℹ️  No deals found in ${stageNames} and nothing closed won yet. Forecast is empty.\n`);
       return;
     }
 
@@ -466,7 +1019,7 @@ async function main() {
     console.log('💼 Fetching owner information...\n');
 
     // Collect all unique owner IDs
-    const ownerIds = salesDeals
+    const ownerIds = [...salesDeals, ...closedWonResults, ...closedLostResults]
       .map(deal => deal.properties.hubspot_owner_id)
       .filter(id => id);
 
@@ -479,15 +1032,25 @@ async function main() {
       ownerNames.set(id, `${owner.firstName} ${owner.lastName}`);
     });
 
-    // Process deals for current quarter
-    console.log('🔬 Processing deals and filtering to current quarter...\n');
-    const { forecastDeals, skippedCount } = processForecastDeals(
+    // Process deals for the forecast period
+    console.log('🔬 Processing deals and filtering to the forecast period...\n');
+    const { forecastDeals, skippedCount, unconvertedDeals } = processForecastDeals(
       salesDeals,
       ownerNames,
-      quarter
+      quarter,
+      registry
     );
-
-    if (forecastDeals.length === 0) {
+    const closedWon = processClosedDeals(closedWonResults, ownerNames, quarter);
+    const closedLost = processClosedDeals(closedLostResults, ownerNames, quarter);
+    const closedWonDeals = closedWon.closedDeals;
+    const closedLostDeals = closedLost.closedDeals;
+    const allUnconvertedDeals = [
+      ...unconvertedDeals,
+      ...closedWon.unconvertedDeals,
+      ...closedLost.unconvertedDeals
+    ];
+
+    if (forecastDeals.length === 0 && closedWonDeals.length === 0) {
       console.log(`ℹ️  No deals closing in ${quarter.label}. Forecast is empty.`);
       if (skippedCount > 0) {
         console.log(`   (${skippedCount} deal(s) were skipped due to missing data or outside quarter)`);
@@ -496,14 +1059,56 @@ async function main() {
       return;
     }
 
+    // Close-date slippage risk from property history
+    console.log('🕰️  Fetching close-date history...\n');
+    let slippage: SlippageReport | null = null;
+    try {
+      const timelines = await fetchDealTimelines(accessToken, forecastDeals.map(deal => deal.dealId));
+      slippage = buildSlippageReport(
+        forecastDeals.map(deal => ({
+          dealId: deal.dealId,
+          dealName: deal.dealName,
+          ownerName: deal.dealOwnerName,
+          amount: deal.amount,
+        })),
+        timelines
+      );
+    } catch (error: any) {
+      console.warn(`⚠️  Could not fetch close-date history: ${error.message}\n`);
+    }
+
+    // Probabilistic ranges from historical outcomes
+    let monteCarlo: MonteCarloForecast | null = null;
+    if (process.argv.includes('--monte-carlo')) {
+      console.log('🎲 Fetching closed deals to run the Monte Carlo forecast...\n');
+      monteCarlo = await buildMonteCarloForecast(accessToken, registry, forecastDeals, quarter);
+    }
+
+    // Quota attainment and coverage
+    console.log('🎯 Loading quotas...\n');
+    const quotas = await buildQuotaAttainment(accessToken, registry, quarter, closedWonDeals);
+
     // Create summary
-    const summary = createForecastSummary(forecastDeals, quarter, skippedCount);
+    const summary = createForecastSummary(
+      forecastDeals,
+      closedWonDeals,
+      closedLostDeals,
+      quarter,
+      skippedCount,
+      allUnconvertedDeals,
+      slippage,
+      monteCarlo,
+      quotas
+    );
+
+    // Save the snapshot for forecast-accuracy
+    await recordForecastSnapshot(summary);
 
     // Display console report
     displayForecastReport(summary);
 
     // Generate AI email
-    const emailBody = await generateForecastEmail(summary);
+    const emailBody = await generateForecastEmail(summary, stageNames);
 
     // Display email
     console.log('━'.repeat(100));
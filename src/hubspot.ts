@@ -1,4 +1,16 @@
-const HUBSPOT_API_BASE = 'https://api.hubapi.com';
+import { hubspotRequest, HubSpotNotFoundError } from './lib/hubspot-client.js';
+import { loadOwnerDirectory } from './lib/owner-directory.js';
+import { DealQuery, checkFilterLimits, type DealSearchRequest, type SearchFilter } from './lib/deal-query.js';
+import { getPropertySet } from './lib/property-sets.js';
+
+// The search API returns at most 100 results per page
+const SEARCH_PAGE_SIZE = 100;
+
+// The search API refuses to page past 10,000 results for a single query
+const SEARCH_RESULT_CEILING = 10000;
+
+// The batch read endpoint accepts at most 100 IDs per request
+const BATCH_READ_SIZE = 100;
 
 export interface DealStage {
   id: string;
@@ -6,6 +18,7 @@ export interface DealStage {
   displayOrder: number;
   metadata: {
     probability: string;
+    isClosed?: string; // "true" for closed won/lost stages
   };
 }
 
@@ -28,6 +41,21 @@ export interface SearchDealsResponse {
   total: number;
 }
 
+interface SearchPage {
+  results: Deal[];
+  total: number;
+  paging?: {
+    next?: {
+      after: string;
+    };
+  };
+}
+
+interface CreateDateRange {
+  start: number; // Inclusive, epoch milliseconds
+  end: number;   // Exclusive, epoch milliseconds
+}
+
 export interface Owner {
   id: string;
   email: string;
@@ -39,163 +67,184 @@ export interface Owner {
  * Fetches all deal pipelines and their stages from HubSpot
  */
 export async function fetchPipelines(accessToken: string): Promise<Pipeline[]> {
-  const response = await fetch(`${HUBSPOT_API_BASE}/crm/v3/pipelines/deals`, {
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to fetch pipelines: ${response.status} ${error}`);
-  }
-
-  const data = await response.json();
+  const data = await hubspotRequest<{ results?: Pipeline[] }>(
+    accessToken,
+    '/crm/v3/pipelines/deals',
+    { description: 'Failed to fetch pipelines' }
+  );
   return data.results || [];
 }
 
 /**
- * Searches for deals by stage IDs
+ * Searches for deals by stage IDs, fetching every page of results
+ *
+ * @param properties - Properties to return (see getPropertySet); defaults to
+ *                     the "full" set without stage date properties
  */
 export async function searchDealsByStages(
   accessToken: string,
   stageIds: string[],
-  pipeline?: string
+  pipeline?: string,
+  properties?: string[]
 ): Promise<SearchDealsResponse> {
-  const filters: any[] = [];
+  const query = new DealQuery().inStages(stageIds);
 
-  if (stageIds.length > 0) {
-    filters.push({
-      propertyName: 'dealstage',
-      operator: stageIds.length === 1 ? 'EQ' : 'IN',
-      ...(stageIds.length === 1 ? { value: stageIds[0] } : { values: stageIds }),
-    });
+  if (pipeline) {
+    query.inPipeline(pipeline);
   }
 
-  if (pipeline) {
-    filters.push({
-      propertyName: 'pipeline',
-      operator: 'EQ',
-      value: pipeline,
-    });
+  if (properties) {
+    query.select(properties);
   }
 
+  return searchDeals(accessToken, query);
+}
+
+/**
+ * Runs a deal query, fetching every page of results
+ */
+export async function searchDeals(
+  accessToken: string,
+  query: DealQuery
+): Promise<SearchDealsResponse> {
+  const request = query.toSearchRequest();
+  const results = await searchAllDeals(accessToken, request);
+
+  return {
+    results,
+    total: results.length,
+  };
+}
+
+/**
+ * Fetches a single page of deal search results
+ */
+async function searchDealsPage(
+  accessToken: string,
+  request: DealSearchRequest,
+  after?: string
+): Promise<SearchPage> {
   const searchBody = {
-    filterGroups: filters.length > 0 ? [{ filters }] : [],
-    properties: [
-      // Basic Info
-      'dealname',
-      'dealstage',
-      'pipeline',
-      'hs_object_id',
-
-      // Financial
-      'amount',
-      'amount_in_home_currency',
-      'hs_tcv',
-      'hs_arr',
-      'hs_mrr',
-      'hs_acv',
-
-      // Dates
-      'createdate',
-      'closedate',
-      'hs_lastmodifieddate',
-      'hs_lastactivitydate',
-      'hs_date_entered_appointmentscheduled',
-      'hs_date_exited_appointmentscheduled',
-      'hs_date_entered_qualifiedtobuy',
-      'hs_date_exited_qualifiedtobuy',
-      'hs_date_entered_presentationscheduled',
-      'hs_date_exited_presentationscheduled',
-      'hs_date_entered_closedwon',
-      'hs_date_entered_closedlost',
-
-      // Stage Aging Properties (Sales Pipeline)
-      'hs_v2_date_entered_17915773',        // SQL - v2
-      'hs_date_entered_17915773',           // SQL - legacy
-      'hs_v2_date_entered_963167283',       // Demo - Completed - v2
-      'hs_date_entered_963167283',          // Demo - Completed - legacy
-      'hs_v2_date_entered_59865091',        // Proposal - v2
-      'hs_date_entered_59865091',           // Proposal - legacy
-      'hs_v2_date_entered_baedc188-ba76-4a41-8723-5bb99fe7c5bf',  // Demo - Scheduled - v2
-      'hs_date_entered_baedc188-ba76-4a41-8723-5bb99fe7c5bf',     // Demo - Scheduled - legacy
-
-      // Owner & Team
-      'hubspot_owner_id',
-      'hubspot_team_id',
-
-      // Deal Details
-      'dealtype',
-      'description',
-      'hs_priority',
-      'hs_next_step',
-      'hs_deal_stage_probability',
-      'hs_forecast_amount',
-      'hs_forecast_probability',
-      'hs_manual_forecast_category',
-
-      // Source & Campaign
-      'hs_analytics_source',
-      'hs_analytics_source_data_1',
-      'hs_analytics_source_data_2',
-      'hs_campaign',
-
-      // Engagement
-      'notes_last_contacted',
-      'notes_last_updated',
-      'notes_next_activity_date',
-      'num_contacted_notes',
-      'num_notes',
-
-      // Custom fields (common ones)
-      'hs_closed_amount',
-      'hs_closed_amount_in_home_currency',
-      'hs_deal_amount_calculation_preference',
-      'hs_is_closed',
-      'hs_is_closed_won',
-      'hs_projected_amount',
-      'hs_projected_amount_in_home_currency',
-
-      // Additional metadata
-      'hs_created_by_user_id',
-      'hs_updated_by_user_id',
-      'hs_all_owner_ids',
-      'hs_all_team_ids',
-      'hs_all_accessible_team_ids',
-
-      // Custom properties for Deal Hygiene
-      'hs_next_meeting_start_time',  // Next Meeting Start Time
-      'product_s',                     // Product/s
-      'prior_ehr',                     // Prior EHR
-      'hs_all_collaborator_owner_ids', // Deal Collaborator
-      'proposal_stage',                // Deal Substage
-    ],
-    limit: 100,
+    filterGroups: request.filterGroups,
+    sorts: request.sorts,
+    properties: request.properties || getPropertySet('full'),
+    limit: SEARCH_PAGE_SIZE,
+    ...(after ? { after } : {}),
   };
 
-  const response = await fetch(`${HUBSPOT_API_BASE}/crm/v3/objects/deals/search`, {
+  const data = await hubspotRequest<SearchPage>(accessToken, '/crm/v3/objects/deals/search', {
     method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(searchBody),
+    body: searchBody,
+    description: 'Failed to search deals',
   });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to search deals: ${response.status} ${error}`);
-  }
-
-  const data = await response.json();
   return {
     results: data.results || [],
     total: data.total || 0,
+    paging: data.paging,
   };
 }
 
+/**
+ * Adds a createdate window to every filter group of a search request
+ *
+ * @throws Error if the two extra filters per group take the request past HubSpot's filter limits
+ */
+function withCreateDateRange(request: DealSearchRequest, range: CreateDateRange): DealSearchRequest {
+  const rangeFilters: SearchFilter[] = [
+    { propertyName: 'createdate', operator: 'GTE', value: String(range.start) },
+    { propertyName: 'createdate', operator: 'LT', value: String(range.end) },
+  ];
+
+  const groups = request.filterGroups.length > 0 ? request.filterGroups : [{ filters: [] }];
+  const filterGroups = groups.map(group => ({
+    filters: [...group.filters, ...rangeFilters],
+  }));
+  checkFilterLimits(
+    filterGroups,
+    `Deal query matched more than ${SEARCH_RESULT_CEILING} deals and must be split by createdate, but the split query`
+  );
+
+  return { ...request, filterGroups };
+}
+
+/**
+ * Fetches every deal matching a search request, following paging.next.after cursors.
+ *
+ * The search API stops paging at 10,000 results, so larger result sets are
+ * split into createdate windows that are each small enough to page through.
+ */
+async function searchAllDeals(
+  accessToken: string,
+  request: DealSearchRequest,
+  range?: CreateDateRange
+): Promise<Deal[]> {
+  const rangedRequest = range ? withCreateDateRange(request, range) : request;
+  const firstPage = await searchDealsPage(accessToken, rangedRequest);
+
+  if (firstPage.total > SEARCH_RESULT_CEILING) {
+    // Default window covers every deal created up to one day from now
+    const window = range || { start: 0, end: Date.now() + 24 * 60 * 60 * 1000 };
+
+    if (window.end - window.start > 1) {
+      const midpoint = Math.floor((window.start + window.end) / 2);
+      const earlier = await searchAllDeals(accessToken, request, {
+        start: window.start,
+        end: midpoint,
+      });
+      const later = await searchAllDeals(accessToken, request, {
+        start: midpoint,
+        end: window.end,
+      });
+      return [...earlier, ...later];
+    }
+
+    console.warn(
+      `⚠️  ${firstPage.total} deals share a single createdate; only the first ${SEARCH_RESULT_CEILING} can be fetched`
+    );
+  }
+
+  const deals = [...firstPage.results];
+  let after = firstPage.paging?.next?.after;
+
+  while (after && deals.length < SEARCH_RESULT_CEILING) {
+    const page = await searchDealsPage(accessToken, rangedRequest, after);
+    deals.push(...page.results);
+    after = page.paging?.next?.after;
+  }
+
+  return deals;
+}
+
+/**
+ * Fetches deals by ID through the batch read endpoint
+ *
+ * @returns The deals HubSpot found (deleted or unknown IDs are left out)
+ */
+export async function fetchDealsByIds(
+  accessToken: string,
+  dealIds: string[],
+  properties: string[] = getPropertySet('full')
+): Promise<Deal[]> {
+  const uniqueIds = [...new Set(dealIds)];
+  const deals: Deal[] = [];
+
+  for (let i = 0; i < uniqueIds.length; i += BATCH_READ_SIZE) {
+    const batch = uniqueIds.slice(i, i + BATCH_READ_SIZE);
+    const data = await hubspotRequest<{ results?: Deal[] }>(accessToken, '/crm/v3/objects/deals/batch/read', {
+      method: 'POST',
+      body: {
+        inputs: batch.map(id => ({ id })),
+        properties,
+      },
+      description: 'Failed to fetch deals by ID',
+    });
+    deals.push(...(data.results || []));
+  }
+
+  return deals;
+}
+
 /**
  * Finds stage IDs by their labels (case-insensitive partial match)
  */
@@ -227,18 +276,10 @@ export async function fetchOwner(accessToken: string, ownerId: string): Promise<
   if (!ownerId) return null;
 
   try {
-    const response = await fetch(`${HUBSPOT_API_BASE}/crm/v3/owners/${ownerId}`, {
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Content-Type': 'application/json',
-      },
+    const data = await hubspotRequest<any>(accessToken, `/crm/v3/owners/${ownerId}`, {
+      description: `Failed to fetch owner ${ownerId}`,
     });
 
-    if (!response.ok) {
-      return null; // Return null if owner not found
-    }
-
-    const data = await response.json();
     return {
       id: data.id,
       email: data.email,
@@ -246,12 +287,16 @@ export async function fetchOwner(accessToken: string, ownerId: string): Promise<
       lastName: data.lastName || '',
     };
   } catch (error) {
+    // A missing owner shouldn't sink the whole report - fall back to the raw ID
+    if (!(error instanceof HubSpotNotFoundError)) {
+      console.warn(`  ⚠️  Could not fetch owner ${ownerId}: ${error instanceof Error ? error.message : error}`);
+    }
     return null;
   }
 }
 
 /**
- * Fetches multiple owners in batch
+ * Fetches multiple owners, resolved from the cached owner directory
  */
 export async function fetchOwners(
   accessToken: string,
@@ -260,16 +305,27 @@ export async function fetchOwners(
   const ownerMap = new Map<string, Owner>();
   const uniqueOwnerIds = [...new Set(ownerIds.filter(id => id))];
 
-  // Fetch owners in parallel
-  const ownerPromises = uniqueOwnerIds.map(ownerId =>
-    fetchOwner(accessToken, ownerId)
-  );
+  const directory = await loadOwnerDirectory(accessToken);
+  const unknownOwnerIds: string[] = [];
 
-  const owners = await Promise.all(ownerPromises);
+  for (const ownerId of uniqueOwnerIds) {
+    const owner = directory.owners.get(String(ownerId));
+    if (owner) {
+      ownerMap.set(ownerId, owner);
+    } else {
+      unknownOwnerIds.push(ownerId);
+    }
+  }
+
+  // Owners created since the directory was cached are looked up individually
+  // (requests are queued by the shared client's rate limiter)
+  const owners = await Promise.all(
+    unknownOwnerIds.map(ownerId => fetchOwner(accessToken, ownerId))
+  );
 
   owners.forEach((owner, index) => {
     if (owner) {
-      ownerMap.set(uniqueOwnerIds[index], owner);
+      ownerMap.set(unknownOwnerIds[index], owner);
     }
   });
 
@@ -305,3 +361,11 @@ export function resolveStageDateProperty(
   // No property found
   return null;
 }
+
+/**
+ * When a deal entered its current stage, e.g. the date a closed-won deal was booked
+ */
+export function getCurrentStageEnteredDate(deal: Deal): Date | null {
+  const resolved = resolveStageDateProperty(deal, deal.properties.dealstage || '');
+  return resolved?.value ? new Date(resolved.value) : null;
+}
@@ -0,0 +1,56 @@
+import 'dotenv/config';
+import { openHistoryStore } from './lib/history-store.js';
+import { buildOwnerScorecards, generateScorecardText } from './lib/hygiene-scorecards.js';
+
+/**
+ * Per-owner hygiene scorecards
+ *
+ * Reads the hygiene runs saved by deal-hygiene / deal-hygiene-gdrive and
+ * prints one scorecard per owner for 1:1s. No HubSpot access is needed.
+ *
+ * Usage:
+ *   npm run hygiene-scorecards
+ *   npm run hygiene-scorecards -- --weeks 8
+ */
+
+function parseWeeks(args: string[]): number {
+  const index = args.indexOf('--weeks');
+  if (index === -1) return 4;
+
+  const weeks = parseInt(args[index + 1], 10);
+  if (isNaN(weeks) || weeks < 1) {
+    throw new Error('--weeks must be a positive whole number');
+  }
+  return weeks;
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  console.log('🚀 Building per-owner hygiene scorecards...\n');
+
+  try {
+    const weeks = parseWeeks(process.argv.slice(2));
+    const store = await openHistoryStore();
+    const report = buildOwnerScorecards(store, { weeks });
+
+    if (!report) {
+      console.log(`ℹ️  No hygiene runs saved in the last ${weeks} week(s). Run "npm run deal-hygiene" first.`);
+      process.exit(0);
+    }
+
+    console.log('━'.repeat(80));
+    console.log('DEAL HYGIENE SCORECARDS - BY OWNER');
+    console.log('━'.repeat(80));
+    console.log('');
+    generateScorecardText(report).forEach(line => console.log(line));
+    console.log('━'.repeat(80));
+    console.log('\n✨ Done!\n');
+  } catch (error) {
+    console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main();
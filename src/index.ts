@@ -1,5 +1,6 @@
 import 'dotenv/config';
 import { fetchPipelines, searchDealsByStages, findStageIdsByLabels, fetchOwners } from './hubspot';
+import { getPropertySet } from './lib/property-sets.js';
 
 async function main() {
   console.log('🚀 Starting HubSpot Deals Fetcher (All Properties)...\n');
@@ -36,7 +37,12 @@ async function main() {
     console.log('\n📋 Fetching deals in these stages...\n');
 
     // Search for deals in those stages
-    const result = await searchDealsByStages(accessToken, stageIds);
+    const result = await searchDealsByStages(
+      accessToken,
+      stageIds,
+      undefined,
+      getPropertySet('full', pipelines)
+    );
 
     console.log('💼 Fetching owner information...\n');
 
@@ -0,0 +1,233 @@
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+
+/**
+ * Aging calendar
+ *
+ * Stage aging counts calendar days by default. With the business-day basis,
+ * weekends and holidays are skipped, so a deal that enters a stage on the
+ * Friday before a long weekend isn't already half way to its threshold on
+ * Tuesday.
+ *
+ * Holidays come from a JSON file (["2026-12-25", ...] or
+ * { "holidays": [{ "date": "2026-12-25", "name": "Christmas Day" }] }) or an
+ * ICS calendar export. ICS events are read by DTSTART/DTEND only; recurring
+ * events (RRULE) aren't expanded, so use a feed that lists each year's dates.
+ *
+ * Optional environment variables:
+ * - AGING_DAY_BASIS: "calendar" or "business" (default: calendar)
+ * - AGING_WEEKEND_DAYS: Non-working days, names or 0-6 with 0 = Sunday (default: Sat,Sun; "none" for no weekend)
+ * - HOLIDAY_CALENDAR_PATH: Holiday file (.json or .ics), only used with the business basis
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_WEEKEND_DAYS = [6, 0];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+export type DayBasis = 'calendar' | 'business';
+
+export interface AgingCalendar {
+  basis: DayBasis;
+  weekendDays: number[];        // 0 = Sunday ... 6 = Saturday
+  holidays: Set<string>;        // YYYY-MM-DD (local time)
+  holidaySource: string | null; // File the holidays were read from
+}
+
+const holidayFileSchema = z.union([
+  z.array(z.string()),
+  z.object({
+    holidays: z.array(z.union([
+      z.string(),
+      z.object({ date: z.string(), name: z.string().optional() }),
+    ])),
+  }),
+]);
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Parses a weekend definition such as "Sat,Sun", "fri,sat" or "5,6"
+ *
+ * @throws Error if a day isn't recognised
+ */
+export function parseWeekendDays(value: string): number[] {
+  if (value.trim().toLowerCase() === 'none') return [];
+
+  return value.split(',').map(part => part.trim().toLowerCase()).filter(Boolean).map(part => {
+    const day = /^\d$/.test(part) ? Number(part) : DAY_NAMES.indexOf(part.slice(0, 3));
+    if (day < 0 || day > 6) {
+      throw new Error(`Unrecognised weekend day "${part}" (use names like Sat,Sun or numbers 0-6)`);
+    }
+    return day;
+  });
+}
+
+function toDateKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Reads the date part of an ICS value (20261225 or 20261225T000000Z)
+ */
+function parseIcsDate(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+}
+
+/**
+ * Extracts holiday dates from an ICS calendar. Multi-day events add every day
+ * up to (not including) DTEND, as in the ICS spec for all-day events.
+ */
+export function parseIcsHolidays(content: string): string[] {
+  // Unfold continuation lines before reading properties
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const holidays: string[] = [];
+  let start: Date | null = null;
+  let end: Date | null = null;
+
+  for (const line of lines) {
+    const [rawName, ...rest] = line.split(':');
+    const name = rawName.split(';')[0].toUpperCase();
+    const value = rest.join(':').trim();
+
+    if (name === 'BEGIN' && value.toUpperCase() === 'VEVENT') {
+      start = null;
+      end = null;
+    } else if (name === 'DTSTART') {
+      start = parseIcsDate(value);
+    } else if (name === 'DTEND') {
+      end = parseIcsDate(value);
+    } else if (name === 'END' && value.toUpperCase() === 'VEVENT' && start) {
+      const day = new Date(start);
+      do {
+        holidays.push(toDateKey(day));
+        day.setDate(day.getDate() + 1);
+      } while (end && day < end);
+    }
+  }
+
+  return holidays;
+}
+
+/**
+ * Extracts holiday dates from the JSON holiday file formats
+ *
+ * @throws Error if the file doesn't match either format or a date is invalid
+ */
+export function parseJsonHolidays(content: string): string[] {
+  const parsed = holidayFileSchema.safeParse(JSON.parse(content));
+  if (!parsed.success) {
+    throw new Error('expected a list of YYYY-MM-DD dates or { "holidays": [...] }');
+  }
+
+  const entries = Array.isArray(parsed.data) ? parsed.data : parsed.data.holidays;
+  return entries.map(entry => {
+    const date = typeof entry === 'string' ? entry : entry.date;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new Error(`"${date}" is not a YYYY-MM-DD date`);
+    }
+    return date;
+  });
+}
+
+/**
+ * Builds the aging calendar from the environment
+ *
+ * @throws Error if the basis, weekend definition or holiday file is invalid
+ */
+export async function loadAgingCalendar(): Promise<AgingCalendar> {
+  const basis = (process.env.AGING_DAY_BASIS || 'calendar').trim().toLowerCase();
+  if (basis !== 'calendar' && basis !== 'business') {
+    throw new Error(`AGING_DAY_BASIS must be "calendar" or "business", got "${process.env.AGING_DAY_BASIS}"`);
+  }
+
+  const weekendDays = process.env.AGING_WEEKEND_DAYS
+    ? parseWeekendDays(process.env.AGING_WEEKEND_DAYS)
+    : DEFAULT_WEEKEND_DAYS;
+
+  const holidaySource = basis === 'business' ? process.env.HOLIDAY_CALENDAR_PATH || null : null;
+  const holidays = new Set<string>();
+
+  if (holidaySource) {
+    let content: string;
+    try {
+      content = await fs.readFile(holidaySource, 'utf-8');
+    } catch (error) {
+      throw new Error(`Could not read holiday calendar from ${holidaySource}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    try {
+      const dates = holidaySource.toLowerCase().endsWith('.ics')
+        ? parseIcsHolidays(content)
+        : parseJsonHolidays(content);
+      dates.forEach(date => holidays.add(date));
+    } catch (error) {
+      throw new Error(`Invalid holiday calendar in ${holidaySource}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return { basis, weekendDays, holidays, holidaySource };
+}
+
+// ============================================================================
+// COUNTING
+// ============================================================================
+
+/**
+ * Checks whether a date is a working day on this calendar
+ */
+export function isBusinessDay(calendar: AgingCalendar, date: Date): boolean {
+  return !calendar.weekendDays.includes(date.getDay()) && !calendar.holidays.has(toDateKey(date));
+}
+
+/**
+ * Counts the days between two dates on the aging calendar
+ *
+ * Calendar basis: whole 24-hour periods. Business basis: working days after
+ * the start date up to and including the end date, so a deal that entered a
+ * stage on Friday is 1 business day old on Monday.
+ */
+export function countDaysBetween(calendar: AgingCalendar, startDate: Date, endDate: Date): number {
+  if (calendar.basis === 'calendar') {
+    return Math.floor((endDate.getTime() - startDate.getTime()) / DAY_MS);
+  }
+
+  const day = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate() + 1);
+  const last = new Date(endDate.getFullYear(), endDate.getMonth(), endDate.getDate());
+  let count = 0;
+
+  while (day <= last) {
+    if (isBusinessDay(calendar, day)) count++;
+    day.setDate(day.getDate() + 1);
+  }
+
+  return count;
+}
+
+/**
+ * Unit label for day counts, e.g. "days" or "business days"
+ */
+export function dayUnit(calendar: AgingCalendar): string {
+  return calendar.basis === 'business' ? 'business days' : 'days';
+}
+
+/**
+ * One-line description of the calendar for report headers
+ */
+export function describeAgingCalendar(calendar: AgingCalendar): string {
+  if (calendar.basis === 'calendar') return 'Calendar days';
+
+  const weekend = calendar.weekendDays.length > 0
+    ? calendar.weekendDays.map(day => DAY_NAMES[day][0].toUpperCase() + DAY_NAMES[day].slice(1)).join(', ')
+    : 'none';
+  const holidays = calendar.holidaySource
+    ? `${calendar.holidays.size} holiday(s) from ${calendar.holidaySource}`
+    : 'no holiday calendar';
+
+  return `Business days (weekend: ${weekend}; ${holidays})`;
+}
@@ -0,0 +1,137 @@
+import type { DealTimeline } from './deal-history.js';
+
+/**
+ * Close-date slippage
+ *
+ * Uses each deal's close-date history to count how often the date was pushed
+ * out and by how much. Deals pushed more often (or further) than the
+ * thresholds are flagged as chronic slippers.
+ *
+ * Optional environment variables:
+ * - CHRONIC_SLIPPER_PUSHES: Pushes before a deal is a chronic slipper (default: 3)
+ * - CHRONIC_SLIPPER_DAYS: Total days slipped before a deal is a chronic slipper (default: 90)
+ */
+
+const DEFAULT_CHRONIC_PUSHES = 3;
+const DEFAULT_CHRONIC_DAYS = 90;
+
+export interface SlippageThresholds {
+  pushes: number; // Flag at this many pushes or more
+  days: number;   // ...or at this many total days slipped or more
+}
+
+export interface SlippageDealInfo {
+  dealId: string;
+  dealName: string;
+  ownerName: string | null;
+  amount: number | null;
+}
+
+export interface DealSlippage extends SlippageDealInfo {
+  pushCount: number;           // Times the close date moved later
+  pullInCount: number;         // Times the close date moved earlier
+  totalDaysSlipped: number;    // Sum of every push (pull-ins don't offset it)
+  originalCloseDate: Date | null;
+  currentCloseDate: Date | null;
+  lastPushedAt: Date | null;
+  isChronicSlipper: boolean;
+}
+
+export interface SlippageReport {
+  thresholds: SlippageThresholds;
+  dealsAnalyzed: number;
+  slippedDeals: DealSlippage[];    // Deals with 1+ push, most pushes first
+  chronicSlippers: DealSlippage[];
+  totalPushes: number;
+  totalDaysSlipped: number;
+  chronicSlipperAmount: number;    // Sum of chronic slippers' amounts
+}
+
+/**
+ * Reads the chronic slipper thresholds from the environment
+ */
+export function getSlippageThresholds(): SlippageThresholds {
+  const pushes = parseInt(process.env.CHRONIC_SLIPPER_PUSHES || String(DEFAULT_CHRONIC_PUSHES), 10);
+  const days = parseInt(process.env.CHRONIC_SLIPPER_DAYS || String(DEFAULT_CHRONIC_DAYS), 10);
+
+  return {
+    pushes: isNaN(pushes) ? DEFAULT_CHRONIC_PUSHES : pushes,
+    days: isNaN(days) ? DEFAULT_CHRONIC_DAYS : days,
+  };
+}
+
+/**
+ * Measures one deal's close-date slippage from its timeline
+ */
+export function analyzeDealSlippage(
+  deal: SlippageDealInfo,
+  timeline: DealTimeline,
+  thresholds: SlippageThresholds
+): DealSlippage {
+  const changes = timeline.closeDateChanges;
+  const pushes = changes.filter(change => change.daysMoved !== null && change.daysMoved > 0);
+  const totalDaysSlipped = Math.round(pushes.reduce((sum, change) => sum + change.daysMoved!, 0));
+
+  return {
+    ...deal,
+    pushCount: pushes.length,
+    pullInCount: changes.filter(change => change.daysMoved !== null && change.daysMoved < 0).length,
+    totalDaysSlipped,
+    originalCloseDate: changes.length > 0 ? changes[0].from : null,
+    currentCloseDate: changes.length > 0 ? changes[changes.length - 1].to : null,
+    lastPushedAt: pushes.length > 0 ? pushes[pushes.length - 1].changedAt : null,
+    isChronicSlipper: pushes.length >= thresholds.pushes || (pushes.length > 0 && totalDaysSlipped >= thresholds.days),
+  };
+}
+
+/**
+ * Builds the slippage report for a set of deals
+ */
+export function buildSlippageReport(
+  deals: SlippageDealInfo[],
+  timelines: Map<string, DealTimeline>,
+  thresholds: SlippageThresholds = getSlippageThresholds()
+): SlippageReport {
+  const analyzed = deals
+    .filter(deal => timelines.has(deal.dealId))
+    .map(deal => analyzeDealSlippage(deal, timelines.get(deal.dealId)!, thresholds));
+
+  const slippedDeals = analyzed
+    .filter(deal => deal.pushCount > 0)
+    .sort((a, b) => b.pushCount - a.pushCount || b.totalDaysSlipped - a.totalDaysSlipped);
+  const chronicSlippers = slippedDeals.filter(deal => deal.isChronicSlipper);
+
+  return {
+    thresholds,
+    dealsAnalyzed: analyzed.length,
+    slippedDeals,
+    chronicSlippers,
+    totalPushes: slippedDeals.reduce((sum, deal) => sum + deal.pushCount, 0),
+    totalDaysSlipped: slippedDeals.reduce((sum, deal) => sum + deal.totalDaysSlipped, 0),
+    chronicSlipperAmount: chronicSlippers.reduce((sum, deal) => sum + (deal.amount ?? 0), 0),
+  };
+}
+
+function formatShortDate(date: Date | null): string {
+  return date ? date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : 'N/A';
+}
+
+/**
+ * Formats the slippage report as report lines
+ */
+export function generateSlippageText(report: SlippageReport): string[] {
+  const lines: string[] = [];
+  const { thresholds } = report;
+
+  lines.push(`📅 ${report.slippedDeals.length} of ${report.dealsAnalyzed} deal(s) have had their close date pushed (${report.totalPushes} push(es), ${report.totalDaysSlipped} day(s) in total)`);
+  lines.push(`🐌 Chronic slippers (${thresholds.pushes}+ pushes or ${thresholds.days}+ days slipped): ${report.chronicSlippers.length}`);
+  lines.push('');
+
+  report.slippedDeals.forEach((deal, index) => {
+    const marker = deal.isChronicSlipper ? '🐌 ' : '';
+    lines.push(`${index + 1}. ${marker}"${deal.dealName}" [ID: ${deal.dealId}] (Owner: ${deal.ownerName || 'Unassigned'})`);
+    lines.push(`   Pushed ${deal.pushCount} time(s), ${deal.totalDaysSlipped} day(s) total: ${formatShortDate(deal.originalCloseDate)} → ${formatShortDate(deal.currentCloseDate)}`);
+  });
+
+  return lines;
+}
@@ -0,0 +1,282 @@
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+
+/**
+ * Currency normalization
+ *
+ * Reports add up deal amounts in one reporting currency. Each deal's amount
+ * is converted from its deal_currency_code (deals without one are in the
+ * portal's home currency):
+ * - Same currency as the report: used as is
+ * - CURRENCY_CONVERSION=hubspot (default): amount_in_home_currency, converted
+ *   with HubSpot's own exchange rates; if the home currency isn't the
+ *   reporting currency, the home amount is converted with the rate table
+ * - CURRENCY_CONVERSION=rates, or no home-currency amount: the local rate table
+ *
+ * Deals that can't be converted (no rate for their currency) are left out of
+ * totals and listed by each report.
+ *
+ * The rate table gives units of each currency per one unit of the base:
+ *   { "base": "USD", "rates": { "EUR": 0.92, "GBP": 0.79 } }
+ *
+ * Optional environment variables:
+ * - REPORTING_CURRENCY: Currency reports are shown in (default: USD)
+ * - HUBSPOT_HOME_CURRENCY: The portal's company currency (default: REPORTING_CURRENCY)
+ * - CURRENCY_CONVERSION: hubspot or rates (default: hubspot)
+ * - EXCHANGE_RATES_PATH: Rate table file (default: config/exchange-rates.json, optional)
+ */
+
+const DEFAULT_RATES_PATH = 'config/exchange-rates.json';
+
+const currencyCodeSchema = z.string().regex(/^[A-Za-z]{3}$/, 'Must be a 3-letter currency code');
+
+const rateTableSchema = z.object({
+  base: currencyCodeSchema,
+  rates: z.record(currencyCodeSchema, z.number().positive()),
+});
+
+export type ConversionPreference = 'hubspot' | 'rates';
+
+export interface ExchangeRateTable {
+  base: string;
+  rates: Map<string, number>;      // Units of the currency per 1 base (base itself included as 1)
+}
+
+export interface CurrencySettings {
+  reportingCurrency: string;
+  homeCurrency: string;
+  preference: ConversionPreference;
+  rates: ExchangeRateTable | null; // null when no rate file exists
+}
+
+export type ConversionMethod = 'same' | 'hubspot' | 'rates';
+
+export interface DealAmount {
+  amount: number | null;           // In the reporting currency (null if missing or unconvertible)
+  originalAmount: number | null;   // In the deal currency
+  currency: string;                // Deal currency
+  method: ConversionMethod | null; // null when the amount is missing or couldn't be converted
+}
+
+export interface UnconvertedDeal {
+  dealId: string;
+  dealName: string;
+  currency: string;
+  originalAmount: number;
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+function normalizeCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Loads the rate table
+ *
+ * @returns The table, or null if the file doesn't exist
+ * @throws Error if the file is invalid
+ */
+export function loadExchangeRates(
+  ratesPath: string = process.env.EXCHANGE_RATES_PATH || DEFAULT_RATES_PATH
+): ExchangeRateTable | null {
+  let raw: string;
+  try {
+    raw = readFileSync(ratesPath, 'utf-8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw new Error(`Could not read exchange rates from ${ratesPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid exchange rates in ${ratesPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = rateTableSchema.safeParse(json);
+  if (!parsed.success) {
+    const problems = parsed.error.issues
+      .map(issue => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid exchange rates in ${ratesPath}:\n${problems}`);
+  }
+
+  const base = normalizeCode(parsed.data.base);
+  const rates = new Map(Object.entries(parsed.data.rates).map(([code, rate]) => [normalizeCode(code), rate]));
+  rates.set(base, 1);
+  return { base, rates };
+}
+
+// Loaded once per process so every report converts with the same settings
+let cachedSettings: CurrencySettings | null = null;
+
+/**
+ * Reads the currency settings from the environment and the rate table
+ *
+ * @throws Error if a setting or the rate file is invalid
+ */
+export function getCurrencySettings(): CurrencySettings {
+  if (cachedSettings) return cachedSettings;
+
+  const reportingCurrency = normalizeCode(process.env.REPORTING_CURRENCY || 'USD');
+  const homeCurrency = normalizeCode(process.env.HUBSPOT_HOME_CURRENCY || reportingCurrency);
+  for (const [name, code] of [['REPORTING_CURRENCY', reportingCurrency], ['HUBSPOT_HOME_CURRENCY', homeCurrency]]) {
+    if (!currencyCodeSchema.safeParse(code).success) {
+      throw new Error(`${name} must be a 3-letter currency code, got "${code}"`);
+    }
+  }
+
+  const preference = (process.env.CURRENCY_CONVERSION || 'hubspot').trim().toLowerCase();
+  if (preference !== 'hubspot' && preference !== 'rates') {
+    throw new Error(`CURRENCY_CONVERSION must be "hubspot" or "rates", got "${process.env.CURRENCY_CONVERSION}"`);
+  }
+
+  cachedSettings = { reportingCurrency, homeCurrency, preference, rates: loadExchangeRates() };
+  return cachedSettings;
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Converts an amount between currencies with the rate table
+ *
+ * @returns The converted amount, or null if either currency has no rate
+ */
+export function convertWithRates(
+  amount: number,
+  from: string,
+  to: string,
+  rates: ExchangeRateTable | null
+): number | null {
+  if (normalizeCode(from) === normalizeCode(to)) return amount;
+  if (!rates) return null;
+
+  const fromRate = rates.rates.get(normalizeCode(from));
+  const toRate = rates.rates.get(normalizeCode(to));
+  if (!fromRate || !toRate) return null;
+
+  return (amount / fromRate) * toRate;
+}
+
+/**
+ * Parses a HubSpot number property (null if empty or not a number)
+ */
+export function parseAmount(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const amount = parseFloat(String(value));
+  return isNaN(amount) ? null : amount;
+}
+
+/**
+ * Converts a deal's amount to the reporting currency
+ *
+ * @param properties - Deal properties (amount, deal_currency_code, amount_in_home_currency)
+ */
+export function convertDealAmount(
+  properties: Record<string, any>,
+  settings: CurrencySettings = getCurrencySettings()
+): DealAmount {
+  return convertDealValue(parseAmount(properties.amount), properties, settings);
+}
+
+/**
+ * Converts another money value of a deal (hs_arr, hs_acv...) to the reporting
+ * currency. HubSpot's rate is taken from amount vs amount_in_home_currency.
+ *
+ * @param value - Value in the deal currency (null if missing)
+ */
+export function convertDealValue(
+  value: number | null,
+  properties: Record<string, any>,
+  settings: CurrencySettings = getCurrencySettings()
+): DealAmount {
+  const originalAmount = value;
+  const currency = properties.deal_currency_code
+    ? normalizeCode(properties.deal_currency_code)
+    : settings.homeCurrency;
+  const result = (amount: number | null, method: ConversionMethod | null): DealAmount =>
+    ({ amount, originalAmount, currency, method });
+
+  if (originalAmount === null) return result(null, null);
+  // Zero is zero in any currency
+  if (currency === settings.reportingCurrency || originalAmount === 0) return result(originalAmount, 'same');
+
+  const fromRates = () => convertWithRates(originalAmount, currency, settings.reportingCurrency, settings.rates);
+  const fromHubSpot = () => {
+    const amount = parseAmount(properties.amount);
+    const homeAmount = parseAmount(properties.amount_in_home_currency);
+    if (amount === null || homeAmount === null || amount === 0) return null;
+    const homeValue = originalAmount * (homeAmount / amount);
+    return convertWithRates(homeValue, settings.homeCurrency, settings.reportingCurrency, settings.rates);
+  };
+
+  const [first, second] = settings.preference === 'hubspot'
+    ? [{ convert: fromHubSpot, method: 'hubspot' as const }, { convert: fromRates, method: 'rates' as const }]
+    : [{ convert: fromRates, method: 'rates' as const }, { convert: fromHubSpot, method: 'hubspot' as const }];
+
+  const firstAmount = first.convert();
+  if (firstAmount !== null) return result(firstAmount, first.method);
+
+  const secondAmount = second.convert();
+  return secondAmount !== null ? result(secondAmount, second.method) : result(null, null);
+}
+
+/**
+ * Whether a converted amount is missing only because it couldn't be converted
+ */
+export function isUnconverted(dealAmount: DealAmount): boolean {
+  return dealAmount.amount === null && dealAmount.originalAmount !== null;
+}
+
+/**
+ * Records a deal that couldn't be converted
+ */
+export function toUnconvertedDeal(deal: { id: string; properties: Record<string, any> }, dealAmount: DealAmount): UnconvertedDeal {
+  return {
+    dealId: deal.id,
+    dealName: deal.properties.dealname || 'Untitled Deal',
+    currency: dealAmount.currency,
+    originalAmount: dealAmount.originalAmount ?? 0,
+  };
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * Formats an amount in the reporting currency (or another currency), without decimals
+ */
+export function formatCurrency(amount: number | null, currency: string = getCurrencySettings().reportingCurrency): string {
+  if (amount === null || amount === undefined) return 'N/A';
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
+/**
+ * Describes deals that couldn't be converted, for report warnings
+ *
+ * @param effect - What the report did with them (e.g., "left out of totals")
+ */
+export function describeUnconvertedDeals(deals: UnconvertedDeal[], effect: string = 'left out of totals'): string[] {
+  if (deals.length === 0) return [];
+
+  const { reportingCurrency } = getCurrencySettings();
+  const currencies = [...new Set(deals.map(deal => deal.currency))].sort().join(', ');
+
+  return [
+    `⚠️  ${deals.length} deal(s) in ${currencies} couldn't be converted to ${reportingCurrency} - ${effect}` +
+    ' (add the rate to the exchange-rate table):',
+    ...deals.map(deal => `   • ${deal.dealName} - ${formatCurrency(deal.originalAmount, deal.currency)}`),
+  ];
+}
@@ -0,0 +1,222 @@
+import { hubspotRequest } from './hubspot-client.js';
+
+/**
+ * Deal property history
+ *
+ * The hs_v2_date_entered_<stage> properties only hold the latest entry into a
+ * stage, so they can't show deals that bounced between stages or close dates
+ * that were pushed several times. This module reads the full change history
+ * (propertiesWithHistory) through the batch read endpoint and rebuilds a
+ * timeline per deal.
+ */
+
+// The batch read endpoint accepts at most 50 IDs when history is requested
+const HISTORY_BATCH_SIZE = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TIMELINE_PROPERTIES = ['dealstage', 'closedate', 'amount'];
+
+export interface PropertyVersion {
+  value: string;
+  timestamp: string;
+  sourceType?: string;
+  sourceId?: string;
+  updatedByUserId?: number;
+}
+
+export type PropertyHistory = Record<string, PropertyVersion[]>;
+
+export interface StageVisit {
+  stageId: string;
+  enteredAt: Date;
+  exitedAt: Date | null; // null while the deal is still in the stage
+  durationDays: number;  // Up to now for the current stage (1 decimal place)
+}
+
+export interface CloseDateChange {
+  changedAt: Date;
+  from: Date | null;
+  to: Date | null;
+  daysMoved: number | null; // Positive = pushed out, negative = pulled in
+}
+
+export interface AmountChange {
+  changedAt: Date;
+  from: number | null;
+  to: number | null;
+  delta: number | null;
+}
+
+export interface DealTimeline {
+  dealId: string;
+  stageVisits: StageVisit[];          // Oldest first
+  closeDateChanges: CloseDateChange[]; // Oldest first, excludes the initial value
+  amountChanges: AmountChange[];       // Oldest first, excludes the initial value
+}
+
+interface BatchReadResponse {
+  results: Array<{
+    id: string;
+    propertiesWithHistory?: PropertyHistory;
+  }>;
+}
+
+// ============================================================================
+// FETCHING
+// ============================================================================
+
+/**
+ * Fetches the change history of the given properties for each deal
+ *
+ * @returns Map of deal ID to property history (deals HubSpot can't find are left out)
+ */
+export async function fetchDealPropertyHistory(
+  accessToken: string,
+  dealIds: string[],
+  properties: string[] = TIMELINE_PROPERTIES
+): Promise<Map<string, PropertyHistory>> {
+  const histories = new Map<string, PropertyHistory>();
+  const uniqueIds = [...new Set(dealIds)];
+
+  for (let i = 0; i < uniqueIds.length; i += HISTORY_BATCH_SIZE) {
+    const batch = uniqueIds.slice(i, i + HISTORY_BATCH_SIZE);
+
+    const data = await hubspotRequest<BatchReadResponse>(accessToken, '/crm/v3/objects/deals/batch/read', {
+      method: 'POST',
+      body: {
+        inputs: batch.map(id => ({ id })),
+        properties: [],
+        propertiesWithHistory: properties,
+      },
+      description: 'Failed to fetch deal property history',
+    });
+
+    for (const result of data.results || []) {
+      histories.set(result.id, result.propertiesWithHistory || {});
+    }
+  }
+
+  return histories;
+}
+
+/**
+ * Fetches history for each deal and builds its timeline
+ */
+export async function fetchDealTimelines(
+  accessToken: string,
+  dealIds: string[],
+  now: Date = new Date()
+): Promise<Map<string, DealTimeline>> {
+  const histories = await fetchDealPropertyHistory(accessToken, dealIds);
+  const timelines = new Map<string, DealTimeline>();
+
+  for (const [dealId, history] of histories) {
+    timelines.set(dealId, buildDealTimeline(dealId, history, now));
+  }
+
+  return timelines;
+}
+
+// ============================================================================
+// TIMELINES
+// ============================================================================
+
+/**
+ * Sorts versions oldest first and drops repeats of the same value
+ */
+function orderedChanges(versions: PropertyVersion[] = []): PropertyVersion[] {
+  const sorted = [...versions].sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  return sorted.filter((version, index) => index === 0 || version.value !== sorted[index - 1].value);
+}
+
+/**
+ * Parses a date value from history (ISO string or epoch milliseconds)
+ */
+function parseHistoryDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = /^\d+$/.test(value) ? new Date(Number(value)) : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function parseHistoryNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value.trim() === '') return null;
+  const number = parseFloat(value);
+  return isNaN(number) ? null : number;
+}
+
+function roundDays(ms: number): number {
+  return Math.round((ms / DAY_MS) * 10) / 10;
+}
+
+/**
+ * Rebuilds a deal's stage visits, close-date changes and amount changes
+ */
+export function buildDealTimeline(dealId: string, history: PropertyHistory, now: Date = new Date()): DealTimeline {
+  const stageChanges = orderedChanges(history.dealstage).filter(version => version.value);
+  const stageVisits: StageVisit[] = stageChanges.map((version, index) => {
+    const enteredAt = new Date(version.timestamp);
+    const next = stageChanges[index + 1];
+    const exitedAt = next ? new Date(next.timestamp) : null;
+
+    return {
+      stageId: version.value,
+      enteredAt,
+      exitedAt,
+      durationDays: roundDays((exitedAt ?? now).getTime() - enteredAt.getTime()),
+    };
+  });
+
+  const closeDateVersions = orderedChanges(history.closedate);
+  const closeDateChanges: CloseDateChange[] = closeDateVersions.slice(1).map((version, index) => {
+    const from = parseHistoryDate(closeDateVersions[index].value);
+    const to = parseHistoryDate(version.value);
+
+    return {
+      changedAt: new Date(version.timestamp),
+      from,
+      to,
+      daysMoved: from && to ? roundDays(to.getTime() - from.getTime()) : null,
+    };
+  });
+
+  const amountVersions = orderedChanges(history.amount);
+  const amountChanges: AmountChange[] = amountVersions.slice(1).map((version, index) => {
+    const from = parseHistoryNumber(amountVersions[index].value);
+    const to = parseHistoryNumber(version.value);
+
+    return {
+      changedAt: new Date(version.timestamp),
+      from,
+      to,
+      delta: from !== null && to !== null ? to - from : null,
+    };
+  });
+
+  return { dealId, stageVisits, closeDateChanges, amountChanges };
+}
+
+/**
+ * Returns the visit for the deal's current stage, or null if there's no stage history
+ */
+export function getCurrentStageVisit(timeline: DealTimeline): StageVisit | null {
+  return timeline.stageVisits[timeline.stageVisits.length - 1] || null;
+}
+
+/**
+ * Returns every visit to a stage, oldest first
+ */
+export function getStageVisits(timeline: DealTimeline, stageId: string): StageVisit[] {
+  return timeline.stageVisits.filter(visit => visit.stageId === stageId);
+}
+
+/**
+ * Checks whether a change happened within [start, end]
+ */
+export function isChangedBetween(change: { changedAt: Date } | { enteredAt: Date }, start: Date, end: Date): boolean {
+  const at = 'changedAt' in change ? change.changedAt : change.enteredAt;
+  return at >= start && at <= end;
+}
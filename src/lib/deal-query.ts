@@ -0,0 +1,284 @@
+/**
+ * Composable deal search query builder
+ *
+ * Builds request bodies for POST /crm/v3/objects/deals/search so callers can
+ * push filtering to HubSpot instead of fetching everything and filtering in
+ * memory.
+ *
+ * Filters added directly are ANDed together. anyOf() adds OR'd alternatives;
+ * each alternative becomes its own filter group that also carries every
+ * ANDed filter (HubSpot ORs filter groups and ANDs filters within a group).
+ *
+ * Example:
+ *   new DealQuery()
+ *     .inPipeline(pipelineId)
+ *     .inStages(stageIds)
+ *     .anyOf(
+ *       q => q.closeDateBetween(quarter.startDate, quarter.endDate),
+ *       q => q.missingProperty('closedate')
+ *     )
+ *     .sortBy('closedate')
+ *     .select(['dealname', 'amount', 'closedate']);
+ */
+
+// HubSpot search API limits
+const MAX_FILTER_GROUPS = 5;
+const MAX_FILTERS_PER_GROUP = 6;
+const MAX_FILTERS_TOTAL = 18;
+
+export type FilterOperator =
+  | 'EQ'
+  | 'NEQ'
+  | 'LT'
+  | 'LTE'
+  | 'GT'
+  | 'GTE'
+  | 'BETWEEN'
+  | 'IN'
+  | 'NOT_IN'
+  | 'HAS_PROPERTY'
+  | 'NOT_HAS_PROPERTY'
+  | 'CONTAINS_TOKEN'
+  | 'NOT_CONTAINS_TOKEN';
+
+export type SortDirection = 'ASCENDING' | 'DESCENDING';
+
+export interface SearchFilter {
+  propertyName: string;
+  operator: FilterOperator;
+  value?: string;
+  highValue?: string;  // Upper bound for BETWEEN
+  values?: string[];   // For IN / NOT_IN
+}
+
+export interface SearchFilterGroup {
+  filters: SearchFilter[];
+}
+
+export interface SearchSort {
+  propertyName: string;
+  direction: SortDirection;
+}
+
+export interface DealSearchRequest {
+  filterGroups: SearchFilterGroup[];
+  sorts: SearchSort[];
+  properties: string[] | null; // null = let the caller pick its default set
+}
+
+type FilterValue = string | number | Date;
+
+/**
+ * Converts a filter value into the string form the search API expects.
+ * Dates are sent as epoch milliseconds.
+ */
+function toFilterValue(value: FilterValue): string {
+  if (value instanceof Date) {
+    return String(value.getTime());
+  }
+  return String(value);
+}
+
+/**
+ * Checks filter groups against HubSpot's search limits
+ *
+ * @param description - Start of the error message (e.g., "Deal query")
+ * @throws Error if there are more filter groups or filters than HubSpot allows
+ */
+export function checkFilterLimits(filterGroups: SearchFilterGroup[], description: string = 'Deal query'): void {
+  if (filterGroups.length > MAX_FILTER_GROUPS) {
+    throw new Error(
+      `${description} has ${filterGroups.length} filter groups; HubSpot allows at most ${MAX_FILTER_GROUPS}`
+    );
+  }
+
+  for (const group of filterGroups) {
+    if (group.filters.length > MAX_FILTERS_PER_GROUP) {
+      throw new Error(
+        `${description} has ${group.filters.length} filters in one group; HubSpot allows at most ${MAX_FILTERS_PER_GROUP}`
+      );
+    }
+  }
+
+  const totalFilters = filterGroups.reduce((sum, group) => sum + group.filters.length, 0);
+  if (totalFilters > MAX_FILTERS_TOTAL) {
+    throw new Error(
+      `${description} has ${totalFilters} filters in total; HubSpot allows at most ${MAX_FILTERS_TOTAL}`
+    );
+  }
+}
+
+export class DealQuery {
+  private filters: SearchFilter[] = [];
+  private alternatives: SearchFilter[][] = [];
+  private sorts: SearchSort[] = [];
+  private properties: string[] | null = null;
+
+  /**
+   * Adds a raw filter. Prefer the named helpers below where one exists.
+   */
+  where(propertyName: string, operator: 'HAS_PROPERTY' | 'NOT_HAS_PROPERTY'): this;
+  where(propertyName: string, operator: 'IN' | 'NOT_IN', values: FilterValue[]): this;
+  where(propertyName: string, operator: 'BETWEEN', low: FilterValue, high: FilterValue): this;
+  where(propertyName: string, operator: FilterOperator, value: FilterValue): this;
+  where(
+    propertyName: string,
+    operator: FilterOperator,
+    value?: FilterValue | FilterValue[],
+    highValue?: FilterValue
+  ): this {
+    const filter: SearchFilter = { propertyName, operator };
+
+    if (Array.isArray(value)) {
+      filter.values = value.map(toFilterValue);
+    } else if (value !== undefined) {
+      filter.value = toFilterValue(value);
+    }
+
+    if (highValue !== undefined) {
+      filter.highValue = toFilterValue(highValue);
+    }
+
+    this.filters.push(filter);
+    return this;
+  }
+
+  /**
+   * Matches a property against one or more values (EQ for one, IN for several)
+   */
+  private whereAnyOf(propertyName: string, values: string[]): this {
+    if (values.length === 1) {
+      return this.where(propertyName, 'EQ', values[0]);
+    }
+    return this.where(propertyName, 'IN', values);
+  }
+
+  inPipeline(pipelineId: string): this {
+    return this.where('pipeline', 'EQ', pipelineId);
+  }
+
+  inStages(stageIds: string[]): this {
+    if (stageIds.length === 0) return this;
+    return this.whereAnyOf('dealstage', stageIds);
+  }
+
+  closeDateBetween(start: Date, end: Date): this {
+    return this.where('closedate', 'BETWEEN', start, end);
+  }
+
+  closeDateOnOrAfter(date: Date): this {
+    return this.where('closedate', 'GTE', date);
+  }
+
+  closeDateOnOrBefore(date: Date): this {
+    return this.where('closedate', 'LTE', date);
+  }
+
+  amountAtLeast(minimum: number): this {
+    return this.where('amount', 'GTE', minimum);
+  }
+
+  amountAtMost(maximum: number): this {
+    return this.where('amount', 'LTE', maximum);
+  }
+
+  ownedBy(ownerIds: string[]): this {
+    if (ownerIds.length === 0) return this;
+    return this.whereAnyOf('hubspot_owner_id', ownerIds);
+  }
+
+  inTeams(teamIds: string[]): this {
+    if (teamIds.length === 0) return this;
+    return this.whereAnyOf('hubspot_team_id', teamIds);
+  }
+
+  hasProperty(propertyName: string): this {
+    return this.where(propertyName, 'HAS_PROPERTY');
+  }
+
+  missingProperty(propertyName: string): this {
+    return this.where(propertyName, 'NOT_HAS_PROPERTY');
+  }
+
+  /**
+   * Matches deals in one of the stages that entered it between two dates
+   * (hs_v2_date_entered_<stageId>), one filter group per stage
+   */
+  enteredStageBetween(stageIds: string[], start: Date, end: Date): this {
+    if (stageIds.length === 0) {
+      throw new Error('enteredStageBetween() needs at least one stage');
+    }
+    return this.anyOf(...stageIds.map(stageId =>
+      (query: DealQuery) => query
+        .inStages([stageId])
+        .where(`hs_v2_date_entered_${stageId}`, 'BETWEEN', start, end)
+    ));
+  }
+
+  /**
+   * ORs together alternative sets of filters. Calling anyOf() more than once
+   * ANDs the OR-sets, e.g. (A or B) and (C or D).
+   */
+  anyOf(...branches: Array<(query: DealQuery) => DealQuery>): this {
+    // A branch with its own anyOf() contributes one alternative per OR'd option
+    const branchFilters = branches.flatMap(branch => {
+      const query = branch(new DealQuery());
+      return query.alternatives.length > 0
+        ? query.alternatives.map(alternative => [...query.filters, ...alternative])
+        : [query.filters];
+    });
+
+    if (this.alternatives.length === 0) {
+      this.alternatives = branchFilters;
+    } else {
+      // Expand (A or B) and (C or D) into AC, AD, BC, BD
+      const combined: SearchFilter[][] = [];
+      for (const existing of this.alternatives) {
+        for (const branch of branchFilters) {
+          combined.push([...existing, ...branch]);
+        }
+      }
+      this.alternatives = combined;
+    }
+
+    return this;
+  }
+
+  sortBy(propertyName: string, direction: SortDirection = 'ASCENDING'): this {
+    this.sorts.push({ propertyName, direction });
+    return this;
+  }
+
+  /**
+   * Chooses which properties HubSpot returns for each deal
+   */
+  select(properties: string[]): this {
+    this.properties = [...new Set(properties)];
+    return this;
+  }
+
+  /**
+   * Builds the search request, checking HubSpot's filter limits
+   *
+   * @throws Error if the query needs more filter groups or filters than HubSpot allows
+   */
+  toSearchRequest(): DealSearchRequest {
+    let filterGroups: SearchFilterGroup[];
+
+    if (this.alternatives.length > 0) {
+      filterGroups = this.alternatives.map(alternative => ({
+        filters: [...this.filters, ...alternative],
+      }));
+    } else {
+      filterGroups = this.filters.length > 0 ? [{ filters: [...this.filters] }] : [];
+    }
+
+    checkFilterLimits(filterGroups);
+
+    return {
+      filterGroups,
+      sorts: [...this.sorts],
+      properties: this.properties ? [...this.properties] : null,
+    };
+  }
+}
@@ -0,0 +1,229 @@
+import type { FiscalPeriod, QuarterInfo } from '../types.js';
+
+/**
+ * Fiscal calendar
+ *
+ * Quarters follow a fiscal year that can start in any month. By default each
+ * quarter is three calendar months. With a week pattern (4-4-5, 4-5-4 or
+ * 5-4-4) each quarter is 13 weeks split into periods of that many weeks; the
+ * fiscal year starts on the first Monday of the start month, and in years with
+ * a 53rd week the last period runs until the next fiscal year starts.
+ *
+ * Fiscal years are named after the calendar year they end in (a year starting
+ * February 2026 is FY2027), or the year they start in with
+ * FISCAL_YEAR_LABEL=start. A fiscal year starting in January with no week
+ * pattern is the calendar year, and quarters keep the "Q4 2025" label.
+ *
+ * Optional environment variables:
+ * - FISCAL_YEAR_START_MONTH: First month of the fiscal year, 1-12 (default: 1)
+ * - FISCAL_WEEK_PATTERN: 4-4-5, 4-5-4 or 5-4-4 (default: calendar months)
+ * - FISCAL_YEAR_LABEL: "end" or "start" (default: end)
+ */
+
+const WEEK_PATTERNS = ['4-4-5', '4-5-4', '5-4-4'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface FiscalCalendar {
+  startMonth: number;                 // 0-11
+  weekPattern: number[] | null;       // Weeks per period within a quarter, e.g. [4, 4, 5]
+  yearLabel: 'start' | 'end';
+}
+
+/**
+ * Reads the fiscal calendar from the environment
+ *
+ * @throws Error if a setting is invalid
+ */
+export function loadFiscalCalendar(): FiscalCalendar {
+  const startMonth = parseInt(process.env.FISCAL_YEAR_START_MONTH || '1', 10);
+  if (isNaN(startMonth) || startMonth < 1 || startMonth > 12) {
+    throw new Error(`FISCAL_YEAR_START_MONTH must be 1-12, got "${process.env.FISCAL_YEAR_START_MONTH}"`);
+  }
+
+  const pattern = process.env.FISCAL_WEEK_PATTERN?.trim();
+  if (pattern && !WEEK_PATTERNS.includes(pattern)) {
+    throw new Error(`FISCAL_WEEK_PATTERN must be one of ${WEEK_PATTERNS.join(', ')}, got "${pattern}"`);
+  }
+
+  const yearLabel = (process.env.FISCAL_YEAR_LABEL || 'end').trim().toLowerCase();
+  if (yearLabel !== 'start' && yearLabel !== 'end') {
+    throw new Error(`FISCAL_YEAR_LABEL must be "start" or "end", got "${process.env.FISCAL_YEAR_LABEL}"`);
+  }
+
+  return {
+    startMonth: startMonth - 1,
+    weekPattern: pattern ? pattern.split('-').map(Number) : null,
+    yearLabel,
+  };
+}
+
+function isCalendarYear(calendar: FiscalCalendar): boolean {
+  return calendar.startMonth === 0 && !calendar.weekPattern;
+}
+
+function endOfDay(date: Date): Date {
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function formatShortDate(date: Date, withYear: boolean): string {
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    ...(withYear ? { year: 'numeric' as const } : {}),
+  });
+}
+
+/**
+ * First day of the fiscal year that starts in the given calendar year
+ */
+function getFiscalYearStart(calendar: FiscalCalendar, startYear: number): Date {
+  const first = new Date(startYear, calendar.startMonth, 1);
+  if (!calendar.weekPattern) return first;
+
+  // Week-based years start on the first Monday of the start month
+  const daysUntilMonday = (8 - first.getDay()) % 7;
+  return addDays(first, daysUntilMonday);
+}
+
+/**
+ * Calendar year in which the fiscal year containing the date started
+ */
+function getFiscalStartYear(calendar: FiscalCalendar, date: Date): number {
+  const year = date.getFullYear();
+  return date >= getFiscalYearStart(calendar, year) ? year : year - 1;
+}
+
+function getFiscalYearName(calendar: FiscalCalendar, startYear: number): number {
+  if (calendar.yearLabel === 'start' || calendar.startMonth === 0) return startYear;
+  return startYear + 1;
+}
+
+function getStartYearForName(calendar: FiscalCalendar, fiscalYear: number): number {
+  if (calendar.yearLabel === 'start' || calendar.startMonth === 0) return fiscalYear;
+  return fiscalYear - 1;
+}
+
+/**
+ * Periods (fiscal months) of a quarter
+ */
+function getQuarterPeriods(calendar: FiscalCalendar, startYear: number, quarter: number): FiscalPeriod[] {
+  const yearStart = getFiscalYearStart(calendar, startYear);
+
+  if (!calendar.weekPattern) {
+    return [0, 1, 2].map(offset => {
+      const startDate = new Date(yearStart.getFullYear(), yearStart.getMonth() + (quarter - 1) * 3 + offset, 1);
+      const endDate = new Date(startDate.getFullYear(), startDate.getMonth() + 1, 0, 23, 59, 59, 999);
+      return {
+        label: startDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' }),
+        startDate,
+        endDate,
+      };
+    });
+  }
+
+  const nextYearStart = getFiscalYearStart(calendar, startYear + 1);
+  let startDate = addDays(yearStart, (quarter - 1) * 13 * 7);
+
+  return calendar.weekPattern.map((weeks, index) => {
+    const isLastOfYear = quarter === 4 && index === calendar.weekPattern!.length - 1;
+    const nextStart = isLastOfYear ? nextYearStart : addDays(startDate, weeks * 7);
+    const period = {
+      label: `Period ${(quarter - 1) * 3 + index + 1} (${formatShortDate(startDate, false)} - ${formatShortDate(addDays(nextStart, -1), true)})`,
+      startDate,
+      endDate: endOfDay(addDays(nextStart, -1)),
+    };
+    startDate = nextStart;
+    return period;
+  });
+}
+
+/**
+ * Builds a fiscal quarter
+ *
+ * @param fiscalYear - Fiscal year name, e.g. 2027 for FY2027
+ */
+export function getFiscalQuarter(calendar: FiscalCalendar, fiscalYear: number, quarter: number): QuarterInfo {
+  const startYear = getStartYearForName(calendar, fiscalYear);
+  const periods = getQuarterPeriods(calendar, startYear, quarter);
+
+  return {
+    year: fiscalYear,
+    quarter,
+    startDate: periods[0].startDate,
+    endDate: periods[periods.length - 1].endDate,
+    label: isCalendarYear(calendar) ? `Q${quarter} ${fiscalYear}` : `Q${quarter} FY${fiscalYear}`,
+    periods,
+  };
+}
+
+/**
+ * Fiscal quarter containing a date
+ */
+export function getFiscalQuarterForDate(calendar: FiscalCalendar, date: Date = new Date()): QuarterInfo {
+  const startYear = getFiscalStartYear(calendar, date);
+  const fiscalYear = getFiscalYearName(calendar, startYear);
+
+  for (let quarter = 1; quarter <= 4; quarter++) {
+    const info = getFiscalQuarter(calendar, fiscalYear, quarter);
+    if (date <= info.endDate) return info;
+  }
+  return getFiscalQuarter(calendar, fiscalYear, 4);
+}
+
+/**
+ * Quarter following the given one
+ */
+export function getNextFiscalQuarter(calendar: FiscalCalendar, quarter: QuarterInfo): QuarterInfo {
+  return getFiscalQuarterForDate(calendar, new Date(quarter.endDate.getTime() + DAY_MS / 2));
+}
+
+/**
+ * Custom date range, split into the fiscal periods it overlaps (clipped to the range)
+ */
+export function getFiscalRange(calendar: FiscalCalendar, startDate: Date, endDate: Date): QuarterInfo {
+  const end = endOfDay(endDate);
+  const periods: FiscalPeriod[] = [];
+  let quarter: QuarterInfo | null = getFiscalQuarterForDate(calendar, startDate);
+
+  while (quarter && quarter.startDate <= end) {
+    for (const period of quarter.periods) {
+      if (period.endDate < startDate || period.startDate > end) continue;
+      periods.push({
+        label: period.label,
+        startDate: period.startDate < startDate ? startDate : period.startDate,
+        endDate: period.endDate > end ? end : period.endDate,
+      });
+    }
+    quarter = getNextFiscalQuarter(calendar, quarter);
+  }
+
+  return {
+    year: getFiscalYearName(calendar, getFiscalStartYear(calendar, startDate)),
+    quarter: null,
+    startDate,
+    endDate: end,
+    label: `${formatShortDate(startDate, true)} - ${formatShortDate(end, true)}`,
+    periods,
+  };
+}
+
+/**
+ * Parses a --quarter value: "Q3" (current fiscal year), "Q3-2027", "2027-Q3" or "FY2027-Q3"
+ *
+ * @returns Fiscal year (null = current) and quarter, or null if the value isn't a quarter
+ */
+export function parseQuarterArg(value: string): { fiscalYear: number | null; quarter: number } | null {
+  const match = value.trim().match(/^(?:FY)?(\d{4})?[-\s]?Q([1-4])(?:[-\s]?(?:FY)?(\d{4}))?$/i);
+  if (!match || (match[1] && match[3])) return null;
+
+  const year = match[1] || match[3];
+  return { fiscalYear: year ? Number(year) : null, quarter: Number(match[2]) };
+}
@@ -0,0 +1,425 @@
+import type { ForecastSnapshot, ForecastSnapshotDeal, ForecastSnapshotSource } from './forecast-history.js';
+import {
+  FORECAST_CATEGORIES,
+  FORECAST_CATEGORY_LABELS,
+  type ForecastCategory,
+} from './forecast-categories.js';
+import { formatCurrency } from './currency.js';
+
+/**
+ * Forecast accuracy
+ *
+ * Compares saved forecast snapshots against actual closed-won ARR for a
+ * period. A snapshot's forecast for the period is the ARR of its deals with a
+ * close date in the period, leaving out Omitted deals.
+ *
+ * The waterfall explains how the forecast for the period moved between two
+ * snapshots: deals added, pulled in from a later period, pushed out, won,
+ * lost, removed (moved to a stage the forecast doesn't cover, or deleted) and
+ * amount changes on deals in both.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ForecastPeriod {
+  label: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface ActualDeal {
+  dealId: string;
+  dealName: string;
+  ownerId: string | null;
+  amount: number;
+}
+
+export type DealOutcome = 'won' | 'lost' | 'open' | 'deleted';
+
+export interface SnapshotAccuracy {
+  snapshotId: number;
+  runAt: Date;
+  source: ForecastSnapshotSource;
+  weekOfPeriod: number;            // 1 = first week of the period
+  forecastARR: number;
+  weightedARR: number | null;      // Weekly snapshots only
+  actualARR: number;
+  errorPercent: number | null;     // (forecast - actual) / actual
+}
+
+export interface RepAccuracy {
+  ownerId: string | null;
+  ownerName: string;
+  forecastARR: number;
+  actualARR: number;
+  wonFromForecastARR: number;      // Actual ARR from deals that were in the forecast
+  errorPercent: number | null;
+}
+
+export interface CategoryAccuracy {
+  category: ForecastCategory;
+  label: string;
+  forecastARR: number;
+  dealCount: number;
+  wonARR: number;                  // ARR of the category's deals that closed won in the period
+  hitRate: number | null;          // wonARR / forecastARR
+}
+
+export interface SnapshotSummary {
+  snapshotId: number;
+  runAt: Date;
+  source: ForecastSnapshotSource;
+}
+
+export interface ForecastAccuracyReport {
+  period: ForecastPeriod;
+  actualARR: number;
+  actualDeals: number;
+  byWeek: SnapshotAccuracy[];      // Last snapshot of each week, per source
+  reference: SnapshotSummary | null; // Snapshot used for the rep and category breakdowns
+  byRep: RepAccuracy[];
+  byCategory: CategoryAccuracy[];
+}
+
+export interface WaterfallDeal {
+  dealId: string;
+  dealName: string;
+  ownerName: string | null;
+  amount: number;                  // Change in forecast ARR (positive or negative)
+}
+
+export interface WaterfallStep {
+  label: string;
+  amount: number;
+  deals: WaterfallDeal[];
+}
+
+export interface ForecastWaterfall {
+  period: ForecastPeriod;
+  from: SnapshotSummary;
+  to: SnapshotSummary;
+  startARR: number;
+  endARR: number;
+  steps: WaterfallStep[];          // Added, pulled in, increased, decreased, pushed out, won, lost, removed
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isInPeriod(date: Date | null, period: ForecastPeriod): boolean {
+  return date !== null && date >= period.startDate && date <= period.endDate;
+}
+
+/**
+ * Deals in a snapshot forecast to close in the period (Omitted left out)
+ */
+export function getPeriodForecastDeals(snapshot: ForecastSnapshot, period: ForecastPeriod): ForecastSnapshotDeal[] {
+  return snapshot.deals.filter(deal => deal.forecastCategory !== 'omit' && isInPeriod(deal.closeDate, period));
+}
+
+function sumAmount(deals: Array<{ amount: number }>): number {
+  return deals.reduce((sum, deal) => sum + deal.amount, 0);
+}
+
+function errorPercent(forecast: number, actual: number): number | null {
+  return actual > 0 ? Math.round(((forecast - actual) / actual) * 1000) / 10 : null;
+}
+
+function summarize(snapshot: ForecastSnapshot): SnapshotSummary {
+  return { snapshotId: snapshot.snapshotId, runAt: snapshot.runAt, source: snapshot.source };
+}
+
+// ============================================================================
+// ACCURACY
+// ============================================================================
+
+/**
+ * Compares each snapshot's forecast for the period with actual closed-won ARR
+ *
+ * @param snapshots - Snapshots taken during the period, oldest first
+ * @param actuals - Deals closed won in the period
+ * @param reference - Snapshot for the rep and category breakdowns (default: the first one)
+ * @param ownerNames - Owner names for deals without one in the snapshot
+ */
+export function buildForecastAccuracy(
+  snapshots: ForecastSnapshot[],
+  actuals: ActualDeal[],
+  period: ForecastPeriod,
+  reference: ForecastSnapshot | null = snapshots[0] || null,
+  ownerNames: Map<string, string> = new Map()
+): ForecastAccuracyReport {
+  const actualARR = sumAmount(actuals);
+
+  // Keep the last snapshot of each week of the period, per source: quarterly
+  // and weekly snapshots cover different deals, so each is its own series
+  const weekly = new Map<string, { week: number; snapshot: ForecastSnapshot }>();
+  for (const snapshot of snapshots) {
+    const week = Math.floor((snapshot.runAt.getTime() - period.startDate.getTime()) / (7 * DAY_MS)) + 1;
+    weekly.set(`${snapshot.source}:${week}`, { week, snapshot });
+  }
+
+  const byWeek: SnapshotAccuracy[] = Array.from(weekly.values())
+    .sort((a, b) => a.snapshot.source.localeCompare(b.snapshot.source) || a.week - b.week)
+    .map(({ week, snapshot }) => {
+      const deals = getPeriodForecastDeals(snapshot, period);
+      const forecastARR = sumAmount(deals);
+      const weighted = snapshot.source === 'weekly'
+        ? deals.reduce((sum, deal) => sum + deal.amount * (deal.weight ?? 0), 0)
+        : null;
+
+      return {
+        snapshotId: snapshot.snapshotId,
+        runAt: snapshot.runAt,
+        source: snapshot.source,
+        weekOfPeriod: week,
+        forecastARR,
+        weightedARR: weighted,
+        actualARR,
+        errorPercent: errorPercent(forecastARR, actualARR),
+      };
+    });
+
+  const referenceDeals = reference ? getPeriodForecastDeals(reference, period) : [];
+  const actualById = new Map(actuals.map(deal => [deal.dealId, deal]));
+  const nameFor = (ownerId: string | null, fallback: string | null) =>
+    fallback || (ownerId ? ownerNames.get(ownerId) : null) || (ownerId ? 'Unknown Owner' : 'Unassigned');
+
+  // Reps from both the forecast and the actuals
+  const reps = new Map<string, RepAccuracy>();
+  const repFor = (ownerId: string | null, ownerName: string | null) => {
+    const key = ownerId || 'unassigned';
+    if (!reps.has(key)) {
+      reps.set(key, {
+        ownerId,
+        ownerName: nameFor(ownerId, ownerName),
+        forecastARR: 0,
+        actualARR: 0,
+        wonFromForecastARR: 0,
+        errorPercent: null,
+      });
+    }
+    return reps.get(key)!;
+  };
+
+  for (const deal of referenceDeals) {
+    const rep = repFor(deal.ownerId, deal.ownerName);
+    rep.forecastARR += deal.amount;
+    const actual = actualById.get(deal.dealId);
+    if (actual) rep.wonFromForecastARR += actual.amount;
+  }
+  for (const deal of actuals) {
+    repFor(deal.ownerId, null).actualARR += deal.amount;
+  }
+
+  const byRep = Array.from(reps.values())
+    .map(rep => ({ ...rep, errorPercent: errorPercent(rep.forecastARR, rep.actualARR) }))
+    .sort((a, b) => b.actualARR - a.actualARR || b.forecastARR - a.forecastARR);
+
+  const byCategory: CategoryAccuracy[] = FORECAST_CATEGORIES
+    .filter(category => category !== 'omit')
+    .map(category => {
+      const deals = referenceDeals.filter(deal => (deal.forecastCategory ?? 'pipeline') === category);
+      const forecastARR = sumAmount(deals);
+      const wonARR = deals.reduce((sum, deal) => sum + (actualById.get(deal.dealId)?.amount ?? 0), 0);
+
+      return {
+        category,
+        label: FORECAST_CATEGORY_LABELS[category],
+        forecastARR,
+        dealCount: deals.length,
+        wonARR,
+        hitRate: forecastARR > 0 ? wonARR / forecastARR : null,
+      };
+    });
+
+  return {
+    period,
+    actualARR,
+    actualDeals: actuals.length,
+    byWeek,
+    reference: reference ? summarize(reference) : null,
+    byRep,
+    byCategory,
+  };
+}
+
+// ============================================================================
+// WATERFALL
+// ============================================================================
+
+/**
+ * Explains how the period's forecast moved between two snapshots
+ *
+ * @param outcomes - Current outcome of every deal that dropped out of the
+ *                   forecast between the snapshots
+ * @param ownerNames - Owner names for deals without one in the snapshot
+ */
+export function buildForecastWaterfall(
+  from: ForecastSnapshot,
+  to: ForecastSnapshot,
+  period: ForecastPeriod,
+  outcomes: Map<string, DealOutcome>,
+  ownerNames: Map<string, string> = new Map()
+): ForecastWaterfall {
+  const before = new Map(getPeriodForecastDeals(from, period).map(deal => [deal.dealId, deal]));
+  const after = new Map(getPeriodForecastDeals(to, period).map(deal => [deal.dealId, deal]));
+  const fromAll = new Map(from.deals.map(deal => [deal.dealId, deal]));
+  const toAll = new Map(to.deals.map(deal => [deal.dealId, deal]));
+
+  const steps: Record<string, WaterfallStep> = {
+    added: { label: 'Added', amount: 0, deals: [] },
+    pulledIn: { label: 'Pulled in', amount: 0, deals: [] },
+    increased: { label: 'Amount increased', amount: 0, deals: [] },
+    decreased: { label: 'Amount decreased', amount: 0, deals: [] },
+    pushedOut: { label: 'Pushed out', amount: 0, deals: [] },
+    won: { label: 'Won', amount: 0, deals: [] },
+    lost: { label: 'Lost', amount: 0, deals: [] },
+    removed: { label: 'Removed', amount: 0, deals: [] },
+  };
+
+  const record = (step: WaterfallStep, deal: ForecastSnapshotDeal, amount: number) => {
+    step.amount += amount;
+    const ownerName = deal.ownerName || (deal.ownerId ? ownerNames.get(deal.ownerId) || 'Unknown Owner' : null);
+    step.deals.push({ dealId: deal.dealId, dealName: deal.dealName, ownerName, amount });
+  };
+
+  for (const deal of after.values()) {
+    const previous = before.get(deal.dealId);
+    if (!previous) {
+      // In the earlier snapshot with a later close date = pulled in
+      const earlier = fromAll.get(deal.dealId);
+      const wasLater = earlier?.closeDate && earlier.closeDate > period.endDate;
+      record(wasLater ? steps.pulledIn : steps.added, deal, deal.amount);
+    } else if (deal.amount !== previous.amount) {
+      record(deal.amount > previous.amount ? steps.increased : steps.decreased, deal, deal.amount - previous.amount);
+    }
+  }
+
+  for (const deal of before.values()) {
+    if (after.has(deal.dealId)) continue;
+
+    const later = toAll.get(deal.dealId);
+    if (later?.closeDate && later.closeDate > period.endDate) {
+      record(steps.pushedOut, deal, -deal.amount);
+      continue;
+    }
+
+    const outcome = later && later.forecastCategory !== 'omit' ? 'open' : outcomes.get(deal.dealId) ?? 'deleted';
+    if (outcome === 'won') record(steps.won, deal, -deal.amount);
+    else if (outcome === 'lost') record(steps.lost, deal, -deal.amount);
+    else record(steps.removed, deal, -deal.amount);
+  }
+
+  return {
+    period,
+    from: summarize(from),
+    to: summarize(to),
+    startARR: sumAmount([...before.values()]),
+    endARR: sumAmount([...after.values()]),
+    steps: Object.values(steps),
+  };
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+function formatError(value: number | null): string {
+  if (value === null) return 'N/A';
+  return `${value > 0 ? '+' : ''}${value}%`;
+}
+
+function formatSnapshot(snapshot: SnapshotSummary): string {
+  return `#${snapshot.snapshotId} ${snapshot.source} (${snapshot.runAt.toLocaleDateString('en-US')})`;
+}
+
+/**
+ * Formats the accuracy report as report lines
+ */
+export function generateAccuracyText(report: ForecastAccuracyReport): string[] {
+  const lines: string[] = [];
+
+  lines.push(`💰 Actual closed-won ARR in ${report.period.label}: ${formatCurrency(report.actualARR)} (${report.actualDeals} deals)`);
+  lines.push('');
+
+  const sources = [...new Set(report.byWeek.map(point => point.source))];
+  for (const source of sources) {
+    lines.push(`📅 BY WEEK OF QUARTER - ${source} snapshots (last snapshot each week; + = over-forecast)`);
+    lines.push('Week'.padEnd(8) + 'Snapshot'.padEnd(34) + 'Forecast'.padEnd(16) + 'Weighted'.padEnd(16) + 'Error');
+    lines.push('─'.repeat(80));
+    for (const point of report.byWeek.filter(point => point.source === source)) {
+      lines.push(
+        String(point.weekOfPeriod).padEnd(8) +
+        formatSnapshot(point).padEnd(34) +
+        formatCurrency(point.forecastARR).padEnd(16) +
+        (point.weightedARR === null ? '—' : formatCurrency(point.weightedARR)).padEnd(16) +
+        formatError(point.errorPercent)
+      );
+    }
+    lines.push('');
+  }
+
+  if (!report.reference) {
+    return lines;
+  }
+
+  lines.push(`👥 BY REP (forecast from snapshot ${formatSnapshot(report.reference)})`);
+  lines.push('Rep'.padEnd(24) + 'Forecast'.padEnd(16) + 'Actual'.padEnd(16) + 'Won from forecast'.padEnd(20) + 'Error');
+  lines.push('─'.repeat(80));
+  for (const rep of report.byRep) {
+    lines.push(
+      rep.ownerName.substring(0, 22).padEnd(24) +
+      formatCurrency(rep.forecastARR).padEnd(16) +
+      formatCurrency(rep.actualARR).padEnd(16) +
+      formatCurrency(rep.wonFromForecastARR).padEnd(20) +
+      formatError(rep.errorPercent)
+    );
+  }
+  lines.push('');
+
+  lines.push(`🗂️  BY CATEGORY (share of each category's ARR that closed won)`);
+  lines.push('Category'.padEnd(16) + 'Deals'.padEnd(8) + 'Forecast'.padEnd(16) + 'Won'.padEnd(16) + 'Hit rate');
+  lines.push('─'.repeat(80));
+  for (const category of report.byCategory) {
+    lines.push(
+      category.label.padEnd(16) +
+      String(category.dealCount).padEnd(8) +
+      formatCurrency(category.forecastARR).padEnd(16) +
+      formatCurrency(category.wonARR).padEnd(16) +
+      (category.hitRate === null ? 'N/A' : `${Math.round(category.hitRate * 100)}%`)
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Formats a waterfall as report lines
+ */
+export function generateWaterfallText(waterfall: ForecastWaterfall): string[] {
+  const lines: string[] = [];
+
+  lines.push(`From ${formatSnapshot(waterfall.from)} to ${formatSnapshot(waterfall.to)} - forecast for ${waterfall.period.label}`);
+  lines.push('');
+  lines.push(`   Starting forecast:`.padEnd(28) + formatCurrency(waterfall.startARR));
+
+  for (const step of waterfall.steps) {
+    const sign = step.amount > 0 ? '+' : step.amount < 0 ? '-' : ' ';
+    lines.push(`   ${sign} ${step.label} (${step.deals.length}):`.padEnd(28) + `${sign.trim()}${formatCurrency(Math.abs(step.amount))}`);
+  }
+
+  lines.push(`   = Ending forecast:`.padEnd(28) + formatCurrency(waterfall.endARR));
+  lines.push('');
+
+  for (const step of waterfall.steps) {
+    if (step.deals.length === 0) continue;
+    lines.push(`${step.label}:`);
+    for (const deal of step.deals) {
+      const sign = deal.amount >= 0 ? '+' : '-';
+      lines.push(`   • ${deal.dealName} (${deal.ownerName || 'Unassigned'}) ${sign}${formatCurrency(Math.abs(deal.amount))}`);
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,133 @@
+import type { RegisteredStage } from './pipeline-registry.js';
+import type { ForecastDeal, FiscalPeriod } from '../types.js';
+
+/**
+ * Forecast categories
+ *
+ * Splits the forecast into HubSpot's forecast categories (Commit, Best Case,
+ * Pipeline, Omit). A deal's category is the one its rep set in HubSpot
+ * (hs_manual_forecast_category); deals without one fall back to the
+ * forecastCategory of their stage in config/pipeline.json, then to Pipeline.
+ *
+ * The rolled-up forecast numbers are cumulative, the way they're reviewed:
+ * Commit, Best Case (Commit + Best Case) and Pipeline (everything not omitted).
+ */
+
+export type ForecastCategory = 'commit' | 'best_case' | 'pipeline' | 'omit';
+export type ForecastCategorySource = 'rep' | 'stage' | 'default';
+
+export const FORECAST_CATEGORIES: ForecastCategory[] = ['commit', 'best_case', 'pipeline', 'omit'];
+
+export const FORECAST_CATEGORY_LABELS: Record<ForecastCategory, string> = {
+  commit: 'Commit',
+  best_case: 'Best Case',
+  pipeline: 'Pipeline',
+  omit: 'Omitted',
+};
+
+// hs_manual_forecast_category values (CLOSED only applies to closed deals, so
+// it falls back to the stage mapping)
+const HUBSPOT_CATEGORIES: Record<string, ForecastCategory> = {
+  COMMIT: 'commit',
+  BEST_CASE: 'best_case',
+  PIPELINE: 'pipeline',
+  OMIT: 'omit',
+};
+
+export interface CategoryRollup {
+  name: string;        // Owner name or period label
+  totalARR: number;
+  dealCount: number;
+}
+
+export interface ForecastCategorySummary {
+  category: ForecastCategory;
+  label: string;
+  totalARR: number;
+  dealCount: number;
+  hubspotForecastAmount: number;    // Sum of hs_forecast_amount (amount × forecast probability)
+  repSetCount: number;              // Deals whose rep set the category in HubSpot
+  byOwner: CategoryRollup[];        // Highest ARR first
+  byMonth: CategoryRollup[];        // One entry per fiscal month / period
+}
+
+export interface ForecastCategoryReport {
+  categories: ForecastCategorySummary[];
+  commitARR: number;
+  bestCaseARR: number;              // Commit + Best Case
+  pipelineARR: number;              // Every category except Omitted
+  omittedARR: number;
+  stageFallbackCount: number;       // Deals categorised from their stage
+  defaultCount: number;             // Deals with no rep or stage category
+}
+
+/**
+ * Resolves a deal's forecast category: rep-set in HubSpot, then the stage
+ * mapping, then Pipeline
+ */
+export function resolveForecastCategory(
+  hubspotCategory: string | null | undefined,
+  stage: RegisteredStage | undefined
+): { category: ForecastCategory; source: ForecastCategorySource } {
+  const repCategory = hubspotCategory ? HUBSPOT_CATEGORIES[hubspotCategory.trim().toUpperCase()] : undefined;
+  if (repCategory) return { category: repCategory, source: 'rep' };
+  if (stage?.forecastCategory) return { category: stage.forecastCategory, source: 'stage' };
+  return { category: 'pipeline', source: 'default' };
+}
+
+function sumARR(deals: ForecastDeal[]): number {
+  return deals.reduce((sum, deal) => sum + deal.amount, 0);
+}
+
+/**
+ * Builds category totals with rollups by rep and by month
+ */
+export function buildForecastCategoryReport(
+  deals: ForecastDeal[],
+  periods: FiscalPeriod[]
+): ForecastCategoryReport {
+  const categories = FORECAST_CATEGORIES.map(category => {
+    const categoryDeals = deals.filter(deal => deal.forecastCategory === category);
+
+    const ownerGroups = new Map<string, ForecastDeal[]>();
+    for (const deal of categoryDeals) {
+      const owner = deal.dealOwnerName || 'Unassigned';
+      ownerGroups.set(owner, [...(ownerGroups.get(owner) || []), deal]);
+    }
+
+    const byOwner = Array.from(ownerGroups.entries())
+      .map(([name, ownerDeals]) => ({ name, totalARR: sumARR(ownerDeals), dealCount: ownerDeals.length }))
+      .sort((a, b) => b.totalARR - a.totalARR);
+
+    const byMonth = periods.map(period => {
+      const monthDeals = categoryDeals.filter(deal =>
+        deal.closeDate >= period.startDate && deal.closeDate <= period.endDate
+      );
+      return { name: period.label, totalARR: sumARR(monthDeals), dealCount: monthDeals.length };
+    });
+
+    return {
+      category,
+      label: FORECAST_CATEGORY_LABELS[category],
+      totalARR: sumARR(categoryDeals),
+      dealCount: categoryDeals.length,
+      hubspotForecastAmount: categoryDeals.reduce((sum, deal) => sum + (deal.hubspotForecastAmount ?? 0), 0),
+      repSetCount: categoryDeals.filter(deal => deal.forecastCategorySource === 'rep').length,
+      byOwner,
+      byMonth,
+    };
+  });
+
+  const totalFor = (category: ForecastCategory) =>
+    categories.find(summary => summary.category === category)!.totalARR;
+
+  return {
+    categories,
+    commitARR: totalFor('commit'),
+    bestCaseARR: totalFor('commit') + totalFor('best_case'),
+    pipelineARR: totalFor('commit') + totalFor('best_case') + totalFor('pipeline'),
+    omittedARR: totalFor('omit'),
+    stageFallbackCount: deals.filter(deal => deal.forecastCategorySource === 'stage').length,
+    defaultCount: deals.filter(deal => deal.forecastCategorySource === 'default').length,
+  };
+}
@@ -0,0 +1,241 @@
+import {
+  insert,
+  queryAll,
+  queryOne,
+  transaction,
+  type HistoryStore,
+} from './history-store.js';
+import type { ForecastCategory } from './forecast-categories.js';
+import type { RevenueBasis } from './revenue-basis.js';
+
+/**
+ * Forecast snapshots
+ *
+ * Every quarterly and weekly forecast run is saved with its deals (amount,
+ * close date, owner, category, weight) so forecast-accuracy can later compare
+ * what was forecast against what actually closed. Each snapshot records the
+ * revenue basis and reporting currency its amounts were in; snapshots saved
+ * before those were recorded used amount in USD.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ForecastSnapshotSource = 'quarterly' | 'weekly';
+
+export interface ForecastSnapshotDeal {
+  dealId: string;
+  dealName: string;
+  stageId: string;
+  stageName: string;
+  ownerId: string | null;
+  ownerName: string | null;
+  amount: number;
+  closeDate: Date | null;
+  forecastCategory: ForecastCategory | null;
+  weight: number | null;        // Stage weight used for the weighted pipeline (weekly only)
+}
+
+export interface ForecastSnapshot {
+  snapshotId: number;
+  runAt: Date;
+  source: ForecastSnapshotSource;
+  revenueBasis: RevenueBasis;   // Deal property the amounts came from
+  reportingCurrency: string;    // Currency the amounts were converted to
+  periodLabel: string;          // Quarter or week the run reported on
+  periodStart: Date;
+  periodEnd: Date;
+  totalARR: number;
+  weightedARR: number | null;
+  deals: ForecastSnapshotDeal[];
+}
+
+export type NewForecastSnapshot = Omit<ForecastSnapshot, 'snapshotId'>;
+
+interface SnapshotRow {
+  id: number;
+  run_at: string;
+  source: ForecastSnapshotSource;
+  revenue_basis: RevenueBasis | null;
+  reporting_currency: string | null;
+  period_label: string;
+  period_start: string;
+  period_end: string;
+  total_arr: number;
+  weighted_arr: number | null;
+}
+
+interface SnapshotDealRow {
+  deal_id: string;
+  deal_name: string;
+  stage_id: string;
+  stage_name: string;
+  owner_id: string | null;
+  owner_name: string | null;
+  amount: number;
+  close_date: string | null;
+  forecast_category: ForecastCategory | null;
+  weight: number | null;
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * Creates the forecast snapshot tables if they don't exist yet
+ */
+export function ensureForecastSchema(store: HistoryStore): void {
+  store.db.run(`
+    CREATE TABLE IF NOT EXISTS forecast_snapshots (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_at TEXT NOT NULL,
+      source TEXT NOT NULL,
+      period_label TEXT NOT NULL,
+      period_start TEXT NOT NULL,
+      period_end TEXT NOT NULL,
+      total_arr REAL NOT NULL,
+      weighted_arr REAL
+    );
+
+    CREATE TABLE IF NOT EXISTS forecast_snapshot_deals (
+      snapshot_id INTEGER NOT NULL REFERENCES forecast_snapshots(id) ON DELETE CASCADE,
+      deal_id TEXT NOT NULL,
+      deal_name TEXT NOT NULL,
+      stage_id TEXT NOT NULL,
+      stage_name TEXT NOT NULL,
+      owner_id TEXT,
+      owner_name TEXT,
+      amount REAL NOT NULL,
+      close_date TEXT,
+      forecast_category TEXT,
+      weight REAL,
+      PRIMARY KEY (snapshot_id, deal_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_forecast_snapshots_run_at ON forecast_snapshots(run_at);
+  `);
+
+  // Databases created before the revenue basis and currency were recorded lack the columns
+  const columns = queryAll<{ name: string }>(store, 'PRAGMA table_info(forecast_snapshots)');
+  if (!columns.some(column => column.name === 'revenue_basis')) {
+    store.db.run('ALTER TABLE forecast_snapshots ADD COLUMN revenue_basis TEXT');
+  }
+  if (!columns.some(column => column.name === 'reporting_currency')) {
+    store.db.run('ALTER TABLE forecast_snapshots ADD COLUMN reporting_currency TEXT');
+  }
+}
+
+/**
+ * Saves a forecast run and its deals
+ *
+ * @returns The new snapshot ID
+ */
+export function saveForecastSnapshot(store: HistoryStore, snapshot: NewForecastSnapshot): number {
+  ensureForecastSchema(store);
+
+  return transaction(store, () => {
+    const snapshotId = insert(
+      store,
+      `INSERT INTO forecast_snapshots
+        (run_at, source, revenue_basis, reporting_currency, period_label, period_start, period_end,
+         total_arr, weighted_arr)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        snapshot.runAt.toISOString(),
+        snapshot.source,
+        snapshot.revenueBasis,
+        snapshot.reportingCurrency,
+        snapshot.periodLabel,
+        snapshot.periodStart.toISOString(),
+        snapshot.periodEnd.toISOString(),
+        snapshot.totalARR,
+        snapshot.weightedARR,
+      ]
+    );
+
+    const statement = store.db.prepare(
+      `INSERT INTO forecast_snapshot_deals
+        (snapshot_id, deal_id, deal_name, stage_id, stage_name, owner_id, owner_name,
+         amount, close_date, forecast_category, weight)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    try {
+      for (const deal of snapshot.deals) {
+        statement.run([
+          snapshotId,
+          deal.dealId,
+          deal.dealName,
+          deal.stageId,
+          deal.stageName,
+          deal.ownerId,
+          deal.ownerName,
+          deal.amount,
+          deal.closeDate ? deal.closeDate.toISOString() : null,
+          deal.forecastCategory,
+          deal.weight,
+        ]);
+      }
+    } finally {
+      statement.free();
+    }
+
+    return snapshotId;
+  });
+}
+
+function toSnapshot(store: HistoryStore, row: SnapshotRow): ForecastSnapshot {
+  const deals = queryAll<SnapshotDealRow>(
+    store,
+    'SELECT * FROM forecast_snapshot_deals WHERE snapshot_id = ? ORDER BY deal_name',
+    [row.id]
+  );
+
+  return {
+    snapshotId: row.id,
+    runAt: new Date(row.run_at),
+    source: row.source,
+    revenueBasis: row.revenue_basis ?? 'amount',
+    reportingCurrency: row.reporting_currency ?? 'USD',
+    periodLabel: row.period_label,
+    periodStart: new Date(row.period_start),
+    periodEnd: new Date(row.period_end),
+    totalARR: row.total_arr,
+    weightedARR: row.weighted_arr,
+    deals: deals.map(deal => ({
+      dealId: deal.deal_id,
+      dealName: deal.deal_name,
+      stageId: deal.stage_id,
+      stageName: deal.stage_name,
+      ownerId: deal.owner_id,
+      ownerName: deal.owner_name,
+      amount: deal.amount,
+      closeDate: deal.close_date ? new Date(deal.close_date) : null,
+      forecastCategory: deal.forecast_category,
+      weight: deal.weight,
+    })),
+  };
+}
+
+/**
+ * Loads a saved snapshot, or null if it doesn't exist
+ */
+export function loadForecastSnapshot(store: HistoryStore, snapshotId: number): ForecastSnapshot | null {
+  ensureForecastSchema(store);
+  const row = queryOne<SnapshotRow>(store, 'SELECT * FROM forecast_snapshots WHERE id = ?', [snapshotId]);
+  return row ? toSnapshot(store, row) : null;
+}
+
+/**
+ * Loads every snapshot taken within [start, end], oldest first
+ */
+export function loadForecastSnapshotsBetween(store: HistoryStore, start: Date, end: Date): ForecastSnapshot[] {
+  ensureForecastSchema(store);
+  return queryAll<SnapshotRow>(
+    store,
+    'SELECT * FROM forecast_snapshots WHERE run_at >= ? AND run_at <= ? ORDER BY run_at',
+    [start.toISOString(), end.toISOString()]
+  ).map(row => toSnapshot(store, row));
+}
@@ -0,0 +1,102 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import initSqlJs, { type Database, type SqlValue } from 'sql.js';
+
+/**
+ * Local SQLite history store
+ *
+ * Reports that need to remember earlier runs (hygiene snapshots, forecast
+ * snapshots) share one SQLite file. The database is loaded into memory with
+ * sql.js and written back to disk by saveHistoryStore().
+ *
+ * Optional environment variables:
+ * - HISTORY_DB_PATH: Database file location (default: data/history.sqlite)
+ */
+
+const DEFAULT_DB_PATH = 'data/history.sqlite';
+
+export interface HistoryStore {
+  db: Database;
+  path: string;
+}
+
+/**
+ * Opens the history database, creating an empty one if the file doesn't exist yet
+ */
+export async function openHistoryStore(
+  dbPath: string = process.env.HISTORY_DB_PATH || DEFAULT_DB_PATH
+): Promise<HistoryStore> {
+  const SQL = await initSqlJs();
+
+  let db: Database;
+  try {
+    const data = await fs.readFile(dbPath);
+    db = new SQL.Database(data);
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') {
+      throw error;
+    }
+    db = new SQL.Database();
+  }
+
+  db.run('PRAGMA foreign_keys = ON');
+  return { db, path: dbPath };
+}
+
+/**
+ * Writes the in-memory database back to disk
+ */
+export async function saveHistoryStore(store: HistoryStore): Promise<void> {
+  await fs.mkdir(path.dirname(store.path), { recursive: true });
+  await fs.writeFile(store.path, Buffer.from(store.db.export()));
+}
+
+/**
+ * Runs a query and returns every row as an object keyed by column name
+ */
+export function queryAll<T>(store: HistoryStore, sql: string, params: SqlValue[] = []): T[] {
+  const statement = store.db.prepare(sql);
+  const rows: T[] = [];
+
+  try {
+    statement.bind(params);
+    while (statement.step()) {
+      rows.push(statement.getAsObject() as T);
+    }
+  } finally {
+    statement.free();
+  }
+
+  return rows;
+}
+
+/**
+ * Runs a query and returns the first row, or null if there are none
+ */
+export function queryOne<T>(store: HistoryStore, sql: string, params: SqlValue[] = []): T | null {
+  return queryAll<T>(store, sql, params)[0] || null;
+}
+
+/**
+ * Runs an INSERT and returns the new row ID
+ */
+export function insert(store: HistoryStore, sql: string, params: SqlValue[] = []): number {
+  store.db.run(sql, params);
+  const row = queryOne<{ id: number }>(store, 'SELECT last_insert_rowid() AS id');
+  return row ? Number(row.id) : 0;
+}
+
+/**
+ * Runs the callback inside a transaction, rolling back if it throws
+ */
+export function transaction<T>(store: HistoryStore, callback: () => T): T {
+  store.db.run('BEGIN');
+  try {
+    const result = callback();
+    store.db.run('COMMIT');
+    return result;
+  } catch (error) {
+    store.db.run('ROLLBACK');
+    throw error;
+  }
+}
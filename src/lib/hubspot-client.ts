@@ -0,0 +1,300 @@
+/**
+ * Shared HubSpot HTTP client
+ *
+ * Every HubSpot API call should go through hubspotRequest(), which:
+ * - Throttles requests to stay under the private-app burst limit, plus the
+ *   separate per-second limit on search endpoints
+ * - Retries 429 responses (honouring Retry-After) and 5xx responses with
+ *   jittered exponential backoff; requests marked idempotent: false (e.g.
+ *   creates) only retry 429s, since a 5xx or dropped connection may come after
+ *   HubSpot already made the change
+ * - Raises typed HubSpotApiError subclasses instead of bare Errors
+ *
+ * Optional environment variables:
+ * - HUBSPOT_REQUESTS_PER_10S: Burst limit for non-search calls (default: 100)
+ * - HUBSPOT_SEARCH_REQUESTS_PER_SECOND: Limit for search calls (default: 4)
+ * - HUBSPOT_MAX_RETRIES: Retries per request before giving up (default: 5)
+ */
+
+const HUBSPOT_API_BASE = 'https://api.hubapi.com';
+
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30_000;
+
+const DEFAULT_MAX_RETRIES = 5;
+
+/**
+ * Reads a whole-number setting, falling back to the default when it's unset,
+ * not a number or below the minimum
+ */
+function readIntEnv(name: string, fallback: number, min: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) || value < min ? fallback : value;
+}
+
+const MAX_RETRIES = readIntEnv('HUBSPOT_MAX_RETRIES', DEFAULT_MAX_RETRIES, 0);
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+/**
+ * Raised when HubSpot returns a non-OK response, or can't be reached
+ */
+export class HubSpotApiError extends Error {
+  readonly status: number;         // 0 when the request never got a response
+  readonly category: string | null;
+  readonly correlationId: string | null;
+  readonly responseBody: string;
+
+  constructor(message: string, status: number, responseBody: string) {
+    super(message);
+    this.name = 'HubSpotApiError';
+    this.status = status;
+    this.responseBody = responseBody;
+
+    // HubSpot error bodies look like { status, message, correlationId, category }
+    let parsed: any = null;
+    try {
+      parsed = JSON.parse(responseBody);
+    } catch {
+      // Non-JSON body (e.g. an HTML gateway error page)
+    }
+    this.category = parsed?.category || null;
+    this.correlationId = parsed?.correlationId || null;
+  }
+
+  /**
+   * Whether the request may succeed if sent again
+   */
+  get isRetryable(): boolean {
+    return this.status === 429 || this.status >= 500;
+  }
+}
+
+/**
+ * 401/403 - the access token is missing, expired or lacks a scope
+ */
+export class HubSpotAuthError extends HubSpotApiError {
+  constructor(message: string, status: number, responseBody: string) {
+    super(message, status, responseBody);
+    this.name = 'HubSpotAuthError';
+  }
+}
+
+/**
+ * 404 - the requested object does not exist
+ */
+export class HubSpotNotFoundError extends HubSpotApiError {
+  constructor(message: string, status: number, responseBody: string) {
+    super(message, status, responseBody);
+    this.name = 'HubSpotNotFoundError';
+  }
+}
+
+/**
+ * 429 - still rate limited after all retries were used up
+ */
+export class HubSpotRateLimitError extends HubSpotApiError {
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, status: number, responseBody: string, retryAfterMs: number | null) {
+    super(message, status, responseBody);
+    this.name = 'HubSpotRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// ============================================================================
+// RATE LIMITING
+// ============================================================================
+
+/**
+ * Sliding-window rate limiter: allows at most maxRequests per intervalMs.
+ * Callers are served in the order they called acquire().
+ */
+class RateLimiter {
+  private timestamps: number[] = [];
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly maxRequests: number,
+    private readonly intervalMs: number
+  ) {}
+
+  acquire(): Promise<void> {
+    const slot = this.queue.then(() => this.waitForSlot());
+    this.queue = slot.catch(() => undefined);
+    return slot;
+  }
+
+  private async waitForSlot(): Promise<void> {
+    while (true) {
+      const now = Date.now();
+      this.timestamps = this.timestamps.filter(t => now - t < this.intervalMs);
+
+      if (this.timestamps.length < this.maxRequests) {
+        this.timestamps.push(now);
+        return;
+      }
+
+      await sleep(this.intervalMs - (now - this.timestamps[0]));
+    }
+  }
+}
+
+// Private apps on Free/Starter get 100 requests per 10 seconds (190 on Pro/Enterprise)
+const generalLimiter = new RateLimiter(
+  readIntEnv('HUBSPOT_REQUESTS_PER_10S', 100, 1),
+  10_000
+);
+
+// Search endpoints have their own 5 requests/second limit; stay just under it
+const searchLimiter = new RateLimiter(
+  readIntEnv('HUBSPOT_SEARCH_REQUESTS_PER_SECOND', 4, 1),
+  1_000
+);
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Parses a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function createApiError(
+  description: string,
+  status: number,
+  responseBody: string,
+  retryAfterMs: number | null
+): HubSpotApiError {
+  const message = `${description}: ${status} ${responseBody}`;
+
+  if (status === 401 || status === 403) {
+    return new HubSpotAuthError(message, status, responseBody);
+  }
+  if (status === 404) {
+    return new HubSpotNotFoundError(message, status, responseBody);
+  }
+  if (status === 429) {
+    return new HubSpotRateLimitError(message, status, responseBody, retryAfterMs);
+  }
+  return new HubSpotApiError(message, status, responseBody);
+}
+
+// ============================================================================
+// REQUESTS
+// ============================================================================
+
+export interface HubSpotRequestOptions {
+  method?: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+  body?: unknown;
+  query?: Record<string, string | number | boolean | undefined>;
+  description?: string; // Used in error messages (e.g., "Failed to search deals")
+  idempotent?: boolean;  // false = safe to send only once, so 5xx and network errors aren't retried (default: true)
+}
+
+/**
+ * Sends a request to the HubSpot API and returns the parsed JSON response
+ *
+ * @param accessToken - Private app access token
+ * @param path - API path (e.g., "/crm/v3/pipelines/deals")
+ * @param options - Method, JSON body, query parameters and error description
+ * @throws HubSpotApiError (or a subclass) once retries are exhausted
+ */
+export async function hubspotRequest<T>(
+  accessToken: string,
+  path: string,
+  options: HubSpotRequestOptions = {}
+): Promise<T> {
+  const {
+    method = 'GET',
+    body,
+    query,
+    description = `HubSpot request ${method} ${path} failed`,
+    idempotent = true,
+  } = options;
+
+  const url = new URL(`${HUBSPOT_API_BASE}${path}`);
+  for (const [key, value] of Object.entries(query || {})) {
+    if (value !== undefined) {
+      url.searchParams.set(key, String(value));
+    }
+  }
+
+  const limiter = path.endsWith('/search') ? searchLimiter : generalLimiter;
+
+  for (let attempt = 0; ; attempt++) {
+    await limiter.acquire();
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        ...(body !== undefined ? { body: JSON.stringify(body) } : {}),
+      });
+    } catch (error) {
+      // Network-level failure (DNS, reset connection) - retry like a 5xx
+      if (!idempotent || attempt >= MAX_RETRIES) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new HubSpotApiError(`${description}: network error - ${reason}`, 0, '');
+      }
+      await sleep(backoffDelay(attempt));
+      continue;
+    }
+
+    if (response.ok) {
+      if (response.status === 204) {
+        return undefined as T;
+      }
+      return (await response.json()) as T;
+    }
+
+    const responseBody = await response.text();
+    const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+    const error = createApiError(description, response.status, responseBody, retryAfterMs);
+
+    // A 429 was rejected before HubSpot did anything, so it's safe to resend either way
+    const retryable = error.isRetryable && (idempotent || response.status === 429);
+    if (!retryable || attempt >= MAX_RETRIES) {
+      throw error;
+    }
+
+    const delay = retryAfterMs !== null
+      ? retryAfterMs + backoffDelay(0)
+      : backoffDelay(attempt);
+
+    console.warn(
+      `  ⏳ HubSpot returned ${response.status} for ${method} ${path}; retrying in ${Math.round(delay / 100) / 10}s (attempt ${attempt + 1}/${MAX_RETRIES})`
+    );
+    await sleep(delay);
+  }
+}
@@ -0,0 +1,375 @@
+import type { DealHygieneReport, HygieneSummary } from '../types.js';
+import {
+  insert,
+  queryAll,
+  queryOne,
+  transaction,
+  type HistoryStore,
+} from './history-store.js';
+
+/**
+ * Deal hygiene run history
+ *
+ * Every hygiene run is saved as a snapshot (one row per run plus one row per
+ * deal) so the next run can report what changed instead of repeating the
+ * same list.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SnapshotMissingField {
+  property: string;
+  label: string;
+  reason: string | null;
+}
+
+export interface HygieneSnapshotDeal {
+  dealId: string;
+  dealName: string;
+  stageId: string;
+  stageName: string;
+  pipelineId: string;
+  ownerId: string | null;
+  ownerName: string | null;
+  completenessScore: number;
+  isBlocking: boolean;
+  blockingReasons: string[];
+  missingFields: SnapshotMissingField[];
+  closeDate: string | null; // Formatted close date as shown in the report
+  isCloseDatePastDue: boolean;
+}
+
+export interface HygieneSnapshot {
+  runId: number;
+  runAt: Date;
+  totalDeals: number;
+  averageCompleteness: number;
+  pastDueCount: number;
+  blockingCount: number;
+  dealsWithIssuesCount: number;
+  deals: HygieneSnapshotDeal[];
+}
+
+export interface FieldChange {
+  dealId: string;
+  dealName: string;
+  ownerName: string | null;
+  fields: SnapshotMissingField[];
+}
+
+export interface HygieneRunDiff {
+  previousRunAt: Date;
+  averageCompletenessChange: number;    // Percentage points since the previous run
+  newlyMissing: FieldChange[];          // Fields that were fine last run and now fail
+  fixed: FieldChange[];                 // Fields that failed last run and now pass
+  newlyPastDue: HygieneSnapshotDeal[];  // Close date passed since the previous run
+  leftReport: HygieneSnapshotDeal[];    // In the previous run but not this one
+  newDeals: HygieneSnapshotDeal[];      // In this run but not the previous one
+}
+
+interface RunRow {
+  id: number;
+  run_at: string;
+  total_deals: number;
+  average_completeness: number;
+  past_due_count: number;
+  blocking_count: number;
+  deals_with_issues: number;
+}
+
+interface RunDealRow {
+  deal_id: string;
+  deal_name: string;
+  stage_id: string;
+  stage_name: string;
+  pipeline_id: string;
+  owner_id: string | null;
+  owner_name: string | null;
+  completeness_score: number;
+  is_blocking: number;
+  blocking_reasons: string;
+  missing_fields: string;
+  close_date: string | null;
+  is_past_due: number;
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * Creates the hygiene tables if they don't exist yet
+ */
+export function ensureHygieneSchema(store: HistoryStore): void {
+  store.db.run(`
+    CREATE TABLE IF NOT EXISTS hygiene_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_at TEXT NOT NULL,
+      total_deals INTEGER NOT NULL,
+      average_completeness REAL NOT NULL,
+      past_due_count INTEGER NOT NULL,
+      blocking_count INTEGER NOT NULL,
+      deals_with_issues INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS hygiene_run_deals (
+      run_id INTEGER NOT NULL REFERENCES hygiene_runs(id) ON DELETE CASCADE,
+      deal_id TEXT NOT NULL,
+      deal_name TEXT NOT NULL,
+      stage_id TEXT NOT NULL,
+      stage_name TEXT NOT NULL,
+      pipeline_id TEXT NOT NULL,
+      owner_id TEXT,
+      owner_name TEXT,
+      completeness_score REAL NOT NULL,
+      is_blocking INTEGER NOT NULL,
+      blocking_reasons TEXT NOT NULL,
+      missing_fields TEXT NOT NULL,
+      close_date TEXT,
+      is_past_due INTEGER NOT NULL,
+      PRIMARY KEY (run_id, deal_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_hygiene_runs_run_at ON hygiene_runs(run_at);
+  `);
+}
+
+/**
+ * Saves a hygiene run and its per-deal rows
+ *
+ * @returns The new run ID
+ */
+export function saveHygieneRun(
+  store: HistoryStore,
+  summary: HygieneSummary,
+  reports: DealHygieneReport[],
+  runAt: Date = new Date()
+): number {
+  ensureHygieneSchema(store);
+
+  return transaction(store, () => {
+    const runId = insert(
+      store,
+      `INSERT INTO hygiene_runs
+        (run_at, total_deals, average_completeness, past_due_count, blocking_count, deals_with_issues)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        runAt.toISOString(),
+        summary.totalDeals,
+        summary.averageCompleteness,
+        summary.pastDueCount,
+        summary.dealsByCompleteness.blocking.length,
+        summary.dealsWithIssues.length,
+      ]
+    );
+
+    const statement = store.db.prepare(
+      `INSERT INTO hygiene_run_deals
+        (run_id, deal_id, deal_name, stage_id, stage_name, pipeline_id, owner_id, owner_name,
+         completeness_score, is_blocking, blocking_reasons, missing_fields, close_date, is_past_due)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    try {
+      for (const report of reports) {
+        const missingFields: SnapshotMissingField[] = report.missingProperties.map(check => ({
+          property: check.propertyName,
+          label: check.label,
+          reason: check.failureReason,
+        }));
+
+        statement.run([
+          runId,
+          report.dealId,
+          report.dealName,
+          report.dealStage,
+          report.dealStageName,
+          report.dealPipeline,
+          report.dealOwner,
+          report.dealOwnerName,
+          report.completenessScore,
+          report.isBlocking ? 1 : 0,
+          JSON.stringify(report.blockingReasons),
+          JSON.stringify(missingFields),
+          report.closeDateString,
+          report.isCloseDatePastDue ? 1 : 0,
+        ]);
+      }
+    } finally {
+      statement.free();
+    }
+
+    return runId;
+  });
+}
+
+function toSnapshot(store: HistoryStore, run: RunRow): HygieneSnapshot {
+  const rows = queryAll<RunDealRow>(
+    store,
+    'SELECT * FROM hygiene_run_deals WHERE run_id = ? ORDER BY deal_name',
+    [run.id]
+  );
+
+  return {
+    runId: run.id,
+    runAt: new Date(run.run_at),
+    totalDeals: run.total_deals,
+    averageCompleteness: run.average_completeness,
+    pastDueCount: run.past_due_count,
+    blockingCount: run.blocking_count,
+    dealsWithIssuesCount: run.deals_with_issues,
+    deals: rows.map(row => ({
+      dealId: row.deal_id,
+      dealName: row.deal_name,
+      stageId: row.stage_id,
+      stageName: row.stage_name,
+      pipelineId: row.pipeline_id,
+      ownerId: row.owner_id,
+      ownerName: row.owner_name,
+      completenessScore: row.completeness_score,
+      isBlocking: row.is_blocking === 1,
+      blockingReasons: JSON.parse(row.blocking_reasons),
+      missingFields: JSON.parse(row.missing_fields),
+      closeDate: row.close_date,
+      isCloseDatePastDue: row.is_past_due === 1,
+    })),
+  };
+}
+
+/**
+ * Loads a saved run, or null if it doesn't exist
+ */
+export function loadHygieneRun(store: HistoryStore, runId: number): HygieneSnapshot | null {
+  ensureHygieneSchema(store);
+  const run = queryOne<RunRow>(store, 'SELECT * FROM hygiene_runs WHERE id = ?', [runId]);
+  return run ? toSnapshot(store, run) : null;
+}
+
+/**
+ * Loads the most recent run before the given one (or the latest run if no ID
+ * is given), or null if there isn't one
+ */
+export function loadPreviousHygieneRun(store: HistoryStore, beforeRunId?: number): HygieneSnapshot | null {
+  ensureHygieneSchema(store);
+  const run = beforeRunId === undefined
+    ? queryOne<RunRow>(store, 'SELECT * FROM hygiene_runs ORDER BY id DESC LIMIT 1')
+    : queryOne<RunRow>(store, 'SELECT * FROM hygiene_runs WHERE id < ? ORDER BY id DESC LIMIT 1', [beforeRunId]);
+  return run ? toSnapshot(store, run) : null;
+}
+
+/**
+ * Loads every run saved on or after the given date, oldest first
+ */
+export function loadHygieneRunsSince(store: HistoryStore, since: Date): HygieneSnapshot[] {
+  ensureHygieneSchema(store);
+  return queryAll<RunRow>(
+    store,
+    'SELECT * FROM hygiene_runs WHERE run_at >= ? ORDER BY run_at',
+    [since.toISOString()]
+  ).map(run => toSnapshot(store, run));
+}
+
+// ============================================================================
+// DIFFS
+// ============================================================================
+
+/**
+ * Compares two runs deal by deal
+ */
+export function diffHygieneRuns(previous: HygieneSnapshot, current: HygieneSnapshot): HygieneRunDiff {
+  const previousDeals = new Map(previous.deals.map(deal => [deal.dealId, deal]));
+  const currentDeals = new Map(current.deals.map(deal => [deal.dealId, deal]));
+
+  const newlyMissing: FieldChange[] = [];
+  const fixed: FieldChange[] = [];
+  const newlyPastDue: HygieneSnapshotDeal[] = [];
+
+  for (const deal of current.deals) {
+    const before = previousDeals.get(deal.dealId);
+    if (!before) continue;
+
+    const missingBefore = new Set(before.missingFields.map(field => field.property));
+    const missingNow = new Set(deal.missingFields.map(field => field.property));
+
+    const added = deal.missingFields.filter(field => !missingBefore.has(field.property));
+    const removed = before.missingFields.filter(field => !missingNow.has(field.property));
+
+    if (added.length > 0) {
+      newlyMissing.push({ dealId: deal.dealId, dealName: deal.dealName, ownerName: deal.ownerName, fields: added });
+    }
+    if (removed.length > 0) {
+      fixed.push({ dealId: deal.dealId, dealName: deal.dealName, ownerName: deal.ownerName, fields: removed });
+    }
+    if (deal.isCloseDatePastDue && !before.isCloseDatePastDue) {
+      newlyPastDue.push(deal);
+    }
+  }
+
+  return {
+    previousRunAt: previous.runAt,
+    averageCompletenessChange: Math.round((current.averageCompleteness - previous.averageCompleteness) * 10) / 10,
+    newlyMissing,
+    fixed,
+    newlyPastDue,
+    leftReport: previous.deals.filter(deal => !currentDeals.has(deal.dealId)),
+    newDeals: current.deals.filter(deal => !previousDeals.has(deal.dealId)),
+  };
+}
+
+/**
+ * Formats a run diff as report lines for the "what changed" section
+ */
+export function generateChangesText(diff: HygieneRunDiff): string[] {
+  const lines: string[] = [];
+  const change = diff.averageCompletenessChange;
+  const changeLabel = change > 0 ? `up ${change}` : change < 0 ? `down ${Math.abs(change)}` : 'unchanged at 0';
+
+  lines.push(`Since last run (${diff.previousRunAt.toLocaleString('en-US')}):`);
+  lines.push(`   Overall health ${changeLabel} point(s)`);
+  lines.push('');
+
+  const listFieldChanges = (title: string, changes: FieldChange[]) => {
+    const fieldCount = changes.reduce((sum, c) => sum + c.fields.length, 0);
+    lines.push(`${title} (${fieldCount} field(s) on ${changes.length} deal(s)):`);
+    if (changes.length === 0) {
+      lines.push('   None');
+    }
+    changes.forEach(c => {
+      lines.push(`   • "${c.dealName}" [ID: ${c.dealId}] - ${c.fields.map(f => f.label).join(', ')} (Owner: ${c.ownerName || 'Unassigned'})`);
+    });
+    lines.push('');
+  };
+
+  listFieldChanges('✅ Fields fixed', diff.fixed);
+  listFieldChanges('❌ Newly missing fields', diff.newlyMissing);
+
+  lines.push(`🚨 Newly past due (${diff.newlyPastDue.length} deal(s)):`);
+  if (diff.newlyPastDue.length === 0) {
+    lines.push('   None');
+  }
+  diff.newlyPastDue.forEach(deal => {
+    lines.push(`   • "${deal.dealName}" [ID: ${deal.dealId}] - Close Date: ${deal.closeDate} (Owner: ${deal.ownerName || 'Unassigned'})`);
+  });
+  lines.push('');
+
+  lines.push(`📤 Left the pipeline/report (${diff.leftReport.length} deal(s) - moved stage, closed or deleted):`);
+  if (diff.leftReport.length === 0) {
+    lines.push('   None');
+  }
+  diff.leftReport.forEach(deal => {
+    lines.push(`   • "${deal.dealName}" [ID: ${deal.dealId}] - was in ${deal.stageName}`);
+  });
+  lines.push('');
+
+  lines.push(`📥 New to the report (${diff.newDeals.length} deal(s)):`);
+  if (diff.newDeals.length === 0) {
+    lines.push('   None');
+  }
+  diff.newDeals.forEach(deal => {
+    lines.push(`   • "${deal.dealName}" [ID: ${deal.dealId}] - ${deal.stageName}, ${deal.missingFields.length} missing field(s)`);
+  });
+
+  return lines;
+}
@@ -0,0 +1,373 @@
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+
+/**
+ * Deal hygiene rules
+ *
+ * Required properties are defined in a JSON rule file rather than in code so
+ * RevOps can change them without a release. Rules are layered:
+ *
+ *   defaults  →  pipelines[<label or ID>].rules  →  pipelines[...].stages[<label or ID>]
+ *
+ * A later layer replaces an earlier rule for the same property; set
+ * "disabled": true to drop an inherited rule for one pipeline or stage.
+ *
+ * The "scoring" section sets the completeness tier cut-offs and which rule
+ * severities make a deal "blocking" when they fail.
+ *
+ * Optional environment variables:
+ * - HYGIENE_RULES_PATH: Rule file location (default: config/hygiene-rules.json)
+ */
+
+const DEFAULT_RULES_PATH = 'config/hygiene-rules.json';
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const validatorSchema = z.discriminatedUnion('type', [
+  // Value is present (not null, empty string, whitespace or empty list)
+  z.object({ type: z.literal('nonEmpty') }),
+
+  // Value matches a regular expression
+  z.object({
+    type: z.literal('regex'),
+    pattern: z.string(),
+    flags: z.string().optional(),
+  }),
+
+  // Value (or every value of a multi-select) is one of the allowed options
+  z.object({
+    type: z.literal('enum'),
+    values: z.array(z.string()).min(1),
+  }),
+
+  // Value parses as a number within the range
+  z.object({
+    type: z.literal('numberRange'),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    exclusiveMin: z.boolean().optional(),
+    exclusiveMax: z.boolean().optional(),
+  }),
+
+  // Value is a date that hasn't passed yet
+  z.object({
+    type: z.literal('dateInFuture'),
+    allowToday: z.boolean().optional(),
+  }),
+
+  // Semicolon-separated multi-value has at least `min` entries
+  z.object({
+    type: z.literal('minArrayLength'),
+    min: z.number().int().min(1),
+  }),
+]);
+
+const ruleSchema = z.object({
+  property: z.string().min(1),
+  label: z.string().min(1),
+  validator: validatorSchema.default({ type: 'nonEmpty' }),
+  severity: z.enum(['critical', 'warning', 'info']).default('warning'),
+  weight: z.number().positive().default(1),
+  disabled: z.boolean().optional(),
+});
+
+const scoringSchema = z.object({
+  tiers: z
+    .object({
+      excellent: z.number().min(0).max(100).default(90),
+      good: z.number().min(0).max(100).default(70),
+    })
+    .default({ excellent: 90, good: 70 }),
+  blockingSeverities: z.array(z.enum(['critical', 'warning', 'info'])).default(['critical']),
+});
+
+const rulesFileSchema = z.object({
+  scoring: scoringSchema.default({
+    tiers: { excellent: 90, good: 70 },
+    blockingSeverities: ['critical'],
+  }),
+  defaults: z.array(ruleSchema).default([]),
+  pipelines: z
+    .record(
+      z.string(),
+      z.object({
+        rules: z.array(ruleSchema).default([]),
+        stages: z.record(z.string(), z.array(ruleSchema)).default({}),
+      })
+    )
+    .default({}),
+});
+
+export type RuleValidator = z.infer<typeof validatorSchema>;
+export type RuleSeverity = 'critical' | 'warning' | 'info';
+export type HygieneRule = z.infer<typeof ruleSchema>;
+export type HygieneScoringConfig = z.infer<typeof scoringSchema>;
+export type HygieneRulesConfig = z.infer<typeof rulesFileSchema>;
+
+export interface RuleResult {
+  passed: boolean;
+  reason: string | null; // Why the value failed (null when it passed)
+}
+
+export interface HygieneScore {
+  completenessScore: number; // Weighted percentage (0-100)
+  isBlocking: boolean;       // A rule with a blocking severity failed
+  blockingReasons: string[]; // Labels of the failed blocking rules
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Loads and validates the hygiene rule file
+ *
+ * @throws Error describing every schema problem if the file is invalid
+ */
+export async function loadHygieneRules(
+  rulesPath: string = process.env.HYGIENE_RULES_PATH || DEFAULT_RULES_PATH
+): Promise<HygieneRulesConfig> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(rulesPath, 'utf-8');
+  } catch (error) {
+    throw new Error(`Could not read hygiene rules from ${rulesPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid hygiene rules in ${rulesPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = rulesFileSchema.safeParse(json);
+  if (!parsed.success) {
+    const problems = parsed.error.issues
+      .map(issue => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid hygiene rules in ${rulesPath}:\n${problems}`);
+  }
+
+  const { tiers } = parsed.data.scoring;
+  if (tiers.good > tiers.excellent) {
+    throw new Error(`Invalid hygiene rules in ${rulesPath}: scoring.tiers.good must not exceed scoring.tiers.excellent`);
+  }
+
+  // Surface bad regexes at load time rather than mid-report
+  const allRules = [
+    ...parsed.data.defaults,
+    ...Object.values(parsed.data.pipelines).flatMap(p => [
+      ...p.rules,
+      ...Object.values(p.stages).flat(),
+    ]),
+  ];
+  for (const rule of allRules) {
+    if (rule.validator.type === 'regex') {
+      try {
+        new RegExp(rule.validator.pattern, rule.validator.flags);
+      } catch (error) {
+        throw new Error(`Invalid regex for "${rule.label}" in ${rulesPath}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Finds a config entry keyed by ID or by label (case-insensitive)
+ */
+function findByIdOrLabel<T>(entries: Record<string, T>, id: string, label: string): T | undefined {
+  const normalizedLabel = label.toLowerCase().trim();
+  for (const [key, value] of Object.entries(entries)) {
+    if (key === id || key.toLowerCase().trim() === normalizedLabel) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolves the rules that apply to a deal in a given pipeline and stage
+ */
+export function resolveRules(
+  config: HygieneRulesConfig,
+  pipeline: { id: string; label: string },
+  stage: { id: string; label: string }
+): HygieneRule[] {
+  const layers: HygieneRule[][] = [config.defaults];
+
+  const pipelineConfig = findByIdOrLabel(config.pipelines, pipeline.id, pipeline.label);
+  if (pipelineConfig) {
+    layers.push(pipelineConfig.rules);
+
+    const stageRules = findByIdOrLabel(pipelineConfig.stages, stage.id, stage.label);
+    if (stageRules) {
+      layers.push(stageRules);
+    }
+  }
+
+  // Later layers replace earlier rules for the same property, keeping first-seen order
+  const byProperty = new Map<string, HygieneRule>();
+  for (const layer of layers) {
+    for (const rule of layer) {
+      byProperty.set(rule.property, rule);
+    }
+  }
+
+  return Array.from(byProperty.values()).filter(rule => !rule.disabled);
+}
+
+/**
+ * Lists every property referenced by any rule, for building search property lists
+ */
+export function getRuleProperties(config: HygieneRulesConfig): string[] {
+  const properties = new Set<string>();
+
+  for (const rule of config.defaults) properties.add(rule.property);
+  for (const pipelineConfig of Object.values(config.pipelines)) {
+    for (const rule of pipelineConfig.rules) properties.add(rule.property);
+    for (const stageRules of Object.values(pipelineConfig.stages)) {
+      for (const rule of stageRules) properties.add(rule.property);
+    }
+  }
+
+  return Array.from(properties);
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Checks if a value is empty. A value is empty if it's:
+ * - null or undefined
+ * - an empty or whitespace-only string
+ * - an empty array
+ */
+export function isEmptyValue(value: any): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string' && value.trim() === '') return true;
+  if (Array.isArray(value) && value.length === 0) return true;
+  return false;
+}
+
+/**
+ * Splits a HubSpot multi-value property ("a;b;c") into its values
+ */
+function splitMultiValue(value: any): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  return String(value)
+    .split(';')
+    .map(v => v.trim())
+    .filter(v => v);
+}
+
+/**
+ * Evaluates one rule against a property value
+ */
+export function evaluateRule(rule: HygieneRule, value: any, now: Date = new Date()): RuleResult {
+  if (isEmptyValue(value)) {
+    return { passed: false, reason: 'Missing' };
+  }
+
+  const validator = rule.validator;
+
+  switch (validator.type) {
+    case 'nonEmpty':
+      return { passed: true, reason: null };
+
+    case 'regex': {
+      const regex = new RegExp(validator.pattern, validator.flags);
+      return regex.test(String(value))
+        ? { passed: true, reason: null }
+        : { passed: false, reason: `Does not match ${validator.pattern}` };
+    }
+
+    case 'enum': {
+      const invalid = splitMultiValue(value).filter(v => !validator.values.includes(v));
+      return invalid.length === 0
+        ? { passed: true, reason: null }
+        : { passed: false, reason: `Unexpected value: ${invalid.join(', ')}` };
+    }
+
+    case 'numberRange': {
+      const number = parseFloat(value);
+      if (isNaN(number)) {
+        return { passed: false, reason: 'Not a number' };
+      }
+      if (validator.min !== undefined) {
+        const tooLow = validator.exclusiveMin ? number <= validator.min : number < validator.min;
+        if (tooLow) {
+          return { passed: false, reason: `Must be ${validator.exclusiveMin ? 'greater than' : 'at least'} ${validator.min}` };
+        }
+      }
+      if (validator.max !== undefined) {
+        const tooHigh = validator.exclusiveMax ? number >= validator.max : number > validator.max;
+        if (tooHigh) {
+          return { passed: false, reason: `Must be ${validator.exclusiveMax ? 'less than' : 'at most'} ${validator.max}` };
+        }
+      }
+      return { passed: true, reason: null };
+    }
+
+    case 'dateInFuture': {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        return { passed: false, reason: 'Not a date' };
+      }
+      const cutoff = new Date(now);
+      if (validator.allowToday) {
+        cutoff.setHours(0, 0, 0, 0);
+      }
+      return date >= cutoff
+        ? { passed: true, reason: null }
+        : { passed: false, reason: 'Date is in the past' };
+    }
+
+    case 'minArrayLength': {
+      const count = splitMultiValue(value).length;
+      return count >= validator.min
+        ? { passed: true, reason: null }
+        : { passed: false, reason: `Needs at least ${validator.min} value(s)` };
+    }
+  }
+}
+
+/**
+ * Formats a failed check for reports: "Amount (Must be greater than 0)", or
+ * just the label when the value is simply missing
+ */
+export function describeFailedCheck(check: { label: string; failureReason: string | null }): string {
+  if (!check.failureReason || check.failureReason === 'Missing') {
+    return check.label;
+  }
+  return `${check.label} (${check.failureReason})`;
+}
+
+/**
+ * Scores a deal's rule checks. Each rule contributes its weight, so critical
+ * fields such as Amount or Close Date move the score more than nice-to-haves.
+ */
+export function scoreChecks(
+  checks: Array<{ label: string; isMissing: boolean; severity: RuleSeverity; weight: number }>,
+  scoring: HygieneScoringConfig
+): HygieneScore {
+  const totalWeight = checks.reduce((sum, check) => sum + check.weight, 0);
+  const presentWeight = checks
+    .filter(check => !check.isMissing)
+    .reduce((sum, check) => sum + check.weight, 0);
+
+  const blockingReasons = checks
+    .filter(check => check.isMissing && scoring.blockingSeverities.includes(check.severity))
+    .map(check => check.label);
+
+  return {
+    completenessScore: totalWeight > 0 ? Math.round((presentWeight / totalWeight) * 100) : 100,
+    isBlocking: blockingReasons.length > 0,
+    blockingReasons,
+  };
+}
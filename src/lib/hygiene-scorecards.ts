@@ -0,0 +1,238 @@
+import type { HistoryStore } from './history-store.js';
+import { loadHygieneRunsSince, type HygieneSnapshot } from './hygiene-history.js';
+
+/**
+ * Per-owner hygiene scorecards
+ *
+ * Built entirely from saved hygiene runs, so no HubSpot calls are needed.
+ * Current numbers come from the latest run; time-to-fix and the weekly trend
+ * come from every run in the scorecard window.
+ *
+ * Time to fix is measured from the first run in the window where a field
+ * failed to the first later run where it passed. Fields that were already
+ * missing in the window's first run are measured from that run, so their time
+ * to fix is a lower bound, and deals that leave the report before being fixed
+ * are not counted.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNASSIGNED_KEY = 'unassigned';
+
+export interface WeeklyTrendPoint {
+  weekEnding: Date;
+  averageCompleteness: number | null; // null when the owner had no deals that week
+}
+
+export interface OwnerScorecard {
+  ownerId: string | null;
+  ownerName: string;
+  dealCount: number;
+  averageCompleteness: number;
+  blockingCount: number;
+  pastDueCount: number;
+  fixesInWindow: number;
+  medianDaysToFix: number | null; // null when nothing was fixed in the window
+  trend: WeeklyTrendPoint[];      // Oldest week first
+}
+
+export interface ScorecardReport {
+  generatedAt: Date;
+  latestRunAt: Date;
+  weeks: number;
+  runCount: number;
+  scorecards: OwnerScorecard[];
+}
+
+function ownerKey(ownerId: string | null): string {
+  return ownerId || UNASSIGNED_KEY;
+}
+
+function average(numbers: number[]): number {
+  if (numbers.length === 0) return 0;
+  return Math.round((numbers.reduce((sum, n) => sum + n, 0) / numbers.length) * 10) / 10;
+}
+
+/**
+ * Calculates median of an array of numbers
+ */
+function calculateMedian(numbers: number[]): number {
+  if (numbers.length === 0) return 0;
+
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+
+  if (sorted.length % 2 === 0) {
+    return (sorted[mid - 1] + sorted[mid]) / 2;
+  } else {
+    return sorted[mid];
+  }
+}
+
+/**
+ * Collects fix durations (in days) per owner by walking the runs in order
+ */
+function collectFixDurations(runs: HygieneSnapshot[]): Map<string, number[]> {
+  const durations = new Map<string, number[]>();
+  const firstSeenMissing = new Map<string, Map<string, Date>>(); // dealId → property → first failing run
+
+  for (const run of runs) {
+    for (const deal of run.deals) {
+      const missingNow = new Set(deal.missingFields.map(field => field.property));
+
+      if (!firstSeenMissing.has(deal.dealId)) {
+        firstSeenMissing.set(deal.dealId, new Map());
+      }
+      const openFields = firstSeenMissing.get(deal.dealId)!;
+
+      for (const [property, since] of openFields) {
+        if (missingNow.has(property)) continue;
+
+        const owner = ownerKey(deal.ownerId);
+        if (!durations.has(owner)) {
+          durations.set(owner, []);
+        }
+        durations.get(owner)!.push((run.runAt.getTime() - since.getTime()) / DAY_MS);
+        openFields.delete(property);
+      }
+
+      for (const property of missingNow) {
+        if (!openFields.has(property)) {
+          openFields.set(property, run.runAt);
+        }
+      }
+    }
+  }
+
+  return durations;
+}
+
+/**
+ * Average completeness per owner in the last run of each week, oldest week first
+ */
+function collectWeeklyTrend(runs: HygieneSnapshot[], now: Date, weeks: number): Map<string, WeeklyTrendPoint[]> {
+  const trends = new Map<string, WeeklyTrendPoint[]>();
+  const owners = new Set(runs.flatMap(run => run.deals.map(deal => ownerKey(deal.ownerId))));
+
+  for (const owner of owners) {
+    trends.set(owner, []);
+  }
+
+  for (let week = weeks - 1; week >= 0; week--) {
+    const weekEnding = new Date(now.getTime() - week * 7 * DAY_MS);
+    const weekStart = new Date(weekEnding.getTime() - 7 * DAY_MS);
+    const runsInWeek = runs.filter(run => run.runAt > weekStart && run.runAt <= weekEnding);
+    const lastRun = runsInWeek[runsInWeek.length - 1];
+
+    for (const owner of owners) {
+      const scores = lastRun
+        ? lastRun.deals.filter(deal => ownerKey(deal.ownerId) === owner).map(deal => deal.completenessScore)
+        : [];
+      trends.get(owner)!.push({
+        weekEnding,
+        averageCompleteness: scores.length > 0 ? average(scores) : null,
+      });
+    }
+  }
+
+  return trends;
+}
+
+/**
+ * Builds a scorecard for every owner in the latest saved run
+ *
+ * @param weeks - Size of the trend and time-to-fix window (default 4)
+ * @returns null if no hygiene runs are saved in the window
+ */
+export function buildOwnerScorecards(
+  store: HistoryStore,
+  options: { weeks?: number; now?: Date } = {}
+): ScorecardReport | null {
+  const weeks = options.weeks ?? 4;
+  const now = options.now ?? new Date();
+  const runs = loadHygieneRunsSince(store, new Date(now.getTime() - weeks * 7 * DAY_MS));
+
+  if (runs.length === 0) {
+    return null;
+  }
+
+  const latest = runs[runs.length - 1];
+  const fixDurations = collectFixDurations(runs);
+  const trends = collectWeeklyTrend(runs, now, weeks);
+
+  const dealsByOwner = new Map<string, HygieneSnapshot['deals']>();
+  for (const deal of latest.deals) {
+    const key = ownerKey(deal.ownerId);
+    if (!dealsByOwner.has(key)) {
+      dealsByOwner.set(key, []);
+    }
+    dealsByOwner.get(key)!.push(deal);
+  }
+
+  const scorecards: OwnerScorecard[] = Array.from(dealsByOwner.entries()).map(([key, deals]) => {
+    const fixes = fixDurations.get(key) || [];
+    return {
+      ownerId: deals[0].ownerId,
+      ownerName: deals[0].ownerName || 'Unassigned',
+      dealCount: deals.length,
+      averageCompleteness: average(deals.map(deal => deal.completenessScore)),
+      blockingCount: deals.filter(deal => deal.isBlocking).length,
+      pastDueCount: deals.filter(deal => deal.isCloseDatePastDue).length,
+      fixesInWindow: fixes.length,
+      medianDaysToFix: fixes.length > 0 ? Math.round(calculateMedian(fixes) * 10) / 10 : null,
+      trend: trends.get(key) || [],
+    };
+  });
+
+  // Lowest completeness first so the owners who need help are at the top
+  scorecards.sort((a, b) => a.averageCompleteness - b.averageCompleteness || a.ownerName.localeCompare(b.ownerName));
+
+  return {
+    generatedAt: now,
+    latestRunAt: latest.runAt,
+    weeks,
+    runCount: runs.length,
+    scorecards,
+  };
+}
+
+/**
+ * Formats a trend as "72% → 75% → — → 84% (▲ 12)"
+ */
+function formatTrend(trend: WeeklyTrendPoint[]): string {
+  const points = trend.map(point => point.averageCompleteness === null ? '—' : `${point.averageCompleteness}%`);
+  const known = trend.filter(point => point.averageCompleteness !== null);
+
+  if (known.length < 2) {
+    return points.join(' → ');
+  }
+
+  const change = Math.round((known[known.length - 1].averageCompleteness! - known[0].averageCompleteness!) * 10) / 10;
+  const direction = change > 0 ? `▲ ${change}` : change < 0 ? `▼ ${Math.abs(change)}` : '■ 0';
+  return `${points.join(' → ')} (${direction})`;
+}
+
+/**
+ * Formats the scorecards as report lines
+ */
+export function generateScorecardText(report: ScorecardReport): string[] {
+  const lines: string[] = [];
+
+  lines.push(`Based on ${report.runCount} saved run(s) over the last ${report.weeks} week(s); latest run ${report.latestRunAt.toLocaleString('en-US')}`);
+  lines.push('');
+
+  report.scorecards.forEach((card, index) => {
+    const timeToFix = card.medianDaysToFix === null
+      ? 'no fixes in window'
+      : `${card.medianDaysToFix} day(s) median (${card.fixesInWindow} fix(es))`;
+
+    lines.push(`${index + 1}. 👤 ${card.ownerName} - ${card.dealCount} deal(s)`);
+    lines.push(`   📈 Avg Completeness: ${card.averageCompleteness}%`);
+    lines.push(`   ⛔ Blocking Deals: ${card.blockingCount}`);
+    lines.push(`   🚨 Past-Due Close Dates: ${card.pastDueCount}`);
+    lines.push(`   🛠️  Time to Fix: ${timeToFix}`);
+    lines.push(`   📊 ${report.weeks}-Week Trend: ${formatTrend(card.trend)}`);
+    lines.push('');
+  });
+
+  return lines;
+}
@@ -0,0 +1,277 @@
+import { hubspotRequest } from './hubspot-client.js';
+import { describeFailedCheck } from './hygiene-rules.js';
+import type { OwnerDirectory } from './owner-directory.js';
+import type { DealHygieneReport, HygieneSummary } from '../types.js';
+
+/**
+ * Hygiene task write-back
+ *
+ * Opt-in mode that turns hygiene gaps into HubSpot tasks so reps see them in
+ * their task queue. Each task is assigned to the deal owner, associated with
+ * the deal, and tagged with "[deal:<id>]" in the subject so later runs can
+ * find it and skip deals that already have an open hygiene task.
+ *
+ * Optional environment variables:
+ * - HYGIENE_TASK_DUE_DAYS: Days from now until the task is due (default: 2)
+ */
+
+const TASK_SUBJECT_PREFIX = '[Deal Hygiene]';
+const TASK_SEARCH_PAGE_SIZE = 100;
+const DEFAULT_DUE_DAYS = 2;
+
+// HubSpot-defined association type for task → deal
+const TASK_TO_DEAL_ASSOCIATION_TYPE_ID = 216;
+
+export interface PlannedTask {
+  dealId: string;
+  dealName: string;
+  ownerId: string | null;   // null when the deal has no active owner
+  ownerName: string;
+  subject: string;
+  body: string;
+  priority: 'HIGH' | 'MEDIUM';
+  dueDate: Date;
+}
+
+export interface TaskSyncResult {
+  dryRun: boolean;
+  planned: PlannedTask[];                                // Tasks that were (or would be) created
+  skipped: Array<{ dealId: string; dealName: string; existingTaskId: string }>; // Open task already exists
+  created: Array<{ dealId: string; taskId: string }>;
+  failed: Array<{ dealId: string; dealName: string; error: string }>;
+}
+
+interface TaskSearchPage {
+  results: Array<{ id: string; properties: Record<string, string | null> }>;
+  paging?: {
+    next?: {
+      after: string;
+    };
+  };
+}
+
+export type TaskMode = 'off' | 'dry-run' | 'create';
+
+/**
+ * Reads the task mode from command-line flags:
+ *   --create-tasks            create tasks in HubSpot
+ *   --create-tasks --dry-run  preview the tasks without writing (--dry-run alone does the same)
+ */
+export function parseTaskMode(args: string[]): TaskMode {
+  if (args.includes('--dry-run')) return 'dry-run';
+  if (args.includes('--create-tasks')) return 'create';
+  return 'off';
+}
+
+/**
+ * Builds the subject used to recognise a deal's hygiene task on later runs
+ */
+function buildTaskSubject(deal: DealHygieneReport): string {
+  return `${TASK_SUBJECT_PREFIX} Update "${deal.dealName}" [deal:${deal.dealId}]`;
+}
+
+/**
+ * Extracts the deal ID from a hygiene task subject, or null if it isn't one
+ */
+function parseTaskDealId(subject: string | null): string | null {
+  if (!subject || !subject.startsWith(TASK_SUBJECT_PREFIX)) return null;
+  const match = subject.match(/\[deal:(\d+)\]\s*$/);
+  return match ? match[1] : null;
+}
+
+function buildTaskBody(deal: DealHygieneReport): string {
+  const lines: string[] = ['This deal is missing information needed for reporting:', ''];
+
+  if (deal.missingProperties.length > 0) {
+    lines.push('Missing or invalid fields:');
+    deal.missingProperties.forEach(check => lines.push(`- ${describeFailedCheck(check)}`));
+  }
+
+  if (deal.isCloseDatePastDue && deal.closeDateString) {
+    lines.push('', `Close date is past due (${deal.closeDateString}) - please update it or close the deal.`);
+  }
+
+  if (deal.isBlocking) {
+    lines.push('', `Blocking: ${deal.blockingReasons.join(', ')}`);
+  }
+
+  lines.push('', `Stage: ${deal.dealStageName} | Completeness: ${deal.completenessScore}%`);
+  return lines.join('\n');
+}
+
+/**
+ * Plans one task per deal with missing fields or a past-due close date
+ */
+export function planHygieneTasks(
+  summary: HygieneSummary,
+  ownerDirectory?: OwnerDirectory,
+  now: Date = new Date()
+): PlannedTask[] {
+  const configuredDueDays = parseInt(process.env.HYGIENE_TASK_DUE_DAYS || String(DEFAULT_DUE_DAYS), 10);
+  const dueDays = isNaN(configuredDueDays) || configuredDueDays < 0 ? DEFAULT_DUE_DAYS : configuredDueDays;
+  const dueDate = new Date(now.getTime() + dueDays * 24 * 60 * 60 * 1000);
+
+  const deals = new Map<string, DealHygieneReport>();
+  summary.dealsWithIssues.forEach(deal => deals.set(deal.dealId, deal));
+  summary.dealsWithPastDueCloseDates.forEach(deal => deals.set(deal.dealId, deal));
+
+  return Array.from(deals.values()).map(deal => {
+    // Tasks can't be assigned to archived owners
+    const owner = deal.dealOwner ? ownerDirectory?.owners.get(deal.dealOwner) : undefined;
+    const ownerId = deal.dealOwner && !owner?.archived ? deal.dealOwner : null;
+
+    return {
+      dealId: deal.dealId,
+      dealName: deal.dealName,
+      ownerId,
+      ownerName: ownerId ? deal.dealOwnerName || ownerId : 'Unassigned',
+      subject: buildTaskSubject(deal),
+      body: buildTaskBody(deal),
+      priority: deal.isBlocking || deal.isCloseDatePastDue ? 'HIGH' : 'MEDIUM',
+      dueDate,
+    };
+  });
+}
+
+/**
+ * Finds open tasks this tool created earlier, keyed by deal ID
+ */
+export async function fetchOpenHygieneTasks(accessToken: string): Promise<Map<string, string>> {
+  const tasksByDeal = new Map<string, string>();
+  let after: string | undefined;
+
+  do {
+    const page = await hubspotRequest<TaskSearchPage>(accessToken, '/crm/v3/objects/tasks/search', {
+      method: 'POST',
+      body: {
+        filterGroups: [{
+          filters: [
+            { propertyName: 'hs_task_status', operator: 'NEQ', value: 'COMPLETED' },
+            { propertyName: 'hs_task_subject', operator: 'CONTAINS_TOKEN', value: 'Hygiene' },
+          ],
+        }],
+        properties: ['hs_task_subject', 'hs_task_status'],
+        limit: TASK_SEARCH_PAGE_SIZE,
+        ...(after ? { after } : {}),
+      },
+      description: 'Failed to search hygiene tasks',
+    });
+
+    for (const task of page.results || []) {
+      const dealId = parseTaskDealId(task.properties.hs_task_subject);
+      if (dealId && !tasksByDeal.has(dealId)) {
+        tasksByDeal.set(dealId, task.id);
+      }
+    }
+
+    after = page.paging?.next?.after;
+  } while (after);
+
+  return tasksByDeal;
+}
+
+async function createTask(accessToken: string, task: PlannedTask): Promise<string> {
+  const created = await hubspotRequest<{ id: string }>(accessToken, '/crm/v3/objects/tasks', {
+    method: 'POST',
+    body: {
+      properties: {
+        hs_timestamp: task.dueDate.toISOString(),
+        hs_task_subject: task.subject,
+        hs_task_body: task.body,
+        hs_task_status: 'NOT_STARTED',
+        hs_task_priority: task.priority,
+        hs_task_type: 'TODO',
+        ...(task.ownerId ? { hubspot_owner_id: task.ownerId } : {}),
+      },
+      associations: [{
+        to: { id: task.dealId },
+        types: [{
+          associationCategory: 'HUBSPOT_DEFINED',
+          associationTypeId: TASK_TO_DEAL_ASSOCIATION_TYPE_ID,
+        }],
+      }],
+    },
+    description: `Failed to create hygiene task for deal ${task.dealId}`,
+    // A retried create could add a second task for the deal
+    idempotent: false,
+  });
+
+  return created.id;
+}
+
+/**
+ * Creates hygiene tasks for every deal that needs one and doesn't already have
+ * an open task. With dryRun the plan is returned without writing anything.
+ */
+export async function syncHygieneTasks(
+  accessToken: string,
+  summary: HygieneSummary,
+  options: { dryRun: boolean; ownerDirectory?: OwnerDirectory }
+): Promise<TaskSyncResult> {
+  const existing = await fetchOpenHygieneTasks(accessToken);
+  const result: TaskSyncResult = { dryRun: options.dryRun, planned: [], skipped: [], created: [], failed: [] };
+
+  for (const task of planHygieneTasks(summary, options.ownerDirectory)) {
+    const existingTaskId = existing.get(task.dealId);
+    if (existingTaskId) {
+      result.skipped.push({ dealId: task.dealId, dealName: task.dealName, existingTaskId });
+      continue;
+    }
+
+    result.planned.push(task);
+    if (options.dryRun) continue;
+
+    try {
+      const taskId = await createTask(accessToken, task);
+      result.created.push({ dealId: task.dealId, taskId });
+    } catch (error) {
+      result.failed.push({
+        dealId: task.dealId,
+        dealName: task.dealName,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Formats a task sync result as report lines
+ */
+export function generateTaskSyncText(result: TaskSyncResult): string[] {
+  const lines: string[] = [];
+  const verb = result.dryRun ? 'Would create' : 'Created';
+
+  if (result.dryRun) {
+    lines.push('🧪 DRY RUN - no tasks were written to HubSpot');
+    lines.push('');
+  }
+
+  lines.push(`📝 ${verb} ${result.dryRun ? result.planned.length : result.created.length} task(s)`);
+  lines.push(`⏭️  Skipped ${result.skipped.length} deal(s) with an open hygiene task`);
+  if (result.failed.length > 0) {
+    lines.push(`❌ Failed to create ${result.failed.length} task(s)`);
+  }
+  lines.push('');
+
+  const createdIds = new Set(result.created.map(c => c.dealId));
+  const shown = result.dryRun ? result.planned : result.planned.filter(task => createdIds.has(task.dealId));
+
+  shown.forEach((task, index) => {
+    lines.push(`${index + 1}. ${task.subject}`);
+    lines.push(`   👤 Assigned to: ${task.ownerName} | Priority: ${task.priority} | Due: ${task.dueDate.toLocaleDateString('en-US')}`);
+    task.body.split('\n').filter(line => line.startsWith('- ')).forEach(line => lines.push(`   ${line}`));
+    lines.push('');
+  });
+
+  result.skipped.forEach(skip => {
+    lines.push(`   ⏭️  "${skip.dealName}" [ID: ${skip.dealId}] - open task ${skip.existingTaskId}`);
+  });
+
+  result.failed.forEach(failure => {
+    lines.push(`   ❌ "${failure.dealName}" [ID: ${failure.dealId}] - ${failure.error}`);
+  });
+
+  return lines;
+}
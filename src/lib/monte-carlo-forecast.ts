@@ -0,0 +1,269 @@
+import type { Deal } from '../hubspot.js';
+import type { DealTimeline } from './deal-history.js';
+import type { StageWeightReport } from './stage-weights.js';
+import type { FiscalPeriod } from '../types.js';
+import { formatCurrency } from './currency.js';
+
+/**
+ * Monte Carlo forecast
+ *
+ * Simulates the forecast many times instead of adding up amounts once. In each
+ * run every open deal:
+ * - closes won with its stage's win probability (historical win rate, falling
+ *   back to the manual weight or HubSpot probability, see lib/stage-weights.ts)
+ * - if won, slips with the historical slip probability (share of won deals
+ *   whose close date was pushed at least once), by a number of days drawn
+ *   from the pushes those deals saw
+ * - if won, closes at its amount times a haircut drawn from won deals
+ *   (final amount / first amount)
+ *
+ * Won deals that still close inside the period count toward the quarter,
+ * their month and their rep. The spread of the run totals gives P10, P50 and
+ * P90: P10 is the low end (90% of runs came in above it), P90 the high end.
+ *
+ * Optional environment variables:
+ * - MONTE_CARLO_RUNS: Simulation runs (default: 10000)
+ * - MONTE_CARLO_SEED: Random seed, for repeatable results (default: random)
+ */
+
+const DEFAULT_RUNS = 10000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SimulationSettings {
+  runs: number;
+  seed: number;
+}
+
+export interface SimulationDeal {
+  dealId: string;
+  stageId: string;
+  ownerName: string;
+  amount: number;
+  closeDate: Date;
+}
+
+export interface SimulationModel {
+  winProbabilities: Map<string, number>; // Stage ID -> win probability
+  slipProbability: number;
+  slipDays: number[];                    // Days pushed, one entry per won deal that slipped
+  amountRatios: number[];                // Final / first amount, one entry per won deal with both
+  wonDealsAnalyzed: number;              // Won deals with history behind the slip and haircut figures
+}
+
+export interface ForecastRange {
+  name: string;
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+  pointEstimate: number;                 // Plain ARR sum of the deals, for comparison
+}
+
+export interface MonteCarloForecast {
+  settings: SimulationSettings;
+  dealsSimulated: number;
+  slipProbability: number;
+  averageSlipDays: number;
+  averageAmountRatio: number;
+  wonDealsAnalyzed: number;
+  quarter: ForecastRange;
+  byMonth: ForecastRange[];
+  byOwner: ForecastRange[];              // Highest P50 first
+}
+
+/**
+ * Reads the run count and seed from the environment
+ */
+export function getSimulationSettings(): SimulationSettings {
+  const runs = parseInt(process.env.MONTE_CARLO_RUNS || String(DEFAULT_RUNS), 10);
+  const seed = parseInt(process.env.MONTE_CARLO_SEED || '', 10);
+
+  return {
+    runs: isNaN(runs) || runs < 1 ? DEFAULT_RUNS : runs,
+    seed: isNaN(seed) ? Math.floor(Math.random() * 2 ** 32) : seed,
+  };
+}
+
+/**
+ * Builds the simulation inputs from stage weights and won deals' history
+ *
+ * @param wonDeals - Deals won in the calibration window
+ * @param timelines - Close-date and amount history for the won deals
+ */
+export function buildSimulationModel(
+  stageWeights: StageWeightReport,
+  wonDeals: Deal[],
+  timelines: Map<string, DealTimeline>
+): SimulationModel {
+  const winProbabilities = new Map(stageWeights.stages.map(stage => [stage.stageId, stage.weight]));
+  const slipDays: number[] = [];
+  const amountRatios: number[] = [];
+  let analyzed = 0;
+
+  for (const deal of wonDeals) {
+    const timeline = timelines.get(deal.id);
+    if (!timeline) continue;
+    analyzed++;
+
+    const pushed = timeline.closeDateChanges
+      .reduce((sum, change) => sum + Math.max(change.daysMoved ?? 0, 0), 0);
+    if (pushed > 0) slipDays.push(pushed);
+
+    // First amount the deal had: the history can start empty (amount set
+    // after creation); no changes at all means it still has its first amount
+    const finalAmount = parseFloat(deal.properties.amount);
+    const changes = timeline.amountChanges;
+    const firstAmount = changes.length > 0
+      ? [changes[0].from, ...changes.map(change => change.to)].find(amount => amount !== null) ?? null
+      : finalAmount;
+    if (firstAmount !== null && firstAmount > 0 && !isNaN(finalAmount)) {
+      amountRatios.push(finalAmount / firstAmount);
+    }
+  }
+
+  return {
+    winProbabilities,
+    slipProbability: analyzed > 0 ? slipDays.length / analyzed : 0,
+    slipDays,
+    amountRatios,
+    wonDealsAnalyzed: analyzed,
+  };
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so runs can be repeated with MONTE_CARLO_SEED
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentile(sorted: Float64Array, p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+}
+
+function toRange(name: string, totals: Float64Array, pointEstimate: number): ForecastRange {
+  const sorted = Float64Array.from(totals).sort();
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / (sorted.length || 1);
+
+  return {
+    name,
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    mean,
+    pointEstimate,
+  };
+}
+
+function average(values: number[], fallback: number): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : fallback;
+}
+
+/**
+ * Runs the simulation for deals forecast to close in the periods
+ */
+export function runMonteCarloForecast(
+  deals: SimulationDeal[],
+  periods: FiscalPeriod[],
+  model: SimulationModel,
+  settings: SimulationSettings = getSimulationSettings()
+): MonteCarloForecast {
+  const random = createRandom(settings.seed);
+  const pick = (values: number[], fallback: number) =>
+    values.length > 0 ? values[Math.floor(random() * values.length)] : fallback;
+
+  const owners = [...new Set(deals.map(deal => deal.ownerName))];
+  const quarterTotals = new Float64Array(settings.runs);
+  const monthTotals = periods.map(() => new Float64Array(settings.runs));
+  const ownerTotals = owners.map(() => new Float64Array(settings.runs));
+  const ownerIndex = new Map(owners.map((owner, index) => [owner, index]));
+  const start = periods[0]?.startDate;
+  const end = periods[periods.length - 1]?.endDate;
+
+  for (let run = 0; run < settings.runs; run++) {
+    for (const deal of deals) {
+      if (random() >= (model.winProbabilities.get(deal.stageId) ?? 0)) continue;
+
+      const slip = random() < model.slipProbability ? pick(model.slipDays, 0) : 0;
+      const closeDate = new Date(deal.closeDate.getTime() + slip * DAY_MS);
+      if (!start || !end || closeDate < start || closeDate > end) continue;
+
+      const amount = deal.amount * pick(model.amountRatios, 1);
+      quarterTotals[run] += amount;
+      ownerTotals[ownerIndex.get(deal.ownerName)!][run] += amount;
+
+      const month = periods.findIndex(period => closeDate >= period.startDate && closeDate <= period.endDate);
+      if (month !== -1) monthTotals[month][run] += amount;
+    }
+  }
+
+  const sumOf = (filter: (deal: SimulationDeal) => boolean) =>
+    deals.filter(filter).reduce((sum, deal) => sum + deal.amount, 0);
+
+  return {
+    settings,
+    dealsSimulated: deals.length,
+    slipProbability: model.slipProbability,
+    averageSlipDays: average(model.slipDays, 0),
+    averageAmountRatio: average(model.amountRatios, 1),
+    wonDealsAnalyzed: model.wonDealsAnalyzed,
+    quarter: toRange('Quarter', quarterTotals, sumOf(() => true)),
+    byMonth: periods.map((period, index) => toRange(
+      period.label,
+      monthTotals[index],
+      sumOf(deal => deal.closeDate >= period.startDate && deal.closeDate <= period.endDate)
+    )),
+    byOwner: owners
+      .map((owner, index) => toRange(owner, ownerTotals[index], sumOf(deal => deal.ownerName === owner)))
+      .sort((a, b) => b.p50 - a.p50),
+  };
+}
+
+/**
+ * Formats the simulation as report lines
+ */
+export function generateMonteCarloText(forecast: MonteCarloForecast): string[] {
+  const lines: string[] = [];
+
+  lines.push(
+    `${forecast.settings.runs.toLocaleString('en-US')} runs over ${forecast.dealsSimulated} deals (seed ${forecast.settings.seed}). ` +
+    'P10 = low end (90% of runs came in above it), P90 = high end.'
+  );
+  lines.push(
+    `Slip probability: ${Math.round(forecast.slipProbability * 100)}% (avg ${Math.round(forecast.averageSlipDays)} days) | ` +
+    `Amount haircut: ${Math.round(forecast.averageAmountRatio * 100)}% of amount | ` +
+    `From ${forecast.wonDealsAnalyzed} won deal(s)`
+  );
+  lines.push('');
+
+  const header = ''.padEnd(30) + 'P10'.padEnd(14) + 'P50'.padEnd(14) + 'P90'.padEnd(14) + 'Point estimate';
+  const row = (range: ForecastRange) =>
+    range.name.substring(0, 28).padEnd(30) +
+    formatCurrency(range.p10).padEnd(14) +
+    formatCurrency(range.p50).padEnd(14) +
+    formatCurrency(range.p90).padEnd(14) +
+    formatCurrency(range.pointEstimate);
+
+  lines.push(header);
+  lines.push('─'.repeat(100));
+  lines.push(row(forecast.quarter));
+  lines.push('');
+
+  lines.push('By month:');
+  forecast.byMonth.forEach(range => lines.push(row(range)));
+  lines.push('');
+
+  lines.push('By rep:');
+  forecast.byOwner.forEach(range => lines.push(row(range)));
+
+  return lines;
+}
@@ -0,0 +1,242 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { hubspotRequest } from './hubspot-client.js';
+import type { Owner } from '../hubspot.js';
+
+/**
+ * Owner directory
+ *
+ * Loads every HubSpot owner (active and archived) from the paginated
+ * /crm/v3/owners endpoint once, and caches the result on disk so repeated
+ * runs don't re-fetch it.
+ *
+ * Optional environment variables:
+ * - OWNER_CACHE_PATH: Cache file location (default: .cache/owner-directory.json)
+ * - OWNER_CACHE_TTL_HOURS: How long the cache stays fresh (default: 24)
+ */
+
+const DEFAULT_CACHE_PATH = '.cache/owner-directory.json';
+const DEFAULT_CACHE_TTL_HOURS = 24;
+
+// Owners endpoint allows up to 500 results per page
+const OWNERS_PAGE_SIZE = 500;
+
+export interface OwnerTeam {
+  id: string;
+  name: string;
+  primary: boolean;
+}
+
+export interface DirectoryOwner extends Owner {
+  userId?: string;       // HubSpot user behind the owner (goals are assigned to users)
+  archived: boolean;
+  teams: OwnerTeam[];
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  memberIds: string[];
+}
+
+export interface OwnerDirectory {
+  owners: Map<string, DirectoryOwner>;
+  teams: Map<string, Team>;
+  fetchedAt: Date;
+}
+
+interface OwnersPage {
+  results: any[];
+  paging?: {
+    next?: {
+      after: string;
+    };
+  };
+}
+
+interface OwnerCacheFile {
+  fetchedAt: string;
+  owners: DirectoryOwner[];
+}
+
+/**
+ * Fetches every owner page for either active or archived owners
+ */
+async function fetchAllOwners(accessToken: string, archived: boolean): Promise<DirectoryOwner[]> {
+  const owners: DirectoryOwner[] = [];
+  let after: string | undefined;
+
+  do {
+    const page = await hubspotRequest<OwnersPage>(accessToken, '/crm/v3/owners', {
+      query: { limit: OWNERS_PAGE_SIZE, archived, after },
+      description: `Failed to fetch ${archived ? 'archived' : 'active'} owners`,
+    });
+
+    for (const data of page.results || []) {
+      owners.push({
+        id: String(data.id),
+        email: data.email || '',
+        firstName: data.firstName || '',
+        lastName: data.lastName || '',
+        userId: data.userId ? String(data.userId) : undefined,
+        archived,
+        teams: (data.teams || []).map((team: any) => ({
+          id: String(team.id),
+          name: team.name || '',
+          primary: Boolean(team.primary),
+        })),
+      });
+    }
+
+    after = page.paging?.next?.after;
+  } while (after);
+
+  return owners;
+}
+
+/**
+ * Builds the owner and team lookup maps from a flat owner list
+ */
+function buildDirectory(owners: DirectoryOwner[], fetchedAt: Date): OwnerDirectory {
+  const ownerMap = new Map<string, DirectoryOwner>();
+  const teamMap = new Map<string, Team>();
+
+  for (const owner of owners) {
+    ownerMap.set(owner.id, owner);
+
+    for (const team of owner.teams) {
+      if (!teamMap.has(team.id)) {
+        teamMap.set(team.id, { id: team.id, name: team.name, memberIds: [] });
+      }
+      teamMap.get(team.id)!.memberIds.push(owner.id);
+    }
+  }
+
+  return { owners: ownerMap, teams: teamMap, fetchedAt };
+}
+
+/**
+ * Reads the cached directory if it exists and is still within its TTL
+ */
+async function readCache(cachePath: string, ttlHours: number): Promise<OwnerDirectory | null> {
+  try {
+    const raw = await fs.readFile(cachePath, 'utf-8');
+    const cache = JSON.parse(raw) as OwnerCacheFile;
+    const fetchedAt = new Date(cache.fetchedAt);
+    const ageHours = (Date.now() - fetchedAt.getTime()) / (1000 * 60 * 60);
+
+    if (isNaN(ageHours) || ageHours > ttlHours) {
+      return null;
+    }
+
+    return buildDirectory(cache.owners, fetchedAt);
+  } catch {
+    // Missing or unreadable cache - fetch fresh
+    return null;
+  }
+}
+
+async function writeCache(cachePath: string, directory: OwnerDirectory): Promise<void> {
+  const cache: OwnerCacheFile = {
+    fetchedAt: directory.fetchedAt.toISOString(),
+    owners: Array.from(directory.owners.values()),
+  };
+
+  try {
+    await fs.mkdir(path.dirname(cachePath), { recursive: true });
+    await fs.writeFile(cachePath, JSON.stringify(cache, null, 2), 'utf-8');
+  } catch (error) {
+    // Caching is an optimisation; a read-only filesystem shouldn't fail the run
+    console.warn(`  ⚠️  Could not write owner cache: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Loaded once per process so every caller shares the same directory
+let directoryPromise: Promise<OwnerDirectory> | null = null;
+
+/**
+ * Loads the owner directory, from the disk cache when fresh or from HubSpot otherwise
+ *
+ * @param accessToken - HubSpot access token
+ * @param options.forceRefresh - Ignore the disk cache and re-fetch
+ */
+export function loadOwnerDirectory(
+  accessToken: string,
+  options: { forceRefresh?: boolean } = {}
+): Promise<OwnerDirectory> {
+  if (directoryPromise && !options.forceRefresh) {
+    return directoryPromise;
+  }
+
+  const cachePath = process.env.OWNER_CACHE_PATH || DEFAULT_CACHE_PATH;
+  const ttlHours = parseFloat(process.env.OWNER_CACHE_TTL_HOURS || String(DEFAULT_CACHE_TTL_HOURS));
+
+  directoryPromise = (async () => {
+    if (!options.forceRefresh) {
+      const cached = await readCache(cachePath, ttlHours);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const [active, archived] = await Promise.all([
+      fetchAllOwners(accessToken, false),
+      fetchAllOwners(accessToken, true),
+    ]);
+
+    const directory = buildDirectory([...active, ...archived], new Date());
+    await writeCache(cachePath, directory);
+    return directory;
+  })();
+
+  // Don't keep a failed load around - the next caller should retry
+  directoryPromise.catch(() => {
+    directoryPromise = null;
+  });
+
+  return directoryPromise;
+}
+
+/**
+ * Returns "First Last" for an owner, marking archived owners
+ */
+export function getOwnerName(directory: OwnerDirectory, ownerId: string | null | undefined): string | null {
+  if (!ownerId) return null;
+
+  const owner = directory.owners.get(String(ownerId));
+  if (!owner) return null;
+
+  const name = `${owner.firstName} ${owner.lastName}`.trim() || owner.email;
+  return owner.archived ? `${name} (archived)` : name;
+}
+
+/**
+ * Returns the team name for a hubspot_team_id value
+ */
+export function getTeamName(directory: OwnerDirectory, teamId: string | null | undefined): string | null {
+  if (!teamId) return null;
+  return directory.teams.get(String(teamId))?.name || null;
+}
+
+/**
+ * Splits a multi-owner property value (e.g. hs_all_collaborator_owner_ids,
+ * stored as "123;456") into owner IDs
+ */
+export function parseOwnerIds(value: string | null | undefined): string[] {
+  if (!value) return [];
+  return String(value)
+    .split(';')
+    .map(id => id.trim())
+    .filter(id => id);
+}
+
+/**
+ * Resolves collaborator owner IDs to names, falling back to the raw ID for
+ * owners the directory doesn't know about
+ */
+export function resolveCollaboratorNames(
+  directory: OwnerDirectory,
+  value: string | null | undefined
+): string[] {
+  return parseOwnerIds(value).map(id => getOwnerName(directory, id) || `Owner ${id}`);
+}
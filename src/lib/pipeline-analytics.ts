@@ -0,0 +1,372 @@
+import { resolveStageDateProperty, type Deal } from '../hubspot.js';
+import type { PipelineRegistry, RegisteredStage } from './pipeline-registry.js';
+import { getRevenueBasis, getDealRevenue, describeRevenueBasis, type RevenueBasis } from './revenue-basis.js';
+import {
+  isUnconverted,
+  toUnconvertedDeal,
+  formatCurrency,
+  describeUnconvertedDeals,
+  type UnconvertedDeal,
+} from './currency.js';
+
+/**
+ * Pipeline conversion and velocity analytics
+ *
+ * Built from each deal's stage-entry dates (hs_v2_date_entered_<stage>) and
+ * its closed won/lost outcome:
+ * - Conversion: of the deals that entered a stage during the window, how many
+ *   went on to a later stage (or closed won)
+ * - Time in stage: average and median days per stage for deals won vs lost
+ *   during the window
+ * - Velocity: open deals × win rate × average won amount ÷ average cycle length
+ *
+ * Date-entered properties only hold the latest entry per stage, so a deal that
+ * went back to an earlier stage is measured from its most recent entry.
+ * Amounts are on the revenue basis (see revenue-basis.ts) in the reporting
+ * currency (see currency.ts).
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface AnalyticsWindow {
+  start: Date;
+  end: Date;
+}
+
+export type DealOutcome = 'won' | 'lost' | 'open';
+
+export interface StageConversion {
+  stageId: string;
+  stageName: string;
+  entered: number;               // Deals that entered the stage during the window
+  advanced: number;              // ...that later reached a later stage or closed won
+  won: number;                   // ...that ended closed won
+  lost: number;                  // ...that ended closed lost
+  stillInStage: number;          // ...that are still in this stage
+  conversionRate: number | null; // advanced / entered (0-1)
+}
+
+export interface DurationStats {
+  deals: number;
+  averageDays: number | null;
+  medianDays: number | null;
+}
+
+export interface StageDuration {
+  stageId: string;
+  stageName: string;
+  won: DurationStats;
+  lost: DurationStats;
+}
+
+export interface SalesVelocity {
+  openDeals: number;
+  winRate: number | null;          // Won / (won + lost) during the window (0-1)
+  averageWonAmount: number | null;
+  averageCycleDays: number | null; // Create date to close for deals won during the window
+  velocityPerDay: number | null;   // Expected revenue per day
+}
+
+export interface PipelineAnalyticsReport {
+  pipelineId: string;
+  pipelineName: string;
+  window: AnalyticsWindow;
+  generatedAt: Date;
+  revenueBasis: RevenueBasis;      // Deal property the amounts come from
+  dealsAnalyzed: number;
+  wonDeals: number;                // Closed won during the window
+  lostDeals: number;               // Closed lost during the window
+  wonAmount: number;
+  unconvertedDeals: UnconvertedDeal[]; // Won deals left out of the amounts (currency couldn't be converted)
+  funnel: StageConversion[];
+  timeInStage: StageDuration[];
+  cycle: { won: DurationStats; lost: DurationStats }; // Create date to close
+  velocity: SalesVelocity;
+}
+
+interface AnalyzedDeal {
+  outcome: DealOutcome;
+  currentStageId: string;
+  amount: number | null;
+  unconverted: UnconvertedDeal | null;
+  createdAt: Date | null;
+  closedAt: Date | null;
+  entries: Map<string, Date>; // Stage ID → date entered
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function parseDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function isInWindow(date: Date | null, window: AnalyticsWindow): boolean {
+  return date !== null && date >= window.start && date <= window.end;
+}
+
+function daysBetween(start: Date, end: Date): number {
+  return (end.getTime() - start.getTime()) / DAY_MS;
+}
+
+function calculateMedian(numbers: number[]): number {
+  const sorted = [...numbers].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function roundOne(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function durationStats(days: number[]): DurationStats {
+  if (days.length === 0) {
+    return { deals: 0, averageDays: null, medianDays: null };
+  }
+
+  return {
+    deals: days.length,
+    averageDays: roundOne(days.reduce((sum, d) => sum + d, 0) / days.length),
+    medianDays: roundOne(calculateMedian(days)),
+  };
+}
+
+function analyzeDeal(deal: Deal, registry: PipelineRegistry): AnalyzedDeal {
+  const currentStageId = deal.properties.dealstage || '';
+  const wonIds = registry.reports.closedWon.map(stage => stage.id);
+  const lostIds = registry.reports.closedLost.map(stage => stage.id);
+  const outcome: DealOutcome = wonIds.includes(currentStageId)
+    ? 'won'
+    : lostIds.includes(currentStageId) ? 'lost' : 'open';
+
+  const entries = new Map<string, Date>();
+  for (const stage of registry.stages) {
+    const entered = parseDate(resolveStageDateProperty(deal, stage.id)?.value);
+    if (entered) entries.set(stage.id, entered);
+  }
+
+  const dealAmount = getDealRevenue(deal.properties);
+
+  return {
+    outcome,
+    currentStageId,
+    amount: dealAmount.amount,
+    unconverted: isUnconverted(dealAmount) ? toUnconvertedDeal(deal, dealAmount) : null,
+    createdAt: parseDate(deal.properties.createdate),
+    // Closed deals are dated by when they entered the closed stage
+    closedAt: outcome === 'open'
+      ? null
+      : entries.get(currentStageId) ?? parseDate(deal.properties.closedate),
+    entries,
+  };
+}
+
+/**
+ * Days from entering a stage until the deal entered the next stage it reached
+ */
+function daysInStage(deal: AnalyzedDeal, stageId: string): number | null {
+  const entered = deal.entries.get(stageId);
+  if (!entered) return null;
+
+  let next: Date | null = null;
+  for (const date of deal.entries.values()) {
+    if (date > entered && (!next || date < next)) next = date;
+  }
+
+  return next ? daysBetween(entered, next) : null;
+}
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+/**
+ * Builds conversion, time-in-stage and velocity analytics for the configured pipeline
+ *
+ * @param deals - Deals in the pipeline with stage date properties, amount,
+ *                createdate and closedate (the "forecast" property set)
+ */
+export function buildPipelineAnalytics(
+  deals: Deal[],
+  registry: PipelineRegistry,
+  window: AnalyticsWindow,
+  now: Date = new Date()
+): PipelineAnalyticsReport {
+  const analyzed = deals.map(deal => analyzeDeal(deal, registry));
+  const openStages = registry.stages.filter(stage => !stage.isClosed);
+  const wonStageIds = registry.reports.closedWon.map(stage => stage.id);
+
+  const closedInWindow = analyzed.filter(deal => deal.outcome !== 'open' && isInWindow(deal.closedAt, window));
+  const won = closedInWindow.filter(deal => deal.outcome === 'won');
+  const lost = closedInWindow.filter(deal => deal.outcome === 'lost');
+
+  // Funnel: deals entering each open stage during the window
+  const funnel: StageConversion[] = openStages.map(stage => {
+    const laterStageIds = [
+      ...openStages.filter(s => s.displayOrder > stage.displayOrder).map(s => s.id),
+      ...wonStageIds,
+    ];
+    const entered = analyzed.filter(deal => isInWindow(deal.entries.get(stage.id) ?? null, window));
+    const advanced = entered.filter(deal => {
+      const enteredAt = deal.entries.get(stage.id)!;
+      return laterStageIds.some(id => {
+        const laterEntry = deal.entries.get(id);
+        return laterEntry !== undefined && laterEntry > enteredAt;
+      });
+    });
+
+    return {
+      stageId: stage.id,
+      stageName: stage.reportName,
+      entered: entered.length,
+      advanced: advanced.length,
+      won: entered.filter(deal => deal.outcome === 'won').length,
+      lost: entered.filter(deal => deal.outcome === 'lost').length,
+      stillInStage: entered.filter(deal => deal.currentStageId === stage.id).length,
+      conversionRate: entered.length > 0 ? advanced.length / entered.length : null,
+    };
+  });
+
+  const stageDays = (group: AnalyzedDeal[], stage: RegisteredStage): number[] =>
+    group
+      .map(deal => daysInStage(deal, stage.id))
+      .filter((days): days is number => days !== null);
+
+  const timeInStage: StageDuration[] = openStages.map(stage => ({
+    stageId: stage.id,
+    stageName: stage.reportName,
+    won: durationStats(stageDays(won, stage)),
+    lost: durationStats(stageDays(lost, stage)),
+  }));
+
+  const cycleDays = (group: AnalyzedDeal[]): number[] =>
+    group
+      .filter(deal => deal.createdAt && deal.closedAt)
+      .map(deal => daysBetween(deal.createdAt!, deal.closedAt!));
+  const cycle = { won: durationStats(cycleDays(won)), lost: durationStats(cycleDays(lost)) };
+
+  const wonAmounts = won.map(deal => deal.amount).filter((amount): amount is number => amount !== null);
+  const wonAmount = wonAmounts.reduce((sum, amount) => sum + amount, 0);
+  const openDeals = analyzed.filter(deal => deal.outcome === 'open').length;
+  const winRate = closedInWindow.length > 0 ? won.length / closedInWindow.length : null;
+  const averageWonAmount = wonAmounts.length > 0 ? wonAmount / wonAmounts.length : null;
+  const averageCycleDays = cycle.won.averageDays;
+
+  const velocityPerDay = winRate !== null && averageWonAmount !== null && averageCycleDays
+    ? (openDeals * winRate * averageWonAmount) / averageCycleDays
+    : null;
+
+  return {
+    pipelineId: registry.pipeline.id,
+    pipelineName: registry.pipeline.label,
+    window,
+    generatedAt: now,
+    revenueBasis: getRevenueBasis(),
+    dealsAnalyzed: analyzed.length,
+    wonDeals: won.length,
+    lostDeals: lost.length,
+    wonAmount,
+    unconvertedDeals: won
+      .map(deal => deal.unconverted)
+      .filter((deal): deal is UnconvertedDeal => deal !== null),
+    funnel,
+    timeInStage,
+    cycle,
+    velocity: {
+      openDeals,
+      winRate,
+      averageWonAmount,
+      averageCycleDays,
+      velocityPerDay,
+    },
+  };
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+function formatPercent(rate: number | null): string {
+  return rate === null ? 'N/A' : `${Math.round(rate * 100)}%`;
+}
+
+function formatDays(stats: DurationStats): string {
+  if (stats.deals === 0) return '—';
+  return `${stats.averageDays} / ${stats.medianDays} (${stats.deals})`;
+}
+
+function formatShortDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+/**
+ * Formats the analytics as report lines
+ */
+export function generatePipelineAnalyticsText(report: PipelineAnalyticsReport): string[] {
+  const lines: string[] = [];
+  const { velocity } = report;
+
+  lines.push(`📅 Window: ${formatShortDate(report.window.start)} – ${formatShortDate(report.window.end)} | Pipeline: ${report.pipelineName}`);
+  lines.push(`📊 Deals analyzed: ${report.dealsAnalyzed} | Closed won: ${report.wonDeals} (${formatCurrency(report.wonAmount)}) | Closed lost: ${report.lostDeals}`);
+  lines.push(`💵 Revenue basis: ${describeRevenueBasis(report.revenueBasis)}`);
+  lines.push(...describeUnconvertedDeals(report.unconvertedDeals, 'left out of won amounts'));
+  lines.push('');
+
+  lines.push('🔻 STAGE CONVERSION (deals that entered each stage during the window)');
+  lines.push(
+    'Stage'.padEnd(24) + 'Entered'.padEnd(10) + 'Advanced'.padEnd(10) + 'Conversion'.padEnd(12) +
+    'Won'.padEnd(6) + 'Lost'.padEnd(6) + 'Still in stage'
+  );
+  lines.push('─'.repeat(80));
+  for (const stage of report.funnel) {
+    lines.push(
+      stage.stageName.substring(0, 22).padEnd(24) +
+      String(stage.entered).padEnd(10) +
+      String(stage.advanced).padEnd(10) +
+      formatPercent(stage.conversionRate).padEnd(12) +
+      String(stage.won).padEnd(6) +
+      String(stage.lost).padEnd(6) +
+      String(stage.stillInStage)
+    );
+  }
+  lines.push('');
+
+  lines.push('⏱️  DAYS IN STAGE (deals closed during the window; average / median (deals))');
+  lines.push('Stage'.padEnd(24) + 'Won'.padEnd(24) + 'Lost');
+  lines.push('─'.repeat(80));
+  for (const stage of report.timeInStage) {
+    lines.push(stage.stageName.substring(0, 22).padEnd(24) + formatDays(stage.won).padEnd(24) + formatDays(stage.lost));
+  }
+  lines.push('Create → close'.padEnd(24) + formatDays(report.cycle.won).padEnd(24) + formatDays(report.cycle.lost));
+  lines.push('');
+
+  lines.push('🚀 SALES VELOCITY');
+  lines.push(`   Open deals: ${velocity.openDeals}`);
+  lines.push(`   Win rate: ${formatPercent(velocity.winRate)}`);
+  lines.push(`   Average won deal: ${formatCurrency(velocity.averageWonAmount)}`);
+  lines.push(`   Average sales cycle: ${velocity.averageCycleDays ?? 'N/A'} days`);
+  if (velocity.velocityPerDay !== null) {
+    lines.push(`   Velocity: ${formatCurrency(velocity.velocityPerDay)}/day (${formatCurrency(velocity.velocityPerDay * 30)} per 30 days)`);
+  } else {
+    lines.push('   Velocity: N/A (needs at least one deal won during the window)');
+  }
+
+  return lines;
+}
+
+/**
+ * Wraps the analytics lines in a section block for Google Docs
+ */
+export function generatePipelineAnalyticsSection(report: PipelineAnalyticsReport, title = 'PIPELINE ANALYTICS'): string[] {
+  return [
+    '━'.repeat(80),
+    title,
+    '━'.repeat(80),
+    '',
+    ...generatePipelineAnalyticsText(report),
+    '',
+  ];
+}
@@ -0,0 +1,259 @@
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+import { fetchPipelines, type Pipeline } from '../hubspot.js';
+import type { ForecastCategory } from './forecast-categories.js';
+
+/**
+ * Pipeline and stage registry
+ *
+ * Every report reads its pipeline, stages, aging thresholds, forecast weights
+ * and display names from one config file instead of hardcoded IDs or label
+ * matching. The config is checked against the live pipelines at startup, so a
+ * stage that was renamed or deleted in HubSpot stops the report with a clear
+ * error instead of silently dropping deals.
+ *
+ * Pipelines and stages can be referenced by ID or by label (case-insensitive);
+ * report stage lists can also use a stage's configured reportName. IDs don't
+ * change when a stage is renamed in HubSpot, so prefer them for "pipeline" and
+ * the "stages" keys.
+ *
+ * Closed won/lost stages default to the pipeline's closed stages (probability
+ * 1 and 0); set reports.closedWon / reports.closedLost to override.
+ *
+ * Optional environment variables:
+ * - PIPELINE_CONFIG_PATH: Config file location (default: config/pipeline.json)
+ */
+
+const DEFAULT_CONFIG_PATH = 'config/pipeline.json';
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const stageSettingsSchema = z.object({
+  reportName: z.string().min(1).optional(),
+  agingThresholdDays: z.number().positive().optional(),
+  flagReason: z.string().min(1).optional(),
+  forecastWeight: z.number().min(0).max(1).optional(),
+  forecastCategory: z.enum(['commit', 'best_case', 'pipeline', 'omit']).optional(),
+  required: z.boolean().default(false),
+});
+
+const stageListSchema = z.array(z.string().min(1));
+
+const pipelineConfigSchema = z.object({
+  pipeline: z.string().min(1),
+  noActivityThresholdDays: z.number().positive().default(7),
+  stages: z.record(z.string(), stageSettingsSchema).default({}),
+  reports: z.object({
+    hygiene: stageListSchema.min(1),
+    aging: stageListSchema.min(1),
+    forecast: stageListSchema.min(1),
+    weeklyForecast: stageListSchema.min(1),
+    closedWon: stageListSchema.optional(),
+    closedLost: stageListSchema.optional(),
+  }),
+});
+
+export type PipelineConfig = z.infer<typeof pipelineConfigSchema>;
+export type ReportName = 'hygiene' | 'aging' | 'forecast' | 'weeklyForecast' | 'closedWon' | 'closedLost';
+
+export interface RegisteredStage {
+  id: string;
+  label: string;                     // Label in HubSpot
+  reportName: string;                // Name used in reports (defaults to the label)
+  displayOrder: number;
+  probability: number | null;        // HubSpot stage probability (0-1)
+  isClosed: boolean;
+  agingThresholdDays: number | null;
+  flagReason: string;                // Aging flag, e.g. "Stalled in Proposal"
+  forecastWeight: number | null;     // Manual weighted-pipeline probability
+  forecastCategory: ForecastCategory | null; // Category for deals whose rep hasn't set one
+  required: boolean;                 // Every deal is expected to pass through this stage
+}
+
+export interface PipelineRegistry {
+  pipelines: Pipeline[];             // Every deal pipeline in the portal
+  pipeline: Pipeline;                // The configured pipeline
+  stages: RegisteredStage[];         // Every stage of the configured pipeline, in display order
+  noActivityThresholdDays: number;
+  reports: Record<ReportName, RegisteredStage[]>;
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Loads and validates the pipeline config file (schema only; stages are
+ * checked against HubSpot by buildPipelineRegistry)
+ */
+export async function loadPipelineConfig(
+  configPath: string = process.env.PIPELINE_CONFIG_PATH || DEFAULT_CONFIG_PATH
+): Promise<PipelineConfig> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(configPath, 'utf-8');
+  } catch (error) {
+    throw new Error(`Could not read pipeline config from ${configPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid pipeline config in ${configPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = pipelineConfigSchema.safeParse(json);
+  if (!parsed.success) {
+    const problems = parsed.error.issues
+      .map(issue => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid pipeline config in ${configPath}:\n${problems}`);
+  }
+
+  return parsed.data;
+}
+
+function matchesIdOrLabel(reference: string, item: { id: string; label: string }): boolean {
+  return reference === item.id || reference.toLowerCase().trim() === item.label.toLowerCase().trim();
+}
+
+/**
+ * Resolves the config against the live pipelines
+ *
+ * @throws Error listing every pipeline/stage reference that doesn't exist
+ */
+export function buildPipelineRegistry(pipelines: Pipeline[], config: PipelineConfig): PipelineRegistry {
+  const pipeline = pipelines.find(p => matchesIdOrLabel(config.pipeline, p));
+  if (!pipeline) {
+    const available = pipelines.map(p => `"${p.label}" (${p.id})`).join(', ');
+    throw new Error(`Pipeline "${config.pipeline}" from the pipeline config was not found in HubSpot. Available pipelines: ${available}`);
+  }
+
+  const problems: string[] = [];
+  const settingsByStageId = new Map<string, z.infer<typeof stageSettingsSchema>>();
+
+  for (const [reference, settings] of Object.entries(config.stages)) {
+    const stage = pipeline.stages.find(s => matchesIdOrLabel(reference, s));
+    if (!stage) {
+      problems.push(`stages: "${reference}" is not a stage of the "${pipeline.label}" pipeline`);
+      continue;
+    }
+    settingsByStageId.set(stage.id, settings);
+  }
+
+  const stages: RegisteredStage[] = [...pipeline.stages]
+    .sort((a, b) => a.displayOrder - b.displayOrder)
+    .map(stage => {
+      const settings = settingsByStageId.get(stage.id);
+      const reportName = settings?.reportName || stage.label;
+      const probability = parseFloat(stage.metadata?.probability);
+
+      return {
+        id: stage.id,
+        label: stage.label,
+        reportName,
+        displayOrder: stage.displayOrder,
+        probability: isNaN(probability) ? null : probability,
+        isClosed: stage.metadata?.isClosed === 'true',
+        agingThresholdDays: settings?.agingThresholdDays ?? null,
+        flagReason: settings?.flagReason || `Stalled in ${reportName}`,
+        forecastWeight: settings?.forecastWeight ?? null,
+        forecastCategory: settings?.forecastCategory ?? null,
+        required: settings?.required ?? false,
+      };
+    });
+
+  const resolveList = (report: ReportName, references: string[]): RegisteredStage[] => {
+    const resolved: RegisteredStage[] = [];
+    for (const reference of references) {
+      const stage = stages.find(s =>
+        matchesIdOrLabel(reference, s) || reference.toLowerCase().trim() === s.reportName.toLowerCase().trim()
+      );
+      if (!stage) {
+        problems.push(`reports.${report}: "${reference}" is not a stage of the "${pipeline.label}" pipeline`);
+      } else if (!resolved.includes(stage)) {
+        resolved.push(stage);
+      }
+    }
+    return resolved;
+  };
+
+  const reports: Record<ReportName, RegisteredStage[]> = {
+    hygiene: resolveList('hygiene', config.reports.hygiene),
+    aging: resolveList('aging', config.reports.aging),
+    forecast: resolveList('forecast', config.reports.forecast),
+    weeklyForecast: resolveList('weeklyForecast', config.reports.weeklyForecast),
+    closedWon: config.reports.closedWon
+      ? resolveList('closedWon', config.reports.closedWon)
+      : stages.filter(s => s.isClosed && s.probability === 1),
+    closedLost: config.reports.closedLost
+      ? resolveList('closedLost', config.reports.closedLost)
+      : stages.filter(s => s.isClosed && s.probability === 0),
+  };
+
+  for (const stage of reports.aging) {
+    if (stage.agingThresholdDays === null) {
+      problems.push(`reports.aging: "${stage.reportName}" needs an agingThresholdDays setting`);
+    }
+  }
+
+  if (problems.length > 0) {
+    const available = stages.map(s => `"${s.label}" (${s.id})`).join(', ');
+    throw new Error(
+      `Pipeline config doesn't match HubSpot:\n${problems.map(p => `  - ${p}`).join('\n')}\n` +
+      `Stages in "${pipeline.label}": ${available}`
+    );
+  }
+
+  return {
+    pipelines,
+    pipeline,
+    stages,
+    noActivityThresholdDays: config.noActivityThresholdDays,
+    reports,
+  };
+}
+
+/**
+ * Fetches the pipelines and builds the registry from the config file
+ */
+export async function loadPipelineRegistry(accessToken: string): Promise<PipelineRegistry> {
+  const config = await loadPipelineConfig();
+  const pipelines = await fetchPipelines(accessToken);
+  return buildPipelineRegistry(pipelines, config);
+}
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * Stage IDs used by a report
+ */
+export function getReportStageIds(registry: PipelineRegistry, report: ReportName): string[] {
+  return registry.reports[report].map(stage => stage.id);
+}
+
+/**
+ * Finds a stage of the configured pipeline by ID
+ */
+export function getStage(registry: PipelineRegistry, stageId: string): RegisteredStage | undefined {
+  return registry.stages.find(stage => stage.id === stageId);
+}
+
+/**
+ * Report name for a stage ID, falling back to a label from any pipeline, then the ID
+ */
+export function getStageName(registry: PipelineRegistry, stageId: string): string {
+  const stage = getStage(registry, stageId);
+  if (stage) return stage.reportName;
+
+  for (const pipeline of registry.pipelines) {
+    const other = pipeline.stages.find(s => s.id === stageId);
+    if (other) return other.label;
+  }
+  return stageId;
+}
@@ -0,0 +1,180 @@
+/**
+ * Named deal property sets
+ *
+ * Each report asks HubSpot only for the properties it uses. Stage-entry date
+ * properties (hs_v2_date_entered_<stageId> etc.) are generated from the
+ * pipelines returned by fetchPipelines(), so nothing here is tied to one
+ * portal's stage IDs.
+ */
+
+import type { Pipeline } from '../hubspot.js';
+
+export type PropertySetName = 'hygiene' | 'aging' | 'forecast' | 'full';
+
+interface PropertySetDefinition {
+  properties: string[];
+  stageDates: 'none' | 'entered' | 'entered-and-exited';
+}
+
+// Needed by every report to label and group deals
+const CORE_PROPERTIES = [
+  'dealname',
+  'dealstage',
+  'pipeline',
+  'hs_object_id',
+  'hubspot_owner_id',
+  'hubspot_team_id',
+];
+
+const FINANCIAL_PROPERTIES = [
+  'amount',
+  'amount_in_home_currency',
+  'deal_currency_code',
+  'hs_tcv',
+  'hs_arr',
+  'hs_mrr',
+  'hs_acv',
+];
+
+const FORECAST_PROPERTIES = [
+  'closedate',
+  'hs_deal_stage_probability',
+  'hs_forecast_amount',
+  'hs_forecast_probability',
+  'hs_manual_forecast_category',
+  'hs_is_closed',
+  'hs_is_closed_won',
+  'hs_date_entered_closedwon',
+  'hs_date_entered_closedlost',
+  'closed_lost_reason',
+];
+
+const PROPERTY_SETS: Record<PropertySetName, PropertySetDefinition> = {
+  // Rule properties are added by the hygiene scripts from the hygiene rule file
+  hygiene: {
+    properties: [
+      ...CORE_PROPERTIES,
+      'closedate',
+      'hs_all_collaborator_owner_ids',
+    ],
+    stageDates: 'none',
+  },
+
+  aging: {
+    properties: [
+      ...CORE_PROPERTIES,
+      ...FINANCIAL_PROPERTIES,
+      'closedate',
+      'createdate',
+      'hs_lastmodifieddate',
+      'hs_lastactivitydate',
+    ],
+    stageDates: 'entered',
+  },
+
+  forecast: {
+    properties: [
+      ...CORE_PROPERTIES,
+      ...FINANCIAL_PROPERTIES,
+      ...FORECAST_PROPERTIES,
+      'createdate',
+    ],
+    stageDates: 'entered',
+  },
+
+  full: {
+    properties: [
+      ...CORE_PROPERTIES,
+      ...FINANCIAL_PROPERTIES,
+      ...FORECAST_PROPERTIES,
+
+      // Dates
+      'createdate',
+      'hs_lastmodifieddate',
+      'hs_lastactivitydate',
+
+      // Deal Details
+      'dealtype',
+      'description',
+      'hs_priority',
+      'hs_next_step',
+
+      // Source & Campaign
+      'hs_analytics_source',
+      'hs_analytics_source_data_1',
+      'hs_analytics_source_data_2',
+      'hs_campaign',
+
+      // Engagement
+      'notes_last_contacted',
+      'notes_last_updated',
+      'notes_next_activity_date',
+      'num_contacted_notes',
+      'num_notes',
+      'hs_next_meeting_start_time',
+
+      // Closed & projected amounts
+      'hs_closed_amount',
+      'hs_closed_amount_in_home_currency',
+      'hs_deal_amount_calculation_preference',
+      'hs_projected_amount',
+      'hs_projected_amount_in_home_currency',
+
+      // Additional metadata
+      'hs_created_by_user_id',
+      'hs_updated_by_user_id',
+      'hs_all_owner_ids',
+      'hs_all_team_ids',
+      'hs_all_accessible_team_ids',
+      'hs_all_collaborator_owner_ids',
+
+      // Custom properties for Deal Hygiene
+      'product_s',
+      'prior_ehr',
+      'proposal_stage',
+    ],
+    stageDates: 'entered-and-exited',
+  },
+};
+
+/**
+ * Generates the stage-entry (and optionally stage-exit) date properties for
+ * every stage in the given pipelines, v2 and legacy variants
+ */
+export function stageDateProperties(
+  pipelines: Pipeline[],
+  options: { includeExited?: boolean } = {}
+): string[] {
+  const properties: string[] = [];
+
+  for (const pipeline of pipelines) {
+    for (const stage of pipeline.stages) {
+      properties.push(`hs_v2_date_entered_${stage.id}`, `hs_date_entered_${stage.id}`);
+
+      if (options.includeExited) {
+        properties.push(`hs_v2_date_exited_${stage.id}`, `hs_date_exited_${stage.id}`);
+      }
+    }
+  }
+
+  return properties;
+}
+
+/**
+ * Returns the property list for a named set
+ *
+ * @param name - Property set name
+ * @param pipelines - Pipelines whose stage date properties should be included
+ *                    (pass only the pipelines the report covers)
+ */
+export function getPropertySet(name: PropertySetName, pipelines: Pipeline[] = []): string[] {
+  const definition = PROPERTY_SETS[name];
+
+  const stageDates = definition.stageDates === 'none'
+    ? []
+    : stageDateProperties(pipelines, {
+        includeExited: definition.stageDates === 'entered-and-exited',
+      });
+
+  return [...new Set([...definition.properties, ...stageDates])];
+}
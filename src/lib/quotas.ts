@@ -0,0 +1,455 @@
+import { promises as fs } from 'fs';
+import { z } from 'zod';
+import { hubspotRequest } from './hubspot-client.js';
+import { getOwnerName, type OwnerDirectory } from './owner-directory.js';
+import { getCurrencySettings, convertWithRates, formatCurrency as formatAmount } from './currency.js';
+import type { QuarterInfo } from '../types.js';
+
+/**
+ * Quotas and attainment
+ *
+ * Quotas per rep and per team come from a local file (config/quotas.json) or
+ * from HubSpot goals. In the file, each quarter is keyed by its forecast label
+ * ("Q4 2026", "Q1 FY2027"); reps are referenced by owner ID, email or name and
+ * teams by team ID or name:
+ *
+ *   { "quarters": { "Q4 2026": {
+ *       "reps": { "jane@example.com": 300000 },
+ *       "teams": { "Enterprise": 900000 },
+ *       "total": 1500000 } } }
+ *
+ * With QUOTA_SOURCE=hubspot, quotas are the targets of HubSpot goals that fall
+ * inside the quarter (monthly goals add up), optionally only goals whose name
+ * contains QUOTA_GOAL_NAME. User goals map to owners through the owner
+ * directory; team goals map to teams.
+ *
+ * File quotas are in the reporting currency; HubSpot goal targets are in the
+ * portal's home currency and are converted (see currency.ts).
+ *
+ * A team without its own quota uses the sum of its members' quotas, and the
+ * total falls back to the sum of rep quotas (or team quotas if no rep has one).
+ *
+ * Optional environment variables:
+ * - QUOTA_SOURCE: file or hubspot (default: file)
+ * - QUOTA_CONFIG_PATH: Quota file location (default: config/quotas.json)
+ * - QUOTA_GOAL_NAME: Only use HubSpot goals whose name contains this text
+ */
+
+const DEFAULT_CONFIG_PATH = 'config/quotas.json';
+
+// Goals endpoint returns at most 100 results per page
+const GOALS_PAGE_SIZE = 100;
+
+const GOAL_PROPERTIES = [
+  'hs_goal_name',
+  'hs_target_amount',
+  'hs_start_datetime',
+  'hs_end_datetime',
+  'hs_assignee_user_id',
+  'hs_assignee_team_id',
+];
+
+// Goal dates are midnight UTC, so allow a day either side of the quarter
+const DATE_TOLERANCE_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const amountSchema = z.number().nonnegative();
+
+const quotaConfigSchema = z.object({
+  quarters: z.record(z.string(), z.object({
+    reps: z.record(z.string(), amountSchema).default({}),
+    teams: z.record(z.string(), amountSchema).default({}),
+    total: amountSchema.optional(),
+  })),
+});
+
+export type QuotaConfig = z.infer<typeof quotaConfigSchema>;
+export type QuotaSource = 'file' | 'hubspot';
+
+export interface QuotaSet {
+  source: QuotaSource;
+  reps: Map<string, number>;       // Owner ID -> quota
+  teams: Map<string, number>;      // Team ID -> quota
+  total: number | null;            // Explicit total, if set
+  unmatched: string[];             // Reps or teams that couldn't be found
+}
+
+export interface QuotaDeal {
+  ownerId: string | null;
+  amount: number;
+  weight: number;                  // Stage weight for open deals
+}
+
+export interface QuotaAttainment {
+  id: string | null;               // Owner or team ID (null for the total)
+  name: string;
+  quota: number | null;            // null when no quota is set
+  closedWonARR: number;
+  attainment: number | null;       // closedWon / quota
+  gap: number | null;              // Quota still to close (0 once met)
+  openPipelineARR: number;
+  weightedPipelineARR: number;
+  coverage: number | null;         // Open pipeline / gap (null without a gap)
+  weightedCoverage: number | null;
+}
+
+export interface QuotaReport {
+  source: QuotaSource;
+  reps: QuotaAttainment[];
+  teams: QuotaAttainment[];
+  total: QuotaAttainment;
+  unmatched: string[];
+}
+
+interface GoalsPage {
+  results: Array<{ id: string; properties: Record<string, string | null> }>;
+  paging?: {
+    next?: {
+      after: string;
+    };
+  };
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Reads QUOTA_SOURCE from the environment
+ *
+ * @throws Error if QUOTA_SOURCE isn't file or hubspot
+ */
+export function getQuotaSource(): QuotaSource {
+  const source = (process.env.QUOTA_SOURCE || 'file').trim().toLowerCase();
+  if (source !== 'file' && source !== 'hubspot') {
+    throw new Error(`QUOTA_SOURCE must be "file" or "hubspot", got "${process.env.QUOTA_SOURCE}"`);
+  }
+  return source;
+}
+
+/**
+ * Loads and validates the quota file
+ *
+ * @returns The config, or null if the file doesn't exist
+ */
+export async function loadQuotaConfig(
+  configPath: string = process.env.QUOTA_CONFIG_PATH || DEFAULT_CONFIG_PATH
+): Promise<QuotaConfig | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(configPath, 'utf-8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw new Error(`Could not read quota config from ${configPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid quota config in ${configPath}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = quotaConfigSchema.safeParse(json);
+  if (!parsed.success) {
+    const problems = parsed.error.issues
+      .map(issue => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('\n');
+    throw new Error(`Invalid quota config in ${configPath}:\n${problems}`);
+  }
+
+  return parsed.data;
+}
+
+function findOwnerId(directory: OwnerDirectory, reference: string): string | null {
+  const key = reference.trim().toLowerCase();
+  if (directory.owners.has(reference.trim())) return reference.trim();
+
+  for (const owner of directory.owners.values()) {
+    if (owner.email.toLowerCase() === key) return owner.id;
+    if (`${owner.firstName} ${owner.lastName}`.trim().toLowerCase() === key) return owner.id;
+  }
+  return null;
+}
+
+function findTeamId(directory: OwnerDirectory, reference: string): string | null {
+  if (directory.teams.has(reference.trim())) return reference.trim();
+
+  const key = reference.trim().toLowerCase();
+  for (const team of directory.teams.values()) {
+    if (team.name.toLowerCase() === key) return team.id;
+  }
+  return null;
+}
+
+/**
+ * Resolves the file quotas for a quarter against the owner directory
+ *
+ * @returns The quotas, or null if the file has no entry for the quarter
+ */
+export function resolveFileQuotas(
+  config: QuotaConfig,
+  quarter: QuarterInfo,
+  directory: OwnerDirectory
+): QuotaSet | null {
+  const entry = Object.entries(config.quarters)
+    .find(([label]) => label.trim().toLowerCase() === quarter.label.toLowerCase())?.[1];
+  if (!entry) return null;
+
+  const reps = new Map<string, number>();
+  const teams = new Map<string, number>();
+  const unmatched: string[] = [];
+
+  for (const [reference, quota] of Object.entries(entry.reps)) {
+    const ownerId = findOwnerId(directory, reference);
+    if (ownerId) reps.set(ownerId, (reps.get(ownerId) ?? 0) + quota);
+    else unmatched.push(`rep "${reference}"`);
+  }
+
+  for (const [reference, quota] of Object.entries(entry.teams)) {
+    const teamId = findTeamId(directory, reference);
+    if (teamId) teams.set(teamId, (teams.get(teamId) ?? 0) + quota);
+    else unmatched.push(`team "${reference}"`);
+  }
+
+  return { source: 'file', reps, teams, total: entry.total ?? null, unmatched };
+}
+
+/**
+ * Builds quotas from HubSpot goals that fall inside the quarter
+ */
+export async function fetchHubSpotQuotas(
+  accessToken: string,
+  quarter: QuarterInfo,
+  directory: OwnerDirectory,
+  goalName: string | undefined = process.env.QUOTA_GOAL_NAME
+): Promise<QuotaSet> {
+  const reps = new Map<string, number>();
+  const teams = new Map<string, number>();
+  const unmatched = new Set<string>();
+  const ownersByUserId = new Map(
+    Array.from(directory.owners.values())
+      .filter(owner => owner.userId)
+      .map(owner => [owner.userId!, owner.id])
+  );
+
+  const currency = getCurrencySettings();
+  let after: string | undefined;
+  do {
+    const page = await hubspotRequest<GoalsPage>(accessToken, '/crm/v3/objects/goal_targets', {
+      query: { limit: GOALS_PAGE_SIZE, properties: GOAL_PROPERTIES.join(','), after },
+      description: 'Failed to fetch HubSpot goals',
+    });
+
+    for (const goal of page.results || []) {
+      const props = goal.properties;
+      const homeTarget = parseFloat(props.hs_target_amount || '');
+      const start = props.hs_start_datetime ? new Date(props.hs_start_datetime) : null;
+      const end = props.hs_end_datetime ? new Date(props.hs_end_datetime) : null;
+
+      if (isNaN(homeTarget) || !start || !end) continue;
+      if (goalName && !(props.hs_goal_name || '').toLowerCase().includes(goalName.toLowerCase())) continue;
+      if (start.getTime() < quarter.startDate.getTime() - DATE_TOLERANCE_MS) continue;
+      if (end.getTime() > quarter.endDate.getTime() + DATE_TOLERANCE_MS) continue;
+
+      // Only goals for this quarter need a rate
+      const target = convertWithRates(homeTarget, currency.homeCurrency, currency.reportingCurrency, currency.rates);
+      if (target === null) {
+        throw new Error(`No exchange rate from ${currency.homeCurrency} to ${currency.reportingCurrency} for HubSpot goal targets`);
+      }
+
+      if (props.hs_assignee_user_id) {
+        const ownerId = ownersByUserId.get(props.hs_assignee_user_id);
+        if (ownerId) reps.set(ownerId, (reps.get(ownerId) ?? 0) + target);
+        else unmatched.add(`user ${props.hs_assignee_user_id}`);
+      } else if (props.hs_assignee_team_id) {
+        const teamId = props.hs_assignee_team_id;
+        if (directory.teams.has(teamId)) teams.set(teamId, (teams.get(teamId) ?? 0) + target);
+        else unmatched.add(`team ${teamId}`);
+      }
+    }
+
+    after = page.paging?.next?.after;
+  } while (after);
+
+  return { source: 'hubspot', reps, teams, total: null, unmatched: [...unmatched] };
+}
+
+/**
+ * Loads the quarter's quotas from the configured source
+ *
+ * @returns The quotas, or null if none are set for the quarter
+ */
+export async function loadQuotas(
+  accessToken: string,
+  quarter: QuarterInfo,
+  directory: OwnerDirectory,
+  source: QuotaSource = getQuotaSource()
+): Promise<QuotaSet | null> {
+  if (source === 'hubspot') {
+    const quotas = await fetchHubSpotQuotas(accessToken, quarter, directory);
+    return quotas.reps.size + quotas.teams.size > 0 ? quotas : null;
+  }
+
+  const config = await loadQuotaConfig();
+  return config ? resolveFileQuotas(config, quarter, directory) : null;
+}
+
+// ============================================================================
+// ATTAINMENT
+// ============================================================================
+
+function sumFor(deals: QuotaDeal[], ownerIds: Set<string | null> | null, weighted: boolean): number {
+  return deals
+    .filter(deal => !ownerIds || ownerIds.has(deal.ownerId))
+    .reduce((sum, deal) => sum + deal.amount * (weighted ? deal.weight : 1), 0);
+}
+
+function toAttainment(
+  id: string | null,
+  name: string,
+  quota: number | null,
+  ownerIds: Set<string | null> | null,
+  closedWon: QuotaDeal[],
+  openPipeline: QuotaDeal[]
+): QuotaAttainment {
+  const closedWonARR = sumFor(closedWon, ownerIds, false);
+  const openPipelineARR = sumFor(openPipeline, ownerIds, false);
+  const weightedPipelineARR = sumFor(openPipeline, ownerIds, true);
+  const gap = quota === null ? null : Math.max(quota - closedWonARR, 0);
+
+  return {
+    id,
+    name,
+    quota,
+    closedWonARR,
+    attainment: quota ? closedWonARR / quota : null,
+    gap,
+    openPipelineARR,
+    weightedPipelineARR,
+    coverage: gap ? openPipelineARR / gap : null,
+    weightedCoverage: gap ? weightedPipelineARR / gap : null,
+  };
+}
+
+/**
+ * Works out attainment, gap and coverage for each rep, team and the total
+ *
+ * @param closedWon - Deals closed won in the quarter so far
+ * @param openPipeline - Open deals closing in the quarter, with stage weights
+ */
+export function buildQuotaReport(
+  quotas: QuotaSet,
+  directory: OwnerDirectory,
+  closedWon: QuotaDeal[],
+  openPipeline: QuotaDeal[]
+): QuotaReport {
+  // Reps with a quota, plus anyone else with deals in the quarter
+  const repIds = new Set<string>([
+    ...quotas.reps.keys(),
+    ...[...closedWon, ...openPipeline].map(deal => deal.ownerId).filter((id): id is string => !!id),
+  ]);
+
+  const reps = Array.from(repIds)
+    .map(ownerId => toAttainment(
+      ownerId,
+      getOwnerName(directory, ownerId) || 'Unknown Owner',
+      quotas.reps.get(ownerId) ?? null,
+      new Set([ownerId]),
+      closedWon,
+      openPipeline
+    ))
+    .sort((a, b) => (b.attainment ?? -1) - (a.attainment ?? -1) || b.closedWonARR - a.closedWonARR);
+
+  // Teams with a quota or with members who have one
+  const teams = Array.from(directory.teams.values())
+    .filter(team => quotas.teams.has(team.id) || team.memberIds.some(id => quotas.reps.has(id)))
+    .map(team => {
+      const memberQuotas = team.memberIds
+        .filter(id => quotas.reps.has(id))
+        .reduce((sum, id) => sum + quotas.reps.get(id)!, 0);
+      return toAttainment(
+        team.id,
+        team.name,
+        quotas.teams.get(team.id) ?? memberQuotas,
+        new Set(team.memberIds),
+        closedWon,
+        openPipeline
+      );
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const sumOf = (values: Iterable<number>) => Array.from(values).reduce((sum, value) => sum + value, 0);
+  const totalQuota = quotas.total
+    ?? (quotas.reps.size > 0 ? sumOf(quotas.reps.values()) : sumOf(quotas.teams.values()));
+
+  return {
+    source: quotas.source,
+    reps,
+    teams,
+    total: toAttainment(null, 'Total', totalQuota, null, closedWon, openPipeline),
+    unmatched: quotas.unmatched,
+  };
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+function formatCurrency(amount: number | null): string {
+  return amount === null ? '—' : formatAmount(amount);
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function formatCoverage(value: number | null, gap: number | null): string {
+  if (gap === 0) return 'met';
+  return value === null ? '—' : `${value.toFixed(1)}x`;
+}
+
+/**
+ * Formats the quota report as report lines
+ */
+export function generateQuotaText(report: QuotaReport): string[] {
+  const lines: string[] = [];
+  const header =
+    ''.padEnd(24) + 'Quota'.padEnd(14) + 'Closed won'.padEnd(14) + 'Attain.'.padEnd(9) +
+    'Gap'.padEnd(14) + 'Pipeline'.padEnd(14) + 'Coverage'.padEnd(10) + 'Weighted';
+  const row = (line: QuotaAttainment) =>
+    line.name.substring(0, 22).padEnd(24) +
+    formatCurrency(line.quota).padEnd(14) +
+    formatCurrency(line.closedWonARR).padEnd(14) +
+    formatPercent(line.attainment).padEnd(9) +
+    formatCurrency(line.gap).padEnd(14) +
+    formatCurrency(line.openPipelineARR).padEnd(14) +
+    formatCoverage(line.coverage, line.gap).padEnd(10) +
+    formatCoverage(line.weightedCoverage, line.gap);
+
+  lines.push(`Quotas from ${report.source === 'hubspot' ? 'HubSpot goals' : 'the quota file'}. Coverage = open pipeline closing this quarter ÷ remaining gap.`);
+  lines.push('');
+  lines.push(header);
+  lines.push('─'.repeat(100));
+  lines.push(row(report.total));
+  lines.push('');
+
+  if (report.teams.length > 0) {
+    lines.push('By team:');
+    report.teams.forEach(team => lines.push(row(team)));
+    lines.push('');
+  }
+
+  lines.push('By rep:');
+  report.reps.forEach(rep => lines.push(row(rep)));
+
+  if (report.unmatched.length > 0) {
+    lines.push('');
+    lines.push(`⚠️  Quotas not matched to a HubSpot owner or team: ${report.unmatched.join(', ')}`);
+  }
+
+  return lines;
+}
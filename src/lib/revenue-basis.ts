@@ -0,0 +1,91 @@
+import {
+  getCurrencySettings,
+  convertDealValue,
+  parseAmount,
+  type CurrencySettings,
+  type DealAmount,
+} from './currency.js';
+
+/**
+ * Revenue basis
+ *
+ * Which deal property the financial reports add up. Amount is what reps type
+ * in; HubSpot calculates ARR, ACV, TCV and MRR from the deal's line items:
+ * - amount: amount (default)
+ * - arr: hs_arr
+ * - acv: hs_acv
+ * - tcv: hs_tcv
+ * - mrr: hs_mrr × 12
+ *
+ * Values are converted to the reporting currency like amounts (see currency.ts).
+ * Every report shows the basis it used, and forecast snapshots record it.
+ *
+ * Optional environment variables:
+ * - REVENUE_BASIS: amount, arr, acv, tcv or mrr (default: amount)
+ */
+
+export type RevenueBasis = 'amount' | 'arr' | 'acv' | 'tcv' | 'mrr';
+
+export interface RevenueBasisDefinition {
+  label: string;                   // Short name for report headings
+  property: string;                // HubSpot deal property
+  multiplier: number;              // Applied to the property value (MRR -> annual)
+}
+
+export const REVENUE_BASES: Record<RevenueBasis, RevenueBasisDefinition> = {
+  amount: { label: 'Amount', property: 'amount', multiplier: 1 },
+  arr: { label: 'ARR', property: 'hs_arr', multiplier: 1 },
+  acv: { label: 'ACV', property: 'hs_acv', multiplier: 1 },
+  tcv: { label: 'TCV', property: 'hs_tcv', multiplier: 1 },
+  mrr: { label: 'MRR × 12', property: 'hs_mrr', multiplier: 12 },
+};
+
+/**
+ * Whether a value is a known revenue basis
+ */
+export function isRevenueBasis(value: string): value is RevenueBasis {
+  return Object.prototype.hasOwnProperty.call(REVENUE_BASES, value);
+}
+
+/**
+ * Reads the revenue basis from the environment
+ *
+ * @throws Error if REVENUE_BASIS isn't a known basis
+ */
+export function getRevenueBasis(): RevenueBasis {
+  const basis = (process.env.REVENUE_BASIS || 'amount').trim().toLowerCase();
+  if (!isRevenueBasis(basis)) {
+    throw new Error(
+      `REVENUE_BASIS must be one of ${Object.keys(REVENUE_BASES).join(', ')}, got "${process.env.REVENUE_BASIS}"`
+    );
+  }
+  return basis;
+}
+
+/**
+ * Describes a basis for report headers, e.g. "ARR (hs_arr)"
+ */
+export function describeRevenueBasis(basis: RevenueBasis): string {
+  const { label, property } = REVENUE_BASES[basis];
+  return `${label} (${property})`;
+}
+
+/**
+ * A deal's revenue on a basis, in the deal currency (null if the property is empty)
+ */
+export function getDealRevenueValue(properties: Record<string, any>, basis: RevenueBasis): number | null {
+  const { property, multiplier } = REVENUE_BASES[basis];
+  const value = parseAmount(properties[property]);
+  return value === null ? null : value * multiplier;
+}
+
+/**
+ * A deal's revenue on a basis, converted to the reporting currency
+ */
+export function getDealRevenue(
+  properties: Record<string, any>,
+  basis: RevenueBasis = getRevenueBasis(),
+  settings: CurrencySettings = getCurrencySettings()
+): DealAmount {
+  return convertDealValue(getDealRevenueValue(properties, basis), properties, settings);
+}
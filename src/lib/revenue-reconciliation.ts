@@ -0,0 +1,216 @@
+import type { Deal } from '../hubspot.js';
+import { getStageName, type PipelineRegistry } from './pipeline-registry.js';
+import {
+  getCurrencySettings,
+  parseAmount,
+  isUnconverted,
+  toUnconvertedDeal,
+  formatCurrency,
+  describeUnconvertedDeals,
+  type UnconvertedDeal,
+} from './currency.js';
+import {
+  REVENUE_BASES,
+  getRevenueBasis,
+  getDealRevenue,
+  describeRevenueBasis,
+  type RevenueBasis,
+} from './revenue-basis.js';
+
+/**
+ * Revenue reconciliation
+ *
+ * Totals the same deals on every revenue basis side by side, and flags deals
+ * whose amount disagrees with HubSpot's calculated ARR (hs_arr) by more than
+ * the tolerance. The comparison is made in the deal currency; totals and
+ * differences are shown in the reporting currency.
+ *
+ * A deal without line items has no hs_arr; those are counted, not flagged.
+ *
+ * Optional environment variables:
+ * - REVENUE_RECONCILIATION_TOLERANCE: Allowed difference, in % of hs_arr (default: 5)
+ */
+
+const DEFAULT_TOLERANCE_PERCENT = 5;
+
+export interface BasisTotal {
+  basis: RevenueBasis;
+  label: string;
+  total: number;                   // In the reporting currency
+  dealsWithValue: number;
+}
+
+export interface RevenueMismatch {
+  dealId: string;
+  dealName: string;
+  stageName: string;
+  currency: string;                // Deal currency
+  amount: number | null;           // In the reporting currency (null if unconvertible)
+  arr: number | null;              // hs_arr in the reporting currency (null if unconvertible)
+  difference: number | null;       // amount - hs_arr in the reporting currency
+  originalDifference: number;      // amount - hs_arr in the deal currency
+  differencePercent: number | null; // Of hs_arr (null when hs_arr is 0)
+}
+
+export interface RevenueReconciliation {
+  revenueBasis: RevenueBasis;      // Basis the other reports are using
+  tolerancePercent: number;
+  dealsAnalyzed: number;
+  totals: BasisTotal[];
+  mismatches: RevenueMismatch[];   // Largest difference first
+  missingArr: number;              // Deals with an amount but no hs_arr
+  missingAmount: number;           // Deals with hs_arr but no amount
+  unconvertedDeals: UnconvertedDeal[];
+}
+
+/**
+ * Reads the mismatch tolerance from the environment
+ */
+export function getReconciliationTolerance(): number {
+  const tolerance = parseFloat(process.env.REVENUE_RECONCILIATION_TOLERANCE || String(DEFAULT_TOLERANCE_PERCENT));
+  return isNaN(tolerance) || tolerance < 0 ? DEFAULT_TOLERANCE_PERCENT : tolerance;
+}
+
+/**
+ * Reconciles amount with hs_arr and totals every revenue basis
+ *
+ * @param deals - Deals with the financial properties (the "forecast" property set)
+ */
+export function buildRevenueReconciliation(
+  deals: Deal[],
+  registry: PipelineRegistry,
+  tolerancePercent: number = getReconciliationTolerance()
+): RevenueReconciliation {
+  const settings = getCurrencySettings();
+  const bases = Object.keys(REVENUE_BASES) as RevenueBasis[];
+  const unconverted = new Map<string, UnconvertedDeal>();
+
+  const totals: BasisTotal[] = bases.map(basis => {
+    let total = 0;
+    let dealsWithValue = 0;
+
+    for (const deal of deals) {
+      const revenue = getDealRevenue(deal.properties, basis, settings);
+      if (isUnconverted(revenue)) {
+        unconverted.set(deal.id, toUnconvertedDeal(deal, revenue));
+      } else if (revenue.amount !== null) {
+        total += revenue.amount;
+        dealsWithValue++;
+      }
+    }
+
+    return { basis, label: REVENUE_BASES[basis].label, total, dealsWithValue };
+  });
+
+  const mismatches: RevenueMismatch[] = [];
+  let missingArr = 0;
+  let missingAmount = 0;
+
+  for (const deal of deals) {
+    const amount = parseAmount(deal.properties.amount);
+    const arr = parseAmount(deal.properties.hs_arr);
+    if (amount === null && arr === null) continue;
+    if (arr === null) { missingArr++; continue; }
+    if (amount === null) { missingAmount++; continue; }
+
+    const difference = amount - arr;
+    const differencePercent = arr !== 0 ? (difference / Math.abs(arr)) * 100 : null;
+    const withinTolerance = differencePercent !== null
+      ? Math.abs(differencePercent) <= tolerancePercent
+      : difference === 0;
+    if (withinTolerance) continue;
+
+    const convertedAmount = getDealRevenue(deal.properties, 'amount', settings);
+    const convertedArr = getDealRevenue(deal.properties, 'arr', settings);
+    mismatches.push({
+      dealId: deal.id,
+      dealName: deal.properties.dealname || 'Untitled Deal',
+      stageName: getStageName(registry, deal.properties.dealstage || ''),
+      currency: convertedAmount.currency,
+      amount: convertedAmount.amount,
+      arr: convertedArr.amount,
+      difference: convertedAmount.amount !== null && convertedArr.amount !== null
+        ? convertedAmount.amount - convertedArr.amount
+        : null,
+      originalDifference: difference,
+      differencePercent,
+    });
+  }
+
+  mismatches.sort((a, b) => Math.abs(b.difference ?? 0) - Math.abs(a.difference ?? 0));
+
+  return {
+    revenueBasis: getRevenueBasis(),
+    tolerancePercent,
+    dealsAnalyzed: deals.length,
+    totals,
+    mismatches,
+    missingArr,
+    missingAmount,
+    unconvertedDeals: [...unconverted.values()],
+  };
+}
+
+function formatDifference(mismatch: RevenueMismatch): string {
+  const amount = mismatch.difference === null
+    ? `${mismatch.originalDifference >= 0 ? '+' : '-'}${formatCurrency(Math.abs(mismatch.originalDifference), mismatch.currency)}`
+    : `${mismatch.difference >= 0 ? '+' : '-'}${formatCurrency(Math.abs(mismatch.difference))}`;
+  const percent = mismatch.differencePercent === null
+    ? ''
+    : ` (${mismatch.differencePercent >= 0 ? '+' : ''}${Math.round(mismatch.differencePercent)}%)`;
+  return amount + percent;
+}
+
+/**
+ * Formats the reconciliation as report lines
+ */
+export function generateReconciliationText(report: RevenueReconciliation): string[] {
+  const lines: string[] = [];
+  const amountTotal = report.totals.find(total => total.basis === 'amount')?.total ?? 0;
+
+  lines.push(
+    `📊 Deals analyzed: ${report.dealsAnalyzed} | Reports use: ${describeRevenueBasis(report.revenueBasis)} | ` +
+    `Currency: ${getCurrencySettings().reportingCurrency}`
+  );
+  lines.push(...describeUnconvertedDeals(report.unconvertedDeals));
+  lines.push('');
+
+  lines.push('💵 TOTALS BY REVENUE BASIS');
+  lines.push('Basis'.padEnd(24) + 'Total'.padEnd(18) + 'Deals with value'.padEnd(18) + 'vs Amount');
+  lines.push('─'.repeat(80));
+  for (const total of report.totals) {
+    const marker = total.basis === report.revenueBasis ? ' ◀' : '';
+    const versusAmount = amountTotal !== 0
+      ? `${Math.round((total.total / amountTotal) * 100)}%`
+      : 'N/A';
+    lines.push(
+      describeRevenueBasis(total.basis).padEnd(24) +
+      formatCurrency(total.total).padEnd(18) +
+      String(total.dealsWithValue).padEnd(18) +
+      versusAmount + marker
+    );
+  }
+  lines.push('');
+
+  lines.push(`⚖️  AMOUNT VS HS_ARR (tolerance ${report.tolerancePercent}%)`);
+  lines.push(
+    `Mismatches: ${report.mismatches.length} | Amount but no hs_arr: ${report.missingArr} | ` +
+    `hs_arr but no amount: ${report.missingAmount}`
+  );
+  if (report.mismatches.length > 0) {
+    lines.push('');
+    lines.push('Deal'.padEnd(32) + 'Stage'.padEnd(20) + 'Amount'.padEnd(16) + 'hs_arr'.padEnd(16) + 'Difference');
+    lines.push('─'.repeat(100));
+    for (const mismatch of report.mismatches) {
+      lines.push(
+        mismatch.dealName.substring(0, 30).padEnd(32) +
+        mismatch.stageName.substring(0, 18).padEnd(20) +
+        formatCurrency(mismatch.amount).padEnd(16) +
+        formatCurrency(mismatch.arr).padEnd(16) +
+        formatDifference(mismatch)
+      );
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,124 @@
+import { resolveStageDateProperty, type Deal, type Pipeline } from '../hubspot.js';
+import type { DealTimeline } from './deal-history.js';
+
+/**
+ * Stage process compliance
+ *
+ * Detects deals that moved backwards in the pipeline (e.g. Proposal back to
+ * Demo) or skipped a required stage (e.g. SQL straight to Proposal).
+ *
+ * The stage path comes from the deal's dealstage history when available. If
+ * it isn't, the path is rebuilt from the date-entered property of every stage
+ * in the pipeline; those only hold the latest entry per stage, so a deal that
+ * went back and forth more than once shows up as a single regression.
+ */
+
+export type StageComplianceIssueType = 'regression' | 'skip';
+
+export interface StageComplianceIssue {
+  type: StageComplianceIssueType;
+  fromStageId: string | null;  // null when the deal was created in the later stage
+  toStageId: string;
+  skippedStageIds: string[];   // Required stages jumped over (skips only)
+  at: Date;
+}
+
+interface StageStep {
+  stageId: string;
+  enteredAt: Date;
+}
+
+/**
+ * Lists the stages a deal has been in, oldest first
+ */
+export function buildStagePath(deal: Deal, pipeline: Pipeline, timeline?: DealTimeline): StageStep[] {
+  if (timeline && timeline.stageVisits.length > 0) {
+    return timeline.stageVisits.map(visit => ({ stageId: visit.stageId, enteredAt: visit.enteredAt }));
+  }
+
+  const steps: StageStep[] = [];
+  for (const stage of pipeline.stages) {
+    const dateProperty = resolveStageDateProperty(deal, stage.id);
+    if (dateProperty?.value) {
+      steps.push({ stageId: stage.id, enteredAt: new Date(dateProperty.value) });
+    }
+  }
+
+  return steps.sort((a, b) => a.enteredAt.getTime() - b.enteredAt.getTime());
+}
+
+/**
+ * Finds regressions and required-stage skips along a deal's stage path
+ *
+ * @param requiredStageIds - Stages every deal is expected to pass through
+ */
+export function detectStageIssues(
+  path: StageStep[],
+  pipeline: Pipeline,
+  requiredStageIds: string[]
+): StageComplianceIssue[] {
+  const order = new Map(pipeline.stages.map(stage => [stage.id, stage.displayOrder]));
+  const required = pipeline.stages
+    .filter(stage => requiredStageIds.includes(stage.id))
+    .sort((a, b) => a.displayOrder - b.displayOrder);
+
+  const issues: StageComplianceIssue[] = [];
+  const visited = new Set<string>();
+
+  path.forEach((step, index) => {
+    const previous = path[index - 1];
+    const toOrder = order.get(step.stageId);
+    const fromOrder = previous ? order.get(previous.stageId) : undefined;
+
+    // Stages from another pipeline (deal was moved between pipelines) can't be compared
+    if (toOrder === undefined || (previous && fromOrder === undefined)) {
+      visited.add(step.stageId);
+      return;
+    }
+
+    if (previous && fromOrder !== undefined && toOrder < fromOrder) {
+      issues.push({
+        type: 'regression',
+        fromStageId: previous.stageId,
+        toStageId: step.stageId,
+        skippedStageIds: [],
+        at: step.enteredAt,
+      });
+    } else {
+      const skipped = required
+        .filter(stage =>
+          stage.displayOrder < toOrder &&
+          (fromOrder === undefined || stage.displayOrder > fromOrder) &&
+          !visited.has(stage.id)
+        )
+        .map(stage => stage.id);
+
+      if (skipped.length > 0) {
+        issues.push({
+          type: 'skip',
+          fromStageId: previous ? previous.stageId : null,
+          toStageId: step.stageId,
+          skippedStageIds: skipped,
+          at: step.enteredAt,
+        });
+      }
+    }
+
+    visited.add(step.stageId);
+  });
+
+  return issues;
+}
+
+/**
+ * Describes an issue for flag reasons, e.g. "Moved Backwards (Proposal → Demo)"
+ * or "Skipped Stage (SQL)"
+ */
+export function describeStageIssue(issue: StageComplianceIssue, stageNames: Map<string, string>): string {
+  const name = (stageId: string | null) => (stageId ? stageNames.get(stageId) || stageId : 'Created');
+
+  if (issue.type === 'regression') {
+    return `Moved Backwards (${name(issue.fromStageId)} → ${name(issue.toStageId)})`;
+  }
+  return `Skipped Stage (${issue.skippedStageIds.map(name).join(', ')})`;
+}
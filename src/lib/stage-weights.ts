@@ -0,0 +1,176 @@
+import { resolveStageDateProperty, type Deal } from '../hubspot.js';
+import type { PipelineRegistry, RegisteredStage } from './pipeline-registry.js';
+
+/**
+ * Stage weights for the weighted pipeline
+ *
+ * Each stage can be weighted three ways:
+ * - manual: forecastWeight in config/pipeline.json
+ * - hubspot: the stage probability set on the pipeline in HubSpot
+ * - historical: the win rate of recently closed deals that passed through the
+ *   stage (won / (won + lost)), based on the stage's date-entered property
+ *
+ * FORECAST_WEIGHT_SOURCE picks the one used for the weighted pipeline. When it
+ * has no value for a stage (no manual weight, no HubSpot probability, or too
+ * few closed deals to calibrate), the next available source is used in the
+ * order manual, hubspot, historical.
+ *
+ * Optional environment variables:
+ * - FORECAST_WEIGHT_SOURCE: manual, hubspot or historical (default: manual)
+ * - WEIGHT_CALIBRATION_DAYS: Closed deals from this many days back are used for calibration (default: 365)
+ * - WEIGHT_CALIBRATION_MIN_DEALS: Closed deals a stage needs before its historical weight is used (default: 10)
+ */
+
+const DEFAULT_CALIBRATION_DAYS = 365;
+const DEFAULT_MIN_DEALS = 10;
+
+export type WeightSource = 'manual' | 'hubspot' | 'historical';
+
+const WEIGHT_SOURCES: WeightSource[] = ['manual', 'hubspot', 'historical'];
+
+export interface CalibrationSettings {
+  source: WeightSource;
+  lookbackDays: number;
+  minDeals: number;
+}
+
+export interface StageWeightCalibration {
+  stageId: string;
+  stageName: string;
+  manualWeight: number | null;
+  hubspotProbability: number | null;
+  historicalWinRate: number | null; // null when fewer than minDeals closed deals passed through the stage
+  closedDeals: number;              // Closed deals that passed through the stage in the lookback
+  wonDeals: number;
+  weight: number;                   // Weight used for the weighted pipeline
+  weightSource: WeightSource | null; // null when no source had a value (weight is 0)
+}
+
+export interface StageWeightReport {
+  settings: CalibrationSettings;
+  lookbackStart: Date;
+  stages: StageWeightCalibration[];
+}
+
+/**
+ * Reads the weight source and calibration settings from the environment
+ *
+ * @throws Error if FORECAST_WEIGHT_SOURCE isn't a known source
+ */
+export function getCalibrationSettings(): CalibrationSettings {
+  const source = (process.env.FORECAST_WEIGHT_SOURCE || 'manual').trim().toLowerCase() as WeightSource;
+  if (!WEIGHT_SOURCES.includes(source)) {
+    throw new Error(`FORECAST_WEIGHT_SOURCE must be one of ${WEIGHT_SOURCES.join(', ')}, got "${process.env.FORECAST_WEIGHT_SOURCE}"`);
+  }
+
+  const lookbackDays = parseInt(process.env.WEIGHT_CALIBRATION_DAYS || String(DEFAULT_CALIBRATION_DAYS), 10);
+  const minDeals = parseInt(process.env.WEIGHT_CALIBRATION_MIN_DEALS || String(DEFAULT_MIN_DEALS), 10);
+
+  return {
+    source,
+    lookbackDays: isNaN(lookbackDays) ? DEFAULT_CALIBRATION_DAYS : lookbackDays,
+    minDeals: isNaN(minDeals) ? DEFAULT_MIN_DEALS : minDeals,
+  };
+}
+
+/**
+ * Start of the calibration lookback window
+ */
+export function getLookbackStart(settings: CalibrationSettings, now: Date = new Date()): Date {
+  return new Date(now.getTime() - settings.lookbackDays * 24 * 60 * 60 * 1000);
+}
+
+function pickWeight(
+  values: Record<WeightSource, number | null>,
+  preferred: WeightSource
+): { weight: number; weightSource: WeightSource | null } {
+  for (const source of [preferred, ...WEIGHT_SOURCES.filter(s => s !== preferred)]) {
+    const value = values[source];
+    if (value !== null) return { weight: value, weightSource: source };
+  }
+  return { weight: 0, weightSource: null };
+}
+
+/**
+ * Calibrates weights for the given stages from closed deals
+ *
+ * @param closedDeals - Won and lost deals closed in the lookback window, with
+ *                      stage date properties
+ */
+export function calibrateStageWeights(
+  stages: RegisteredStage[],
+  closedDeals: Deal[],
+  registry: PipelineRegistry,
+  settings: CalibrationSettings = getCalibrationSettings(),
+  now: Date = new Date()
+): StageWeightReport {
+  const wonStageIds = registry.reports.closedWon.map(stage => stage.id);
+  const lostStageIds = registry.reports.closedLost.map(stage => stage.id);
+
+  const calibrated = stages.map(stage => {
+    const passedThrough = closedDeals.filter(deal => resolveStageDateProperty(deal, stage.id)?.value);
+    const won = passedThrough.filter(deal => wonStageIds.includes(deal.properties.dealstage)).length;
+    const lost = passedThrough.filter(deal => lostStageIds.includes(deal.properties.dealstage)).length;
+    const closed = won + lost;
+
+    const values: Record<WeightSource, number | null> = {
+      manual: stage.forecastWeight,
+      hubspot: stage.probability,
+      historical: closed >= settings.minDeals && closed > 0 ? won / closed : null,
+    };
+
+    return {
+      stageId: stage.id,
+      stageName: stage.reportName,
+      manualWeight: values.manual,
+      hubspotProbability: values.hubspot,
+      historicalWinRate: values.historical,
+      closedDeals: closed,
+      wonDeals: won,
+      ...pickWeight(values, settings.source),
+    };
+  });
+
+  return { settings, lookbackStart: getLookbackStart(settings, now), stages: calibrated };
+}
+
+function formatWeight(weight: number | null): string {
+  return weight === null ? '—' : `${Math.round(weight * 100)}%`;
+}
+
+/**
+ * Formats the weights side by side as report lines
+ */
+export function generateStageWeightText(report: StageWeightReport): string[] {
+  const { settings } = report;
+  const lines: string[] = [];
+
+  lines.push(
+    `Weighted pipeline uses: ${settings.source} weights | Historical = win rate of deals closed since ` +
+    `${report.lookbackStart.toLocaleDateString('en-US')} that passed through the stage (min ${settings.minDeals} deals)`
+  );
+  lines.push('');
+  lines.push(
+    'Stage'.padEnd(20) + 'Manual'.padEnd(10) + 'HubSpot'.padEnd(10) + 'Historical'.padEnd(22) + 'Used'
+  );
+  lines.push('─'.repeat(80));
+
+  for (const stage of report.stages) {
+    const historical = stage.closedDeals > 0
+      ? `${formatWeight(stage.historicalWinRate)} (${stage.wonDeals}/${stage.closedDeals} won)`
+      : '— (no closed deals)';
+    const used = stage.weightSource
+      ? `${formatWeight(stage.weight)} (${stage.weightSource})`
+      : '0% (no weight available)';
+
+    lines.push(
+      stage.stageName.substring(0, 18).padEnd(20) +
+      formatWeight(stage.manualWeight).padEnd(10) +
+      formatWeight(stage.hubspotProbability).padEnd(10) +
+      historical.padEnd(22) +
+      used
+    );
+  }
+
+  return lines;
+}
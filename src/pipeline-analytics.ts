@@ -0,0 +1,191 @@
+import 'dotenv/config';
+import { writeFileSync } from 'fs';
+import { searchDeals } from './hubspot.js';
+import { DealQuery } from './lib/deal-query.js';
+import { getPropertySet } from './lib/property-sets.js';
+import { loadPipelineRegistry } from './lib/pipeline-registry.js';
+import {
+  buildPipelineAnalytics,
+  generatePipelineAnalyticsText,
+  generatePipelineAnalyticsSection,
+  type AnalyticsWindow,
+} from './lib/pipeline-analytics.js';
+import { createGoogleDoc } from './lib/google-drive.js';
+import { insertTextToDoc } from './lib/google-docs.js';
+
+/**
+ * Pipeline analytics
+ *
+ * Stage-to-stage conversion rates, days per stage for won vs lost deals, and
+ * sales velocity for the pipeline in config/pipeline.json.
+ *
+ * Usage:
+ *   npm run pipeline-analytics                                  # Last 90 days
+ *   npm run pipeline-analytics -- --days 180
+ *   npm run pipeline-analytics -- --from 2026-01-01 --to 2026-06-30
+ *   npm run pipeline-analytics -- --json                        # JSON to stdout
+ *   npm run pipeline-analytics -- --json analytics.json         # JSON to a file
+ *   npm run pipeline-analytics -- --gdrive                      # Also create a Google Doc
+ *
+ * --gdrive needs GOOGLE_DRIVE_FOLDER_ID and Google credentials (see deal-hygiene-gdrive).
+ */
+
+const DEFAULT_WINDOW_DAYS = 90;
+
+interface AnalyticsOptions {
+  window: AnalyticsWindow;
+  json: boolean;
+  jsonPath: string | null;
+  gdrive: boolean;
+}
+
+function getArgValue(args: string[], flag: string): string | null {
+  const index = args.indexOf(flag);
+  if (index === -1) return null;
+
+  const value = args[index + 1];
+  return value && !value.startsWith('--') ? value : null;
+}
+
+function parseDateArg(value: string, flag: string): Date {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new Error(`${flag} must be a YYYY-MM-DD date`);
+  }
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function parseOptions(args: string[], now: Date = new Date()): AnalyticsOptions {
+  const from = getArgValue(args, '--from');
+  const to = getArgValue(args, '--to');
+  const daysArg = getArgValue(args, '--days');
+
+  const end = to ? parseDateArg(to, '--to') : new Date(now);
+  if (to) end.setHours(23, 59, 59, 999);
+
+  let start: Date;
+  if (from) {
+    start = parseDateArg(from, '--from');
+  } else {
+    const days = daysArg ? parseInt(daysArg, 10) : DEFAULT_WINDOW_DAYS;
+    if (isNaN(days) || days < 1) {
+      throw new Error('--days must be a positive whole number');
+    }
+    start = new Date(end.getTime() - days * 24 * 60 * 60 * 1000);
+  }
+
+  if (start > end) {
+    throw new Error('--from must be before --to');
+  }
+
+  return {
+    window: { start, end },
+    json: args.includes('--json'),
+    jsonPath: getArgValue(args, '--json'),
+    gdrive: args.includes('--gdrive'),
+  };
+}
+
+/**
+ * Creates a Google Doc with the analytics section
+ */
+async function uploadAnalyticsDoc(section: string[]): Promise<string | null | undefined> {
+  if (!process.env.GOOGLE_DRIVE_FOLDER_ID) {
+    throw new Error('GOOGLE_DRIVE_FOLDER_ID environment variable is required for --gdrive');
+  }
+
+  const today = new Date();
+  const docName = `Pipeline Analytics - ${today.toISOString().split('T')[0]}`;
+  const doc = await createGoogleDoc(docName, process.env.GOOGLE_DRIVE_FOLDER_ID);
+
+  if (!doc.id) {
+    throw new Error('Failed to create Google Doc - no document ID returned');
+  }
+
+  await insertTextToDoc(doc.id, [
+    '═'.repeat(80),
+    'PIPELINE ANALYTICS REPORT',
+    `Generated: ${today.toLocaleString('en-US', {
+      timeZone: 'America/New_York',
+      dateStyle: 'full',
+      timeStyle: 'long'
+    })}`,
+    '═'.repeat(80),
+    '',
+    ...section,
+    '━'.repeat(80),
+    'END OF REPORT',
+    '━'.repeat(80),
+  ]);
+
+  return doc.webViewLink;
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  const accessToken = process.env.HUBSPOT_ACCESS_TOKEN;
+  if (!accessToken) {
+    console.error('❌ Error: HUBSPOT_ACCESS_TOKEN environment variable is required');
+    process.exit(1);
+  }
+
+  try {
+    const options = parseOptions(process.argv.slice(2));
+
+    // With --json on stdout, progress goes to stderr so the output stays parseable
+    const log = options.json && !options.jsonPath ? console.error : console.log;
+    log('🚀 Building pipeline analytics...\n');
+
+    log('🔍 Loading pipeline configuration...');
+    const registry = await loadPipelineRegistry(accessToken);
+    log(`✅ Pipeline: "${registry.pipeline.label}"\n`);
+
+    // Open deals plus every deal that closed on or after the window start
+    log('📥 Fetching deals...');
+    const query = new DealQuery()
+      .inPipeline(registry.pipeline.id)
+      .where('createdate', 'LTE', options.window.end)
+      .anyOf(
+        q => q.where('hs_is_closed', 'EQ', 'false'),
+        q => q.closeDateOnOrAfter(options.window.start)
+      )
+      .select(getPropertySet('forecast', [registry.pipeline]));
+    const { results: deals } = await searchDeals(accessToken, query);
+    log(`✅ Found ${deals.length} deal(s)\n`);
+
+    const report = buildPipelineAnalytics(deals, registry, options.window);
+
+    if (options.json) {
+      const json = JSON.stringify(report, null, 2);
+      if (options.jsonPath) {
+        writeFileSync(options.jsonPath, json + '\n');
+        log(`💾 Saved JSON to ${options.jsonPath}\n`);
+      } else {
+        console.log(json);
+      }
+    } else {
+      console.log('━'.repeat(80));
+      console.log('📈 PIPELINE ANALYTICS');
+      console.log('━'.repeat(80));
+      console.log('');
+      generatePipelineAnalyticsText(report).forEach(line => console.log(line));
+      console.log('━'.repeat(80));
+      console.log('');
+    }
+
+    if (options.gdrive) {
+      log('📤 Creating Google Doc...');
+      const link = await uploadAnalyticsDoc(generatePipelineAnalyticsSection(report));
+      log(`✅ Document created: ${link}\n`);
+    }
+
+    log('✨ Done!\n');
+  } catch (error) {
+    console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,96 @@
+import 'dotenv/config';
+import { searchDeals } from './hubspot.js';
+import { DealQuery } from './lib/deal-query.js';
+import { getPropertySet } from './lib/property-sets.js';
+import { loadPipelineRegistry } from './lib/pipeline-registry.js';
+import {
+  buildRevenueReconciliation,
+  generateReconciliationText,
+} from './lib/revenue-reconciliation.js';
+
+/**
+ * Revenue reconciliation
+ *
+ * Totals open deals (and deals closed in the last --days days) on every
+ * revenue basis - amount, ARR, ACV, TCV and MRR × 12 - and lists deals whose
+ * amount disagrees with hs_arr by more than REVENUE_RECONCILIATION_TOLERANCE.
+ * Use it to check a basis before switching REVENUE_BASIS.
+ *
+ * Usage:
+ *   npm run revenue-reconciliation                         # Open deals + closed in the last 90 days
+ *   npm run revenue-reconciliation -- --days 365
+ *   npm run revenue-reconciliation -- --json               # JSON to stdout
+ */
+
+const DEFAULT_CLOSED_DAYS = 90;
+
+function getArgValue(args: string[], flag: string): string | null {
+  const index = args.indexOf(flag);
+  if (index === -1) return null;
+
+  const value = args[index + 1];
+  return value && !value.startsWith('--') ? value : null;
+}
+
+/**
+ * Main function
+ */
+async function main() {
+  const accessToken = process.env.HUBSPOT_ACCESS_TOKEN;
+  if (!accessToken) {
+    console.error('❌ Error: HUBSPOT_ACCESS_TOKEN environment variable is required');
+    process.exit(1);
+  }
+
+  try {
+    const args = process.argv.slice(2);
+    const daysArg = getArgValue(args, '--days');
+    const days = daysArg ? parseInt(daysArg, 10) : DEFAULT_CLOSED_DAYS;
+    if (isNaN(days) || days < 1) {
+      throw new Error('--days must be a positive whole number');
+    }
+
+    // With --json, progress goes to stderr so the output stays parseable
+    const json = args.includes('--json');
+    const log = json ? console.error : console.log;
+    log('🚀 Reconciling deal revenue...\n');
+
+    log('🔍 Loading pipeline configuration...');
+    const registry = await loadPipelineRegistry(accessToken);
+    log(`✅ Pipeline: "${registry.pipeline.label}"\n`);
+
+    log('📥 Fetching deals...');
+    const closedSince = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const query = new DealQuery()
+      .inPipeline(registry.pipeline.id)
+      .anyOf(
+        q => q.where('hs_is_closed', 'EQ', 'false'),
+        q => q.closeDateOnOrAfter(closedSince)
+      )
+      .select(getPropertySet('forecast', [registry.pipeline]));
+    const { results: deals } = await searchDeals(accessToken, query);
+    log(`✅ Found ${deals.length} deal(s)\n`);
+
+    const report = buildRevenueReconciliation(deals, registry);
+
+    if (json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      console.log('━'.repeat(100));
+      console.log('🧮 REVENUE RECONCILIATION');
+      console.log('━'.repeat(100));
+      console.log('');
+      generateReconciliationText(report).forEach(line => console.log(line));
+      console.log('');
+      console.log('━'.repeat(100));
+      console.log('');
+    }
+
+    log('✨ Done!\n');
+  } catch (error) {
+    console.error('\n❌ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,12 +1,38 @@
 import 'dotenv/config';
 import {
-  fetchPipelines,
   searchDealsByStages,
   fetchOwners,
   resolveStageDateProperty,
   type Deal,
-  type Pipeline,
 } from './hubspot.js';
+import { getPropertySet } from './lib/property-sets.js';
+import { loadPipelineRegistry, type PipelineRegistry } from './lib/pipeline-registry.js';
+import {
+  fetchDealTimelines,
+  getCurrentStageVisit,
+  getStageVisits,
+  type DealTimeline,
+} from './lib/deal-history.js';
+import {
+  loadAgingCalendar,
+  countDaysBetween,
+  dayUnit,
+  describeAgingCalendar,
+  type AgingCalendar,
+} from './lib/aging-calendar.js';
+import {
+  buildStagePath,
+  detectStageIssues,
+  describeStageIssue,
+} from './lib/stage-compliance.js';
+import { getRevenueBasis, getDealRevenue, REVENUE_BASES, describeRevenueBasis } from './lib/revenue-basis.js';
+import {
+  isUnconverted,
+  toUnconvertedDeal,
+  formatCurrency,
+  describeUnconvertedDeals,
+  type UnconvertedDeal,
+} from './lib/currency.js';
 import {
   StageConfig,
   StageAgingDeal,
@@ -18,43 +44,22 @@ import {
 // CONFIGURATION
 // ============================================================================
 
-const SALES_PIPELINE_ID = '1c27e5a3-5e5e-4403-ab0f-d356bf268cf3';
-
-const STAGE_CONFIGS: StageConfig[] = [
-  {
-    stageId: '17915773',
-    stageName: 'SQL',
-    thresholdDays: 10,
-    flagReason: 'Stalled in SQL',
-  },
-  {
-    stageId: '963167283',
-    stageName: 'Demo - Completed',
-    thresholdDays: 14,
-    flagReason: 'Stalled in Demo',
-  },
-  {
-    stageId: '59865091',
-    stageName: 'Proposal',
-    thresholdDays: 7,
-    flagReason: 'Stalled in Proposal',
-  },
-];
-
-const NO_ACTIVITY_THRESHOLD_DAYS = 7;
+/**
+ * Aging thresholds for the stages listed under reports.aging in the pipeline config
+ */
+function buildStageConfigs(registry: PipelineRegistry): StageConfig[] {
+  return registry.reports.aging.map(stage => ({
+    stageId: stage.id,
+    stageName: stage.reportName,
+    thresholdDays: stage.agingThresholdDays!,
+    flagReason: stage.flagReason,
+  }));
+}
 
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
-/**
- * Calculates the number of days between two dates
- */
-function calculateDaysBetween(startDate: Date, endDate: Date): number {
-  const diffMs = endDate.getTime() - startDate.getTime();
-  return Math.floor(diffMs / (1000 * 60 * 60 * 24));
-}
-
 /**
  * Formats a date as YYYY-MM-DD
  */
@@ -78,49 +83,57 @@ function formatDateLong(date: Date | null): string {
   });
 }
 
-/**
- * Formats currency
- */
-function formatCurrency(amount: number | null): string {
-  if (amount === null || amount === undefined) return 'N/A';
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(amount);
-}
-
 /**
  * Analyzes a deal for aging issues
  */
 function analyzeDeal(
   deal: Deal,
   stageConfig: StageConfig,
-  pipelineName: string,
-  ownerMap: Map<string, { firstName: string; lastName: string; email: string }>
+  registry: PipelineRegistry,
+  calendar: AgingCalendar,
+  ownerMap: Map<string, { firstName: string; lastName: string; email: string }>,
+  timeline: DealTimeline | undefined
 ): StageAgingDeal | null {
   const now = new Date();
 
-  // Resolve which date property to use
-  const dateProperty = resolveStageDateProperty(deal, stageConfig.stageId);
-
-  if (!dateProperty || !dateProperty.value) {
-    console.log(
-      `  ⚠️  Deal "${deal.properties.dealname}" (${deal.id}): No date-entered property found for stage ${stageConfig.stageName}`
+  // Prefer the stage history; fall back to the date-entered properties
+  const currentVisit = timeline ? getCurrentStageVisit(timeline) : null;
+  let dateEnteredStage: Date;
+  let datePropertyUsed: string;
+  let stageVisitCount = 1;
+  let cumulativeDaysInStage: number | null = null;
+
+  if (currentVisit && currentVisit.stageId === stageConfig.stageId) {
+    const visits = getStageVisits(timeline!, stageConfig.stageId);
+    dateEnteredStage = currentVisit.enteredAt;
+    datePropertyUsed = 'dealstage history';
+    stageVisitCount = visits.length;
+    cumulativeDaysInStage = visits.reduce(
+      (sum, visit) => sum + countDaysBetween(calendar, visit.enteredAt, visit.exitedAt ?? now),
+      0
     );
-    return null;
+  } else {
+    const dateProperty = resolveStageDateProperty(deal, stageConfig.stageId);
+
+    if (!dateProperty || !dateProperty.value) {
+      console.log(
+        `  ⚠️  Deal "${deal.properties.dealname}" (${deal.id}): No stage history or date-entered property found for stage ${stageConfig.stageName}`
+      );
+      return null;
+    }
+
+    dateEnteredStage = new Date(dateProperty.value);
+    datePropertyUsed = dateProperty.property;
   }
 
-  const dateEnteredStage = new Date(dateProperty.value);
-  const daysInStage = calculateDaysBetween(dateEnteredStage, now);
+  const daysInStage = countDaysBetween(calendar, dateEnteredStage, now);
 
   // Parse last modified date
   const lastModifiedDate = deal.properties.hs_lastmodifieddate
     ? new Date(deal.properties.hs_lastmodifieddate)
     : null;
   const daysSinceModified = lastModifiedDate
-    ? calculateDaysBetween(lastModifiedDate, now)
+    ? countDaysBetween(calendar, lastModifiedDate, now)
     : null;
 
   // Parse close date
@@ -137,7 +150,7 @@ function analyzeDeal(
   }
 
   // Check for no recent activity
-  if (daysSinceModified !== null && daysSinceModified > NO_ACTIVITY_THRESHOLD_DAYS) {
+  if (daysSinceModified !== null && daysSinceModified > registry.noActivityThresholdDays) {
     flagReasons.push('No Recent Activity');
   }
 
@@ -146,6 +159,20 @@ function analyzeDeal(
     flagReasons.push('Past-Due Close Date');
   }
 
+  // Check process compliance: backward moves and skipped required stages
+  const complianceIssues = detectStageIssues(
+    buildStagePath(deal, registry.pipeline, timeline),
+    registry.pipeline,
+    registry.stages.filter(stage => stage.required).map(stage => stage.id)
+  );
+  const stageNames = new Map(registry.stages.map(stage => [stage.id, stage.reportName]));
+  for (const issue of complianceIssues) {
+    const reason = describeStageIssue(issue, stageNames);
+    if (!flagReasons.includes(reason)) {
+      flagReasons.push(reason);
+    }
+  }
+
   // Get owner info
   const ownerId = deal.properties.hubspot_owner_id || null;
   const owner = ownerId ? ownerMap.get(ownerId) : null;
@@ -153,18 +180,16 @@ function analyzeDeal(
     ? `${owner.firstName} ${owner.lastName}`.trim()
     : null;
 
-  // Parse amount
-  const amount = deal.properties.amount
-    ? parseFloat(deal.properties.amount)
-    : null;
+  // Revenue on the revenue basis, in the reporting currency (null if missing or unconvertible)
+  const amount = getDealRevenue(deal.properties).amount;
 
   return {
     dealId: deal.id,
     dealName: deal.properties.dealname || 'Unnamed Deal',
     dealStage: stageConfig.stageId,
     dealStageName: stageConfig.stageName,
-    pipeline: SALES_PIPELINE_ID,
-    pipelineName,
+    pipeline: registry.pipeline.id,
+    pipelineName: registry.pipeline.label,
     dealOwner: ownerId,
     dealOwnerName: ownerName,
     amount,
@@ -173,11 +198,14 @@ function analyzeDeal(
     dateEnteredStage,
     dateEnteredStageString: formatDate(dateEnteredStage),
     daysInStage,
+    stageVisitCount,
+    cumulativeDaysInStage: cumulativeDaysInStage ?? daysInStage,
     lastModifiedDate,
     daysSinceModified,
     flagReasons,
+    complianceIssues,
     thresholdDays: stageConfig.thresholdDays,
-    datePropertyUsed: dateProperty.property,
+    datePropertyUsed,
   };
 }
 
@@ -239,19 +267,28 @@ function createStageBreakdown(
 /**
  * Creates overall summary
  */
-function createSummary(deals: StageAgingDeal[]): StageAgingSummary {
+function createSummary(
+  deals: StageAgingDeal[],
+  stageConfigs: StageConfig[],
+  unconvertedDeals: UnconvertedDeal[]
+): StageAgingSummary {
   const totalFlagged = deals.filter(d => d.flagReasons.length > 0).length;
-  const staleDeals = deals.filter(d =>
-    d.flagReasons.some(r => r.includes('Stalled'))
-  ).length;
+  // Stage flag reasons are configurable, so count by the threshold itself
+  const staleDeals = deals.filter(d => d.daysInStage > d.thresholdDays).length;
   const noActivityDeals = deals.filter(d =>
     d.flagReasons.includes('No Recent Activity')
   ).length;
   const pastDueDeals = deals.filter(d =>
     d.flagReasons.includes('Past-Due Close Date')
   ).length;
+  const regressionDeals = deals.filter(d =>
+    d.complianceIssues.some(i => i.type === 'regression')
+  ).length;
+  const skippedStageDeals = deals.filter(d =>
+    d.complianceIssues.some(i => i.type === 'skip')
+  ).length;
 
-  const stageBreakdowns = STAGE_CONFIGS.map(config =>
+  const stageBreakdowns = stageConfigs.map(config =>
     createStageBreakdown(config, deals)
   );
 
@@ -263,15 +300,19 @@ function createSummary(deals: StageAgingDeal[]): StageAgingSummary {
   const overallMedianDays = calculateMedian(allDaysInStage);
 
   return {
+    revenueBasis: getRevenueBasis(),
     totalDeals: deals.length,
     totalFlagged,
     staleDeals,
     noActivityDeals,
     pastDueDeals,
+    regressionDeals,
+    skippedStageDeals,
     stageBreakdowns,
     overallAverageDays: Math.round(overallAverageDays),
     overallMedianDays: Math.round(overallMedianDays),
     allDeals: deals,
+    unconvertedDeals,
   };
 }
 
@@ -282,20 +323,29 @@ function createSummary(deals: StageAgingDeal[]): StageAgingSummary {
 /**
  * Displays the stage aging report to console
  */
-function displayReport(summary: StageAgingSummary): void {
+function displayReport(summary: StageAgingSummary, registry: PipelineRegistry, calendar: AgingCalendar): void {
+  const stageNames = new Map(registry.stages.map(stage => [stage.id, stage.reportName]));
+  const unit = dayUnit(calendar);
+
   console.log('\n' + '━'.repeat(80));
   console.log('📊 STAGE AGING REPORT');
   console.log('━'.repeat(80));
 
   // Overall summary
+  console.log(`\n📅 Aging measured in: ${describeAgingCalendar(calendar)}`);
+
   console.log('\n📈 Overall Summary:');
   console.log(`   Total Deals Analyzed: ${summary.totalDeals}`);
   console.log(`   Flagged Deals: ${summary.totalFlagged}`);
   console.log(`     • Stale (exceeding threshold): ${summary.staleDeals}`);
-  console.log(`     • No Recent Activity (7+ days): ${summary.noActivityDeals}`);
+  console.log(`     • No Recent Activity (${registry.noActivityThresholdDays}+ ${unit}): ${summary.noActivityDeals}`);
   console.log(`     • Past-Due Close Date: ${summary.pastDueDeals}`);
-  console.log(`   Overall Average Days in Stage: ${summary.overallAverageDays}`);
-  console.log(`   Overall Median Days in Stage: ${summary.overallMedianDays}`);
+  console.log(`     • Moved Backwards: ${summary.regressionDeals}`);
+  console.log(`     • Skipped Required Stage: ${summary.skippedStageDeals}`);
+  console.log(`   Overall Average Days in Stage: ${summary.overallAverageDays} ${unit}`);
+  console.log(`   Overall Median Days in Stage: ${summary.overallMedianDays} ${unit}`);
+  console.log(`   Revenue Basis: ${describeRevenueBasis(summary.revenueBasis)}`);
+  describeUnconvertedDeals(summary.unconvertedDeals, 'amounts shown as N/A').forEach(line => console.log(`   ${line}`));
 
   // Stage breakdowns
   console.log('\n' + '━'.repeat(80));
@@ -303,15 +353,15 @@ function displayReport(summary: StageAgingSummary): void {
   console.log('━'.repeat(80));
 
   for (const breakdown of summary.stageBreakdowns) {
-    console.log(`\n🎯 ${breakdown.stageName} (Threshold: ${breakdown.thresholdDays} days):`);
+    console.log(`\n🎯 ${breakdown.stageName} (Threshold: ${breakdown.thresholdDays} ${unit}):`);
     console.log(`   Total Deals: ${breakdown.totalDeals}`);
     console.log(`   Flagged (exceeding threshold): ${breakdown.flaggedDeals}`);
-    console.log(`   Average Days in Stage: ${breakdown.averageDaysInStage}`);
-    console.log(`   Median Days in Stage: ${breakdown.medianDaysInStage}`);
+    console.log(`   Average Days in Stage: ${breakdown.averageDaysInStage} ${unit}`);
+    console.log(`   Median Days in Stage: ${breakdown.medianDaysInStage} ${unit}`);
 
     if (breakdown.longestDeal) {
       console.log(
-        `   Longest: "${breakdown.longestDeal.dealName}" (${breakdown.longestDeal.daysInStage} days)`
+        `   Longest: "${breakdown.longestDeal.dealName}" (${breakdown.longestDeal.daysInStage} ${unit})`
       );
     }
   }
@@ -333,7 +383,7 @@ function displayReport(summary: StageAgingSummary): void {
         'Owner'.padEnd(20) +
         'Stage'.padEnd(20) +
         'Days'.padEnd(8) +
-        'Amount'.padEnd(15) +
+        REVENUE_BASES[summary.revenueBasis].label.padEnd(15) +
         'Close Date'.padEnd(12) +
         'Flags'
     );
@@ -352,7 +402,10 @@ function displayReport(summary: StageAgingSummary): void {
         deal.dealStageName.length > 18
           ? deal.dealStageName.substring(0, 15) + '...'
           : deal.dealStageName;
-      const days = String(deal.daysInStage);
+      // Mark deals that have been in this stage before, e.g. "12 (3x)"
+      const days = deal.stageVisitCount > 1
+        ? `${deal.daysInStage} (${deal.stageVisitCount}x)`
+        : String(deal.daysInStage);
       const amount = formatCurrency(deal.amount);
       const closeDate = deal.closeDateString || 'N/A';
       const flags = deal.flagReasons.join(', ');
@@ -367,10 +420,42 @@ function displayReport(summary: StageAgingSummary): void {
           flags
       );
     }
+
+    const reentered = flaggedDeals.filter(d => d.stageVisitCount > 1);
+    if (reentered.length > 0) {
+      console.log('\n🔁 (Nx) = deal has entered this stage N times; Days counts the current visit only:');
+      for (const deal of reentered) {
+        console.log(
+          `   • "${deal.dealName}" - ${deal.stageVisitCount} visits, ${deal.cumulativeDaysInStage} ${unit} in ${deal.dealStageName} in total`
+        );
+      }
+    }
   } else {
     console.log('\n✅ No flagged deals! All deals are within acceptable aging thresholds.');
   }
 
+  // Process compliance: backward moves and skipped required stages
+  const nonCompliantDeals = summary.allDeals.filter(d => d.complianceIssues.length > 0);
+
+  console.log('\n' + '━'.repeat(80));
+  console.log('🧭 Process Compliance:');
+  console.log('━'.repeat(80));
+
+  if (nonCompliantDeals.length > 0) {
+    console.log(`\n   Moved Backwards: ${summary.regressionDeals} deal(s)`);
+    console.log(`   Skipped Required Stage: ${summary.skippedStageDeals} deal(s)\n`);
+
+    for (const deal of nonCompliantDeals) {
+      console.log(`   • "${deal.dealName}" (${deal.dealOwnerName || 'Unassigned'}) - now in ${deal.dealStageName}`);
+      for (const issue of deal.complianceIssues) {
+        const icon = issue.type === 'regression' ? '↩️ ' : '⏭️ ';
+        console.log(`      ${icon} ${describeStageIssue(issue, stageNames)} on ${formatDate(issue.at)}`);
+      }
+    }
+  } else {
+    console.log('\n✅ Every deal followed the stage order and passed through each required stage.');
+  }
+
   console.log('\n' + '━'.repeat(80));
   console.log('✅ Stage Aging Analysis Complete');
   console.log('━'.repeat(80) + '\n');
@@ -391,34 +476,32 @@ async function main() {
   }
 
   try {
-    // Step 1: Fetch pipelines
+    // Step 1: Load the pipeline registry (checks the config against HubSpot)
     console.log('🔍 Fetching pipelines...');
-    const pipelines = await fetchPipelines(accessToken);
-    const salesPipeline = pipelines.find(p => p.id === SALES_PIPELINE_ID);
+    const registry = await loadPipelineRegistry(accessToken);
+    const stageConfigs = buildStageConfigs(registry);
+    const calendar = await loadAgingCalendar();
 
-    if (!salesPipeline) {
-      console.error(`❌ Error: Sales pipeline (${SALES_PIPELINE_ID}) not found`);
-      process.exit(1);
-    }
-
-    console.log(`✅ Found pipeline: "${salesPipeline.label}"\n`);
+    console.log(`✅ Found pipeline: "${registry.pipeline.label}"\n`);
 
     // Step 2: Log stage property discovery
     console.log('🔬 Stage Configuration:');
-    for (const config of STAGE_CONFIGS) {
+    for (const config of stageConfigs) {
       console.log(`   • ${config.stageName} (ID: ${config.stageId})`);
-      console.log(`     Threshold: ${config.thresholdDays} days`);
+      console.log(`     Threshold: ${config.thresholdDays} ${dayUnit(calendar)}`);
       console.log(`     Properties: hs_v2_date_entered_${config.stageId} → hs_date_entered_${config.stageId}`);
     }
+    console.log(`   Aging measured in: ${describeAgingCalendar(calendar)}`);
     console.log('');
 
     // Step 3: Search for deals in target stages
     console.log('🔍 Searching for deals in target stages...');
-    const stageIds = STAGE_CONFIGS.map(c => c.stageId);
+    const stageIds = stageConfigs.map(c => c.stageId);
     const searchResponse = await searchDealsByStages(
       accessToken,
       stageIds,
-      SALES_PIPELINE_ID
+      registry.pipeline.id,
+      getPropertySet('aging', [registry.pipeline])
     );
 
     console.log(`✅ Found ${searchResponse.results.length} deal(s)\n`);
@@ -428,7 +511,22 @@ async function main() {
       process.exit(0);
     }
 
-    // Step 4: Fetch owners
+    // Step 4: Fetch stage history (falls back to date-entered properties if unavailable)
+    console.log('🕰️  Fetching deal stage history...');
+    let timelines = new Map<string, DealTimeline>();
+    try {
+      timelines = await fetchDealTimelines(
+        accessToken,
+        searchResponse.results.map(deal => deal.id)
+      );
+      console.log(`✅ Loaded history for ${timelines.size} deal(s)\n`);
+    } catch (error) {
+      console.warn(
+        `⚠️  Could not fetch stage history, using date-entered properties: ${error instanceof Error ? error.message : error}\n`
+      );
+    }
+
+    // Step 5: Fetch owners
     console.log('💼 Fetching deal owners...');
     const ownerIds = searchResponse.results
       .map(deal => deal.properties.hubspot_owner_id)
@@ -436,13 +534,13 @@ async function main() {
     const ownerMap = await fetchOwners(accessToken, ownerIds);
     console.log(`✅ Fetched ${ownerMap.size} owner(s)\n`);
 
-    // Step 5: Analyze deals
+    // Step 6: Analyze deals
     console.log('🔬 Analyzing deals for aging issues...');
     const analyzedDeals: StageAgingDeal[] = [];
 
     for (const deal of searchResponse.results) {
       const dealStageId = deal.properties.dealstage;
-      const stageConfig = STAGE_CONFIGS.find(c => c.stageId === dealStageId);
+      const stageConfig = stageConfigs.find(c => c.stageId === dealStageId);
 
       if (!stageConfig) {
         console.log(
@@ -454,8 +552,10 @@ async function main() {
       const analyzedDeal = analyzeDeal(
         deal,
         stageConfig,
-        salesPipeline.label,
-        ownerMap
+        registry,
+        calendar,
+        ownerMap,
+        timelines.get(deal.id)
       );
 
       if (analyzedDeal) {
@@ -465,11 +565,15 @@ async function main() {
 
     console.log(`✅ Analyzed ${analyzedDeals.length} deal(s)\n`);
 
-    // Step 6: Create summary
-    const summary = createSummary(analyzedDeals);
+    // Step 7: Create summary
+    const unconvertedDeals = searchResponse.results
+      .map(deal => ({ deal, dealAmount: getDealRevenue(deal.properties) }))
+      .filter(({ dealAmount }) => isUnconverted(dealAmount))
+      .map(({ deal, dealAmount }) => toUnconvertedDeal(deal, dealAmount));
+    const summary = createSummary(analyzedDeals, stageConfigs, unconvertedDeals);
 
-    // Step 7: Display report
-    displayReport(summary);
+    // Step 8: Display report
+    displayReport(summary, registry, calendar);
 
     process.exit(0);
   } catch (error) {
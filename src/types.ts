@@ -1,17 +1,29 @@
+import type { RuleSeverity } from './lib/hygiene-rules.js';
+import type { SlippageReport } from './lib/close-date-slippage.js';
+import type { StageComplianceIssue } from './lib/stage-compliance.js';
+import type { StageWeightReport, WeightSource } from './lib/stage-weights.js';
+import type {
+  ForecastCategory,
+  ForecastCategorySource,
+  ForecastCategoryReport,
+} from './lib/forecast-categories.js';
+import type { MonteCarloForecast } from './lib/monte-carlo-forecast.js';
+import type { QuotaReport } from './lib/quotas.js';
+import type { UnconvertedDeal } from './lib/currency.js';
+import type { RevenueBasis } from './lib/revenue-basis.js';
+
 /**
  * Types for Deal Hygiene Checker
  */
 
-export interface RequiredProperty {
-  label: string;          // User-facing label (e.g., "Next Meeting Start Time")
-  propertyName: string;   // HubSpot internal name (e.g., "hs_next_meeting_start_time")
-}
-
 export interface PropertyCheck {
   label: string;          // User-facing label
   propertyName: string;   // HubSpot internal name
   value: any;             // Actual value from HubSpot
-  isMissing: boolean;     // Whether the property is missing/empty
+  isMissing: boolean;     // Whether the property failed its rule (missing or invalid)
+  failureReason: string | null; // Why the rule failed (e.g., "Missing", "Must be greater than 0")
+  severity: RuleSeverity; // Rule severity from the hygiene rule file
+  weight: number;         // Rule weight from the hygiene rule file
 }
 
 export interface DealHygieneReport {
@@ -23,9 +35,15 @@ export interface DealHygieneReport {
   dealPipelineName: string; // Readable pipeline name
   dealOwner: string | null;
   dealOwnerName: string | null;
+  dealTeam: string | null;          // hubspot_team_id
+  dealTeamName: string | null;      // Readable team name
+  collaboratorIds: string[];        // Parsed from hs_all_collaborator_owner_ids
+  collaboratorNames: string[];      // Readable collaborator names
   propertyChecks: PropertyCheck[];
   missingProperties: PropertyCheck[];
-  completenessScore: number; // Percentage (0-100)
+  completenessScore: number; // Weighted percentage (0-100)
+  isBlocking: boolean;       // A critical (blocking) field is missing
+  blockingReasons: string[]; // Labels of the missing blocking fields
   totalRequired: number;
   totalPresent: number;
   totalMissing: number;
@@ -42,10 +60,15 @@ export interface HygieneSummary {
     missingCount: number;
     percentage: number;
   }>;
+  tierThresholds: {
+    excellent: number;               // Minimum weighted score for "excellent" (default 90)
+    good: number;                    // Minimum weighted score for "good" (default 70)
+  };
   dealsByCompleteness: {
-    excellent: DealHygieneReport[];  // 90-100%
-    good: DealHygieneReport[];       // 70-89%
-    poor: DealHygieneReport[];       // Below 70%
+    excellent: DealHygieneReport[];  // At or above the excellent threshold
+    good: DealHygieneReport[];       // Between the good and excellent thresholds
+    poor: DealHygieneReport[];       // Below the good threshold
+    blocking: DealHygieneReport[];   // Missing 1+ critical fields (any score)
   };
   dealsWithIssues: DealHygieneReport[]; // Missing 1+ properties
   dealsWithPastDueCloseDates: DealHygieneReport[]; // Close date is in the past
@@ -56,12 +79,19 @@ export interface HygieneSummary {
  * Types for Quarterly Forecast
  */
 
+export interface FiscalPeriod {
+  label: string;          // e.g., "October 2025", or "Period 7 (Aug 3 - Aug 30, 2026)" with a week pattern
+  startDate: Date;
+  endDate: Date;
+}
+
 export interface QuarterInfo {
-  year: number;
-  quarter: number;        // 1, 2, 3, or 4
+  year: number;           // Fiscal year (the calendar year unless a fiscal calendar is configured)
+  quarter: number | null; // 1, 2, 3, or 4 (null for a custom --range)
   startDate: Date;
   endDate: Date;
-  label: string;          // e.g., "Q4 2025"
+  label: string;          // e.g., "Q4 2025", "Q1 FY2027" or "Feb 1, 2026 - Apr 30, 2026"
+  periods: FiscalPeriod[]; // Fiscal months in the quarter (or overlapping the range)
 }
 
 export interface ForecastDeal {
@@ -71,86 +101,79 @@ export interface ForecastDeal {
   dealStageName: string;
   dealOwner: string | null;
   dealOwnerName: string | null;
-  amount: number;         // ARR value
+  amount: number;         // ARR value on the revenue basis, in the reporting currency
   closeDate: Date;
   closeDateString: string; // Formatted date for display
+  forecastCategory: ForecastCategory;
+  forecastCategorySource: ForecastCategorySource; // Set by the rep, from the stage mapping, or the default
+  hubspotForecastAmount: number | null;           // hs_forecast_amount (null if missing or unconvertible)
+}
+
+export interface ClosedDeal {
+  dealId: string;
+  dealName: string;
+  dealOwner: string | null;
+  dealOwnerName: string | null;
+  amount: number;          // ARR value on the revenue basis, in the reporting currency
+  closedDate: Date;        // When the deal entered Closed Won / Closed Lost
+  closedDateString: string;
+  lostReason: string | null; // closed_lost_reason (lost deals only)
 }
 
 export interface MonthlyForecast {
   month: string;          // e.g., "October 2025"
-  monthNumber: number;    // 1-12
-  totalARR: number;
+  monthNumber: number;    // Period number within the forecast (1-based)
+  totalARR: number;       // Open forecast
   dealCount: number;
   deals: ForecastDeal[];
+  bookedARR: number;      // Closed won in the month
+  bookedDeals: ClosedDeal[];
+  projectedARR: number;   // Booked + forecast
 }
 
 export interface OwnerForecast {
   ownerId: string | null;
   ownerName: string | null;
-  totalARR: number;
+  totalARR: number;       // Open forecast
   dealCount: number;
   deals: ForecastDeal[];
+  bookedARR: number;      // Closed won this quarter
+  bookedDeals: ClosedDeal[];
+  projectedARR: number;   // Booked + forecast
+}
+
+export interface LossReasonSummary {
+  reason: string;
+  totalARR: number;
+  dealCount: number;
+}
+
+export interface ClosedLostSummary {
+  totalARR: number;
+  dealCount: number;
+  byReason: LossReasonSummary[]; // Highest ARR first
+  deals: ClosedDeal[];
 }
 
 export interface ForecastSummary {
   quarter: QuarterInfo;
-  totalARR: number;
+  revenueBasis: RevenueBasis; // Deal property the ARR figures come from
+  totalARR: number;       // Open forecast
   totalDeals: number;
   averageDealSize: number;
+  bookedARR: number;      // Closed won this quarter
+  projectedARR: number;   // Booked + forecast
+  closedWonDeals: ClosedDeal[];
+  closedLost: ClosedLostSummary;
   monthlyBreakdown: MonthlyForecast[];
   ownerBreakdown: OwnerForecast[];
   allDeals: ForecastDeal[];
-  skippedDealsCount: number; // Deals missing close date or amount
-}
-
-// The 12 required properties as defined by the user
-export const REQUIRED_PROPERTIES: RequiredProperty[] = [
-  { label: 'Product/s', propertyName: 'product_s' },
-  { label: 'Prior EHR', propertyName: 'prior_ehr' },
-  { label: 'Deal Collaborator', propertyName: 'hs_all_collaborator_owner_ids' },
-  { label: 'Last Activity Date (EDT)', propertyName: 'notes_last_updated' },
-  { label: 'Next Activity Date (EDT)', propertyName: 'notes_next_activity_date' },
-  { label: 'Next Step', propertyName: 'hs_next_step' },
-  { label: 'Close Date (EDT)', propertyName: 'closedate' },
-  { label: 'Deal Name', propertyName: 'dealname' },
-  { label: 'Deal Owner', propertyName: 'hubspot_owner_id' },
-  { label: 'Deal Stage', propertyName: 'dealstage' },
-  { label: 'Deal Substage', propertyName: 'proposal_stage' },
-  { label: 'Amount', propertyName: 'amount' },
-];
-
-/**
- * Checks if a property value should be considered "missing"
- * A property is missing if it's:
- * - null
- * - undefined
- * - empty string
- * - empty array
- * - zero (for amount field)
- */
-export function isPropertyMissing(propertyName: string, value: any): boolean {
-  // Check for null, undefined, empty string
-  if (value === null || value === undefined || value === '') {
-    return true;
-  }
-
-  // Check for zero amount (considered missing)
-  if (propertyName === 'amount' && value === 0) {
-    return true;
-  }
-
-  // Check for empty array
-  if (Array.isArray(value) && value.length === 0) {
-    return true;
-  }
-
-  // Check for string that's only whitespace
-  if (typeof value === 'string' && value.trim() === '') {
-    return true;
-  }
-
-  // Property is present
-  return false;
+  skippedDealsCount: number; // Deals missing close date or revenue value
+  unconvertedDeals: UnconvertedDeal[]; // Deals left out because their currency couldn't be converted
+  slippage: SlippageReport | null; // Close-date slippage risk (null if history unavailable)
+  categories: ForecastCategoryReport; // Commit / Best Case / Pipeline / Omitted breakdown
+  monteCarlo: MonteCarloForecast | null; // P10/P50/P90 ranges (null unless --monte-carlo)
+  quotas: QuotaReport | null; // Attainment and coverage (null if no quotas are set for the quarter)
 }
 
 /**
@@ -159,8 +182,9 @@ export function isPropertyMissing(propertyName: string, value: any): boolean {
 
 export interface WeeklyForecastMetrics {
   weekEnding: Date;          // Sunday end date of the week
-  totalPipeline: number;     // Sum of all active deals in SQL + Demo + Proposal
+  totalPipeline: number;     // Sum of all active deals in SQL + Demo + Proposal (reporting currency)
   weightedPipeline: number;  // Probability-adjusted pipeline value
+  weightedPipelineBySource: Record<WeightSource, number>; // Weighted pipeline with each stage weight source
   closedWon: {
     count: number;
     amount: number;
@@ -176,15 +200,49 @@ export interface StageForecast {
   dealCount: number;         // Number of deals in this stage
   pipelineAmount: number;    // Total ARR in this stage
   weightedAmount: number;    // pipelineAmount × stageWeight
-  stageWeight: number;       // Probability weight (0.30, 0.30, 0.50)
+  stageWeight: number;       // Probability weight used (see weightSource)
+  weightSource: WeightSource | null; // Where stageWeight came from (null = no weight available)
+  manualWeight: number | null;       // forecastWeight from config/pipeline.json
+  hubspotProbability: number | null; // Stage probability in HubSpot
+  historicalWinRate: number | null;  // Win rate of closed deals that passed through the stage
   percentageOfTotal: number; // % of total active pipeline
 }
 
+export interface WeeklyPipelineMovement {
+  stageMoves: Array<{
+    dealId: string;
+    dealName: string;
+    fromStage: string | null;  // Readable stage name (null for new deals)
+    toStage: string;
+    movedAt: Date;
+  }>;
+  closeDateChanges: Array<{
+    dealId: string;
+    dealName: string;
+    from: Date | null;
+    to: Date | null;
+    daysMoved: number | null;  // Positive = pushed out
+    changedAt: Date;
+  }>;
+  amountChanges: Array<{
+    dealId: string;
+    dealName: string;
+    from: number | null;
+    to: number | null;
+    delta: number | null;
+    changedAt: Date;
+  }>;
+}
+
 export interface WeeklyForecastReport {
+  revenueBasis: RevenueBasis;  // Deal property the pipeline amounts come from
   metrics: WeeklyForecastMetrics;
   stageBreakdown: StageForecast[];
   totalActive: number;       // Same as totalPipeline
   totalWeighted: number;     // Same as weightedPipeline
+  movement: WeeklyPipelineMovement | null; // From deal property history (null if unavailable)
+  stageWeights: StageWeightReport;
+  unconvertedDeals: UnconvertedDeal[];     // Deals left out because their currency couldn't be converted
 }
 
 /**
@@ -194,7 +252,7 @@ export interface WeeklyForecastReport {
 export interface StageConfig {
   stageId: string;           // Internal HubSpot stage ID
   stageName: string;         // Readable stage name
-  thresholdDays: number;     // Days before flagging as stalled
+  thresholdDays: number;     // Days before flagging as stalled (on the aging calendar)
   flagReason: string;        // Message to show when flagged (e.g., "Stalled in SQL")
 }
 
@@ -207,17 +265,20 @@ export interface StageAgingDeal {
   pipelineName: string;      // Readable pipeline name
   dealOwner: string | null;
   dealOwnerName: string | null;
-  amount: number | null;
+  amount: number | null;     // On the revenue basis, in the reporting currency (null if missing or unconvertible)
   closeDate: Date | null;
   closeDateString: string | null;
   dateEnteredStage: Date;    // When deal entered current stage
   dateEnteredStageString: string; // Formatted date for display
-  daysInStage: number;       // Days since entering current stage
+  daysInStage: number;       // Days since entering current stage (calendar or business days, per AGING_DAY_BASIS)
+  stageVisitCount: number;   // Times the deal has entered its current stage (from stage history)
+  cumulativeDaysInStage: number; // Days across every visit to the current stage
   lastModifiedDate: Date | null;  // Last time any property changed
   daysSinceModified: number | null; // Days since last modification
-  flagReasons: string[];     // Reasons for flagging (aging, no activity, past due)
+  flagReasons: string[];     // Reasons for flagging (aging, no activity, past due, regression, skipped stage)
+  complianceIssues: StageComplianceIssue[]; // Backward moves and skipped required stages
   thresholdDays: number;     // Stage-specific threshold
-  datePropertyUsed: string;  // Which property was used (for debugging)
+  datePropertyUsed: string;  // Which property or source was used (for debugging)
 }
 
 export interface StageBreakdown {
@@ -233,13 +294,17 @@ export interface StageBreakdown {
 }
 
 export interface StageAgingSummary {
+  revenueBasis: RevenueBasis; // Deal property the amounts come from
   totalDeals: number;
   totalFlagged: number;      // Deals with any flag reason
   staleDeals: number;        // Deals exceeding stage threshold
   noActivityDeals: number;   // Deals with no activity in 7+ days
   pastDueDeals: number;      // Deals with close date in past
+  regressionDeals: number;   // Deals that moved backwards at least once
+  skippedStageDeals: number; // Deals that skipped a required stage
   stageBreakdowns: StageBreakdown[];
   overallAverageDays: number;
   overallMedianDays: number;
   allDeals: StageAgingDeal[];
+  unconvertedDeals: UnconvertedDeal[]; // Deals whose amount couldn't be converted (shown as N/A)
 }
@@ -3,41 +3,70 @@
  *
  * Generates weekly pipeline health report for board meetings including:
  * - Total active pipeline (SQL + Demo Completed + Proposal stages)
- * - Weighted pipeline using stage-specific probability weights
+ * - Weighted pipeline using stage-specific probability weights, with manual,
+ *   HubSpot and historically calibrated weights shown side by side
  * - Closed Won and Closed Lost deals from current week
  * - Stage-by-stage breakdown with deal counts and percentages
+ * - Stage moves, close-date changes and amount changes this week (from property history)
+ *
+ * Each run is saved as a forecast snapshot for forecast-accuracy. Amounts are
+ * on the revenue basis (see lib/revenue-basis.ts) in the reporting currency
+ * (see lib/currency.ts); deals that can't be converted are left out and listed.
  *
  * Week Definition: Monday to Sunday (week ends Sunday)
- * Target Stages: SQL, Demo Completed, Proposal
- * Stage Weights: SQL (30%), Demo Completed (30%), Proposal (50%)
+ * Target Stages and Stage Weights: reports.weeklyForecast and forecastWeight in
+ * config/pipeline.json (SQL 30%, Demo Completed 30%, Proposal 50%);
+ * FORECAST_WEIGHT_SOURCE switches the weighted pipeline to HubSpot stage
+ * probabilities or historical win rates (see lib/stage-weights.ts)
  */
 
 import 'dotenv/config';
 import { openai } from '@ai-sdk/openai';
 import { generateText } from 'ai';
 import {
-  fetchPipelines,
+  searchDeals,
   searchDealsByStages,
-  fetchOwners,
-  findStageIdsByLabels,
-  type Pipeline,
+  getCurrentStageEnteredDate,
 } from './hubspot.js';
+import {
+  loadPipelineRegistry,
+  getReportStageIds,
+  getStage,
+  getStageName,
+  type PipelineRegistry,
+} from './lib/pipeline-registry.js';
+import { DealQuery } from './lib/deal-query.js';
+import { getPropertySet } from './lib/property-sets.js';
+import { fetchDealTimelines, isChangedBetween } from './lib/deal-history.js';
+import {
+  getCalibrationSettings,
+  getLookbackStart,
+  calibrateStageWeights,
+  generateStageWeightText,
+  type StageWeightReport,
+  type WeightSource,
+} from './lib/stage-weights.js';
+import { resolveForecastCategory } from './lib/forecast-categories.js';
+import { openHistoryStore, saveHistoryStore } from './lib/history-store.js';
+import { saveForecastSnapshot } from './lib/forecast-history.js';
+import { getRevenueBasis, getDealRevenue, describeRevenueBasis } from './lib/revenue-basis.js';
+import {
+  getCurrencySettings,
+  convertDealAmount,
+  convertWithRates,
+  isUnconverted,
+  toUnconvertedDeal,
+  formatCurrency,
+  describeUnconvertedDeals,
+  type UnconvertedDeal,
+} from './lib/currency.js';
 import type {
   WeeklyForecastMetrics,
   StageForecast,
   WeeklyForecastReport,
+  WeeklyPipelineMovement,
 } from './types.js';
 
-// Stage weights for probability-adjusted pipeline
-const STAGE_WEIGHTS: Record<string, number> = {
-  'sql': 0.30,           // 30% probability
-  'demo': 0.30,          // 30% probability
-  'proposal': 0.50,      // 50% probability
-};
-
-// Target stages for active pipeline
-const ACTIVE_STAGES = ['sql', 'demo', 'proposal'];
-
 /**
  * Get the current week boundaries (Monday to Sunday)
  * Returns the Monday start and Sunday end of the current week
@@ -78,49 +107,38 @@ function formatWeekEndingDate(date: Date): string {
 }
 
 /**
- * Check if a timestamp falls within the current week
+ * Check if a date falls within the current week
  */
-function isInCurrentWeek(timestamp: string | null, weekStart: Date, weekEnd: Date): boolean {
-  if (!timestamp) return false;
+function isInCurrentWeek(date: Date | null, weekStart: Date, weekEnd: Date): boolean {
+  if (!date) return false;
 
-  const date = new Date(timestamp);
   return date >= weekStart && date <= weekEnd;
 }
 
 /**
- * Get the stage weight for a given stage label
+ * Revenue of a deal on the revenue basis, in the reporting currency (0 if missing)
  */
-function getStageWeight(stageLabel: string): number {
-  const normalized = stageLabel.toLowerCase().trim();
-
-  // Check for SQL
-  if (normalized.includes('sql')) return STAGE_WEIGHTS['sql'];
-
-  // Check for Demo (Demo Completed, Demo - Completed, etc.)
-  if (normalized.includes('demo') && (normalized.includes('completed') || normalized.includes('complete'))) {
-    return STAGE_WEIGHTS['demo'];
-  }
-
-  // Check for Proposal
-  if (normalized.includes('proposal')) return STAGE_WEIGHTS['proposal'];
-
-  // Default to 0 if no match
-  return 0;
+function getDealAmount(deal: any): number {
+  return getDealRevenue(deal.properties).amount ?? 0;
 }
 
 /**
- * Get readable stage name for reporting
+ * Separates deals whose amount can't be converted to the reporting currency
  */
-function getReadableStageName(stageLabel: string): string {
-  const normalized = stageLabel.toLowerCase().trim();
+function partitionByCurrency(deals: any[]): { deals: any[]; unconverted: UnconvertedDeal[] } {
+  const converted: any[] = [];
+  const unconverted: UnconvertedDeal[] = [];
 
-  if (normalized.includes('sql')) return 'SQL';
-  if (normalized.includes('demo') && (normalized.includes('completed') || normalized.includes('complete'))) {
-    return 'Demo Completed';
+  for (const deal of deals) {
+    const dealAmount = getDealRevenue(deal.properties);
+    if (isUnconverted(dealAmount)) {
+      unconverted.push(toUnconvertedDeal(deal, dealAmount));
+    } else {
+      converted.push(deal);
+    }
   }
-  if (normalized.includes('proposal')) return 'Proposal';
 
-  return stageLabel; // Return original if no match
+  return { deals: converted, unconverted };
 }
 
 /**
@@ -128,13 +146,18 @@ function getReadableStageName(stageLabel: string): string {
  */
 function processActivePipelineDeals(
   deals: any[],
-  pipelines: Pipeline[]
-): { stageBreakdown: StageForecast[]; totalPipeline: number; weightedPipeline: number } {
+  registry: PipelineRegistry,
+  stageWeights: StageWeightReport
+): {
+  stageBreakdown: StageForecast[];
+  totalPipeline: number;
+  weightedPipeline: number;
+  weightedPipelineBySource: Record<WeightSource, number>;
+} {
   // Group deals by stage
   const stageGroups = new Map<string, {
     deals: any[];
-    stageLabel: string;
-    pipelineId: string;
+    stageId: string;
   }>();
 
   for (const deal of deals) {
@@ -143,19 +166,9 @@ function processActivePipelineDeals(
 
     if (!stageId) continue;
 
-    // Find the stage label from pipelines
-    let stageLabel = 'Unknown';
-    for (const pipeline of pipelines) {
-      const stage = pipeline.stages.find(s => s.id === stageId);
-      if (stage) {
-        stageLabel = stage.label;
-        break;
-      }
-    }
-
     const key = `${pipelineId}:${stageId}`;
     if (!stageGroups.has(key)) {
-      stageGroups.set(key, { deals: [], stageLabel, pipelineId });
+      stageGroups.set(key, { deals: [], stageId });
     }
 
     stageGroups.get(key)!.deals.push(deal);
@@ -165,16 +178,18 @@ function processActivePipelineDeals(
   const stageBreakdown: StageForecast[] = [];
   let totalPipeline = 0;
   let weightedPipeline = 0;
+  const weightedPipelineBySource: Record<WeightSource, number> = { manual: 0, hubspot: 0, historical: 0 };
 
   for (const [_, group] of stageGroups) {
-    const readableName = getReadableStageName(group.stageLabel);
-    const stageWeight = getStageWeight(group.stageLabel);
+    const readableName = getStageName(registry, group.stageId);
+    const weights = stageWeights.stages.find(stage => stage.stageId === group.stageId);
+    const stageWeight = weights?.weight ?? 0;
 
     let pipelineAmount = 0;
     let dealCount = 0;
 
     for (const deal of group.deals) {
-      const amount = parseFloat(deal.properties.amount || '0');
+      const amount = getDealAmount(deal);
       pipelineAmount += amount;
       dealCount++;
     }
@@ -183,6 +198,9 @@ function processActivePipelineDeals(
 
     totalPipeline += pipelineAmount;
     weightedPipeline += weightedAmount;
+    weightedPipelineBySource.manual += pipelineAmount * (weights?.manualWeight ?? 0);
+    weightedPipelineBySource.hubspot += pipelineAmount * (weights?.hubspotProbability ?? 0);
+    weightedPipelineBySource.historical += pipelineAmount * (weights?.historicalWinRate ?? 0);
 
     stageBreakdown.push({
       stageName: readableName,
@@ -190,6 +208,10 @@ function processActivePipelineDeals(
       pipelineAmount,
       weightedAmount,
       stageWeight,
+      weightSource: weights?.weightSource ?? null,
+      manualWeight: weights?.manualWeight ?? null,
+      hubspotProbability: weights?.hubspotProbability ?? null,
+      historicalWinRate: weights?.historicalWinRate ?? null,
       percentageOfTotal: 0, // Will calculate after we have total
     });
   }
@@ -199,43 +221,156 @@ function processActivePipelineDeals(
     stage.percentageOfTotal = totalPipeline > 0 ? (stage.pipelineAmount / totalPipeline) * 100 : 0;
   }
 
-  // Sort by stage order (SQL -> Demo -> Proposal)
-  const stageOrder = ['SQL', 'Demo Completed', 'Proposal'];
+  // Sort by pipeline stage order (SQL -> Demo -> Proposal)
+  const stageOrder = registry.stages.map(stage => stage.reportName);
   stageBreakdown.sort((a, b) => {
     const aIndex = stageOrder.indexOf(a.stageName);
     const bIndex = stageOrder.indexOf(b.stageName);
     return aIndex - bIndex;
   });
 
-  return { stageBreakdown, totalPipeline, weightedPipeline };
+  return { stageBreakdown, totalPipeline, weightedPipeline, weightedPipelineBySource };
 }
 
 /**
- * Process closed deals from current week
+ * Process closed deals that entered their closed stage in the current week
  */
 function processClosedDeals(
   deals: any[],
   weekStart: Date,
-  weekEnd: Date,
-  isClosedWon: boolean
+  weekEnd: Date
 ): { count: number; amount: number } {
-  const dateProperty = isClosedWon ? 'hs_date_entered_closedwon' : 'hs_date_entered_closedlost';
-
   let count = 0;
   let amount = 0;
 
   for (const deal of deals) {
-    const dateEntered = deal.properties[dateProperty];
+    const dateEntered = getCurrentStageEnteredDate(deal);
 
     if (isInCurrentWeek(dateEntered, weekStart, weekEnd)) {
       count++;
-      amount += parseFloat(deal.properties.amount || '0');
+      amount += getDealAmount(deal);
     }
   }
 
   return { count, amount };
 }
 
+/**
+ * Collects this week's stage moves, close-date changes and amount changes
+ * from each deal's property history
+ */
+async function buildWeeklyMovement(
+  accessToken: string,
+  deals: any[],
+  registry: PipelineRegistry,
+  weekStart: Date,
+  weekEnd: Date
+): Promise<WeeklyPipelineMovement> {
+  const timelines = await fetchDealTimelines(accessToken, deals.map(deal => deal.id));
+  const movement: WeeklyPipelineMovement = { stageMoves: [], closeDateChanges: [], amountChanges: [] };
+  const currency = getCurrencySettings();
+
+  for (const deal of deals) {
+    const timeline = timelines.get(deal.id);
+    if (!timeline) continue;
+
+    const dealName = deal.properties.dealname || 'Unnamed Deal';
+
+    timeline.stageVisits.forEach((visit, index) => {
+      if (!isChangedBetween(visit, weekStart, weekEnd)) return;
+      const previous = timeline.stageVisits[index - 1];
+      movement.stageMoves.push({
+        dealId: deal.id,
+        dealName,
+        fromStage: previous ? getStageName(registry, previous.stageId) : null,
+        toStage: getStageName(registry, visit.stageId),
+        movedAt: visit.enteredAt,
+      });
+    });
+
+    for (const change of timeline.closeDateChanges) {
+      if (isChangedBetween(change, weekStart, weekEnd)) {
+        movement.closeDateChanges.push({ dealId: deal.id, dealName, ...change });
+      }
+    }
+
+    // Past amounts are in the deal currency: convert them at the deal's current rate
+    const dealAmount = convertDealAmount(deal.properties, currency);
+    const rate = dealAmount.amount !== null && dealAmount.originalAmount
+      ? dealAmount.amount / dealAmount.originalAmount
+      : convertWithRates(1, dealAmount.currency, currency.reportingCurrency, currency.rates);
+    const convert = (amount: number | null) => amount === null || rate === null ? null : amount * rate;
+
+    for (const change of timeline.amountChanges) {
+      if (rate !== null && isChangedBetween(change, weekStart, weekEnd)) {
+        movement.amountChanges.push({
+          dealId: deal.id,
+          dealName,
+          from: convert(change.from),
+          to: convert(change.to),
+          delta: convert(change.delta),
+          changedAt: change.changedAt,
+        });
+      }
+    }
+  }
+
+  movement.stageMoves.sort((a, b) => a.movedAt.getTime() - b.movedAt.getTime());
+  movement.closeDateChanges.sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+  movement.amountChanges.sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime());
+
+  return movement;
+}
+
+/**
+ * Saves the active pipeline as a forecast snapshot for forecast-accuracy.
+ * History is best-effort: a store failure is reported but doesn't stop the report.
+ */
+async function recordForecastSnapshot(
+  deals: any[],
+  registry: PipelineRegistry,
+  stageWeights: StageWeightReport,
+  report: WeeklyForecastReport,
+  weekStart: Date,
+  weekEnd: Date
+): Promise<void> {
+  try {
+    const store = await openHistoryStore();
+    saveForecastSnapshot(store, {
+      runAt: new Date(),
+      source: 'weekly',
+      revenueBasis: report.revenueBasis,
+      reportingCurrency: getCurrencySettings().reportingCurrency,
+      periodLabel: `Week ending ${formatWeekEndingDate(report.metrics.weekEnding)}`,
+      periodStart: weekStart,
+      periodEnd: weekEnd,
+      totalARR: report.totalActive,
+      weightedARR: report.totalWeighted,
+      deals: deals.map(deal => {
+        const stageId = deal.properties.dealstage || '';
+        return {
+          dealId: deal.id,
+          dealName: deal.properties.dealname || 'Untitled Deal',
+          stageId,
+          stageName: getStageName(registry, stageId),
+          ownerId: deal.properties.hubspot_owner_id || null,
+          ownerName: null,
+          amount: getDealAmount(deal),
+          closeDate: deal.properties.closedate ? new Date(deal.properties.closedate) : null,
+          forecastCategory: resolveForecastCategory(
+            deal.properties.hs_manual_forecast_category,
+            getStage(registry, stageId)
+          ).category,
+          weight: stageWeights.stages.find(stage => stage.stageId === stageId)?.weight ?? null,
+        };
+      }),
+    });
+    await saveHistoryStore(store);
+  } catch (error) {
+    console.warn(`⚠️  Could not save forecast snapshot: ${error instanceof Error ? error.message : error}\n`);
+  }
+}
+
 /**
  * Display forecast report in console
  */
@@ -251,10 +386,15 @@ function displayWeeklyForecastReport(report: WeeklyForecastReport): void {
   // Pipeline Overview
   console.log('📊 PIPELINE OVERVIEW');
   console.log('─'.repeat(100));
-  console.log(`   Total Active Pipeline (All Active Deals):     $${metrics.totalPipeline.toLocaleString()}`);
-  console.log(`   Weighted Pipeline (Probability-Adjusted):     $${metrics.weightedPipeline.toLocaleString()}`);
-  console.log(`   Closed Won (This Week):                       $${metrics.closedWon.amount.toLocaleString()} (${metrics.closedWon.count} deals)`);
-  console.log(`   Closed Lost (This Week):                      $${metrics.closedLost.amount.toLocaleString()} (${metrics.closedLost.count} deals)`);
+  console.log(`   Revenue Basis:                                ${describeRevenueBasis(report.revenueBasis)}, in ${getCurrencySettings().reportingCurrency}`);
+  console.log(`   Total Active Pipeline (All Active Deals):     ${formatCurrency(metrics.totalPipeline)}`);
+  console.log(`   Weighted Pipeline (Probability-Adjusted):     ${formatCurrency(metrics.weightedPipeline)}`);
+  console.log(`   Closed Won (This Week):                       ${formatCurrency(metrics.closedWon.amount)} (${metrics.closedWon.count} deals)`);
+  console.log(`   Closed Lost (This Week):                      ${formatCurrency(metrics.closedLost.amount)} (${metrics.closedLost.count} deals)`);
+  if (report.unconvertedDeals.length > 0) {
+    console.log('');
+    describeUnconvertedDeals(report.unconvertedDeals).forEach(line => console.log(`   ${line}`));
+  }
   console.log('\n');
 
   // Forecast by Stage
@@ -263,8 +403,8 @@ function displayWeeklyForecastReport(report: WeeklyForecastReport): void {
   console.log(
     '   Stage'.padEnd(20) +
     'Deal Count'.padEnd(15) +
-    'Pipeline $'.padEnd(20) +
-    'Weighted $'.padEnd(20) +
+    'Pipeline'.padEnd(20) +
+    'Weighted'.padEnd(20) +
     '% of Total'.padEnd(15)
   );
   console.log('   ' + '─'.repeat(95));
@@ -273,8 +413,8 @@ function displayWeeklyForecastReport(report: WeeklyForecastReport): void {
     console.log(
       `   ${stage.stageName.padEnd(18)}` +
       `${stage.dealCount.toString().padEnd(15)}` +
-      `$${stage.pipelineAmount.toLocaleString().padEnd(18)}` +
-      `$${stage.weightedAmount.toLocaleString().padEnd(18)} (${(stage.stageWeight * 100).toFixed(0)}%)` +
+      `${formatCurrency(stage.pipelineAmount).padEnd(20)}` +
+      `${formatCurrency(stage.weightedAmount).padEnd(20)} (${(stage.stageWeight * 100).toFixed(0)}%)` +
       `${stage.percentageOfTotal.toFixed(1)}%`
     );
   }
@@ -283,11 +423,49 @@ function displayWeeklyForecastReport(report: WeeklyForecastReport): void {
   console.log(
     `   ${'TOTAL'.padEnd(18)}` +
     `${stageBreakdown.reduce((sum, s) => sum + s.dealCount, 0).toString().padEnd(15)}` +
-    `$${report.totalActive.toLocaleString().padEnd(18)}` +
-    `$${report.totalWeighted.toLocaleString().padEnd(18)}`
+    `${formatCurrency(report.totalActive).padEnd(20)}` +
+    `${formatCurrency(report.totalWeighted).padEnd(20)}`
   );
 
   console.log('\n');
+
+  // Manual vs calibrated stage weights
+  console.log('⚖️  STAGE WEIGHTS (Manual vs Calibrated)');
+  console.log('─'.repeat(100));
+  generateStageWeightText(report.stageWeights).forEach(line => console.log(`   ${line}`));
+  console.log('');
+  console.log(
+    `   Weighted pipeline with manual weights: ${formatCurrency(metrics.weightedPipelineBySource.manual)}` +
+    ` | HubSpot probabilities: ${formatCurrency(metrics.weightedPipelineBySource.hubspot)}` +
+    ` | Historical win rates: ${formatCurrency(metrics.weightedPipelineBySource.historical)}`
+  );
+  console.log('\n');
+
+  // Pipeline movement from property history
+  if (report.movement) {
+    const { stageMoves, closeDateChanges, amountChanges } = report.movement;
+    const formatDay = (date: Date | null) => date ? date.toLocaleDateString('en-US') : 'none';
+
+    console.log('🔀 PIPELINE MOVEMENT (This Week)');
+    console.log('─'.repeat(100));
+    console.log(`   Stage Moves: ${stageMoves.length}`);
+    for (const move of stageMoves) {
+      console.log(`     • ${move.dealName}: ${move.fromStage || 'New'} → ${move.toStage} (${formatDay(move.movedAt)})`);
+    }
+    console.log(`   Close Date Changes: ${closeDateChanges.length}`);
+    for (const change of closeDateChanges) {
+      const moved = change.daysMoved === null
+        ? ''
+        : ` (${change.daysMoved > 0 ? 'pushed' : 'pulled in'} ${Math.abs(change.daysMoved)} days)`;
+      console.log(`     • ${change.dealName}: ${formatDay(change.from)} → ${formatDay(change.to)}${moved}`);
+    }
+    console.log(`   Amount Changes: ${amountChanges.length}`);
+    for (const change of amountChanges) {
+      const delta = change.delta === null ? '' : ` (${change.delta >= 0 ? '+' : '-'}${formatCurrency(Math.abs(change.delta))})`;
+      console.log(`     • ${change.dealName}: ${formatCurrency(change.from ?? 0)} → ${formatCurrency(change.to ?? 0)}${delta}`);
+    }
+    console.log('\n');
+  }
   console.log('━'.repeat(100));
   console.log('\n');
 }
@@ -301,7 +479,13 @@ async function generateWeeklyForecastEmail(report: WeeklyForecastReport): Promis
   // Build stage breakdown text
   let stageBreakdownText = '';
   for (const stage of stageBreakdown) {
-    stageBreakdownText += `${stage.stageName}: ${stage.dealCount} deals, $${stage.pipelineAmount.toLocaleString()} pipeline, $${stage.weightedAmount.toLocaleString()} weighted (${(stage.stageWeight * 100).toFixed(0)}% probability), ${stage.percentageOfTotal.toFixed(1)}% of total\n`;
+    stageBreakdownText += `${stage.stageName}: ${stage.dealCount} deals, ${formatCurrency(stage.pipelineAmount)} pipeline, ${formatCurrency(stage.weightedAmount)} weighted (${(stage.stageWeight * 100).toFixed(0)}% probability), ${stage.percentageOfTotal.toFixed(1)}% of total\n`;
+  }
+
+  const formatWeight = (weight: number | null) => weight === null ? 'n/a' : `${(weight * 100).toFixed(0)}%`;
+  let stageWeightText = '';
+  for (const stage of report.stageWeights.stages) {
+    stageWeightText += `${stage.stageName}: manual ${formatWeight(stage.manualWeight)}, HubSpot ${formatWeight(stage.hubspotProbability)}, historical ${formatWeight(stage.historicalWinRate)} (${stage.wonDeals} of ${stage.closedDeals} closed deals won), used ${formatWeight(stage.weight)} (${stage.weightSource ?? 'none'})\n`;
   }
 
   const prompt = `You are generating a professional weekly revenue forecast email for a board meeting at Opus, an EHR software company in the behavioral health space.
@@ -315,23 +499,40 @@ async function generateWeeklyForecastEmail(report: WeeklyForecastReport): Promis
 
 **Data Summary:**
 Week Ending: ${formatWeekEndingDate(metrics.weekEnding)}
-Total Active Pipeline: $${metrics.totalPipeline.toLocaleString()}
-Weighted Pipeline: $${metrics.weightedPipeline.toLocaleString()}
-Closed Won (This Week): $${metrics.closedWon.amount.toLocaleString()} (${metrics.closedWon.count} deals)
-Closed Lost (This Week): $${metrics.closedLost.amount.toLocaleString()} (${metrics.closedLost.count} deals)
+Reporting Currency: ${getCurrencySettings().reportingCurrency}
+Revenue Basis: ${describeRevenueBasis(report.revenueBasis)}
+Total Active Pipeline: ${formatCurrency(metrics.totalPipeline)}
+Weighted Pipeline: ${formatCurrency(metrics.weightedPipeline)}
+Closed Won (This Week): ${formatCurrency(metrics.closedWon.amount)} (${metrics.closedWon.count} deals)
+Closed Lost (This Week): ${formatCurrency(metrics.closedLost.amount)} (${metrics.closedLost.count} deals)
 
 Stage Breakdown:
 ${stageBreakdownText}
 
+Stage Weights (weighted pipeline uses ${report.stageWeights.settings.source} weights; historical = win rate of deals closed in the last ${report.stageWeights.settings.lookbackDays} days that passed through the stage):
+${stageWeightText}
+Weighted Pipeline by Weight Source: manual ${formatCurrency(metrics.weightedPipelineBySource.manual)}, HubSpot ${formatCurrency(metrics.weightedPipelineBySource.hubspot)}, historical ${formatCurrency(metrics.weightedPipelineBySource.historical)}
+
 Total Active Deals: ${report.totalActive}
-Total Weighted Forecast: $${report.totalWeighted.toLocaleString()}
+Total Weighted Forecast: ${formatCurrency(report.totalWeighted)}
+
+Deals Left Out (currency couldn't be converted): ${report.unconvertedDeals.length > 0
+  ? report.unconvertedDeals.map(deal => `${deal.dealName} (${formatCurrency(deal.originalAmount, deal.currency)})`).join(', ')
+  : 'None'}
+
+Pipeline Movement This Week:
+${report.movement
+  ? `Stage moves: ${report.movement.stageMoves.length}, close dates pushed out: ${report.movement.closeDateChanges.filter(c => (c.daysMoved ?? 0) > 0).length}, close dates pulled in: ${report.movement.closeDateChanges.filter(c => (c.daysMoved ?? 0) < 0).length}, amount changes: ${report.movement.amountChanges.length}`
+  : 'Not available'}
 
 **Email Structure:**
 1. Subject Line: "Opus Weekly Revenue Forecast — Week Ending [date]"
 2. Pipeline Overview section with 4 key metrics
-3. Forecast by Stage table with columns: Stage | Deal Count | Pipeline $ | Weighted $ | % of Total
-4. Brief executive summary paragraph highlighting key insights
-5. Keep it concise and board-ready
+3. Forecast by Stage table with columns: Stage | Deal Count | Pipeline | Weighted | % of Total
+4. One or two sentences explaining where the stage weights come from, comparing the manual weights with the HubSpot and historical ones
+5. Brief executive summary paragraph highlighting key insights
+6. If any deals were left out because their currency couldn't be converted, mention them in one sentence
+7. Keep it concise and board-ready
 
 **Tone:** Professional, executive-level, data-focused, confident
 
@@ -385,36 +586,30 @@ async function main() {
   console.log(`📅 Current Week: ${weekStart.toLocaleDateString()} - ${weekEnd.toLocaleDateString()}`);
   console.log(`📅 Week Ending: ${formatWeekEndingDate(weekEndingDate)}\n`);
 
-  // Fetch pipelines
+  // Fetch pipelines and resolve the configured pipeline and stages
   console.log('🔍 Fetching pipelines and stages...\n');
-  const pipelines = await fetchPipelines(accessToken);
-
-  // Find Sales pipeline
-  const salesPipeline = pipelines.find(p => p.label.toLowerCase() === 'sales');
-  if (!salesPipeline) {
-    throw new Error('❌ Could not find "Sales" pipeline');
-  }
-
-  console.log(`✅ Found Sales pipeline (ID: ${salesPipeline.id})\n`);
-
-  // Find stage IDs for active pipeline stages
-  console.log('🔍 Finding active pipeline stages (SQL, Demo Completed, Proposal)...\n');
-  const activeStageIds = findStageIdsByLabels([salesPipeline], ACTIVE_STAGES);
+  const registry = await loadPipelineRegistry(accessToken);
+  const salesPipeline = registry.pipeline;
 
-  if (activeStageIds.length === 0) {
-    throw new Error('❌ Could not find any active pipeline stages (SQL, Demo, Proposal)');
-  }
+  console.log(`✅ Found ${salesPipeline.label} pipeline (ID: ${salesPipeline.id})\n`);
 
-  console.log(`✅ Found ${activeStageIds.length} active stage(s)\n`);
+  // Stage IDs for active pipeline stages
+  const activeStageIds = getReportStageIds(registry, 'weeklyForecast');
+  console.log(`✅ Active pipeline stages: ${registry.reports.weeklyForecast.map(s => s.reportName).join(', ')}\n`);
 
-  // Find stage IDs for closed stages
-  console.log('🔍 Finding closed stages (Closed Won, Closed Lost)...\n');
-  const closedWonStageIds = findStageIdsByLabels([salesPipeline], ['closed won', 'closedwon']);
-  const closedLostStageIds = findStageIdsByLabels([salesPipeline], ['closed lost', 'closedlost']);
+  // Stage IDs for closed stages
+  const closedWonStageIds = getReportStageIds(registry, 'closedWon');
+  const closedLostStageIds = getReportStageIds(registry, 'closedLost');
 
   // Fetch active pipeline deals
   console.log('📋 Fetching active pipeline deals (SQL + Demo Completed + Proposal)...\n');
-  const activePipelineResult = await searchDealsByStages(accessToken, activeStageIds, salesPipeline.id);
+  const forecastProperties = getPropertySet('forecast', [salesPipeline]);
+  const activePipelineResult = await searchDealsByStages(
+    accessToken,
+    activeStageIds,
+    salesPipeline.id,
+    forecastProperties
+  );
   const activeDeals = activePipelineResult.results;
 
   console.log(`✅ Found ${activeDeals.length} active deal(s)\n`);
@@ -423,45 +618,119 @@ async function main() {
   let closedWonDeals: any[] = [];
   let closedLostDeals: any[] = [];
 
+  // Only deals that entered the closed stage this week are needed
   if (closedWonStageIds.length > 0) {
     console.log('📋 Fetching Closed Won deals...\n');
-    const closedWonResult = await searchDealsByStages(accessToken, closedWonStageIds, salesPipeline.id);
+    const closedWonResult = await searchDeals(
+      accessToken,
+      new DealQuery()
+        .inPipeline(salesPipeline.id)
+        .enteredStageBetween(closedWonStageIds, weekStart, weekEnd)
+        .select(forecastProperties)
+    );
     closedWonDeals = closedWonResult.results;
     console.log(`✅ Found ${closedWonDeals.length} Closed Won deal(s)\n`);
   }
 
   if (closedLostStageIds.length > 0) {
     console.log('📋 Fetching Closed Lost deals...\n');
-    const closedLostResult = await searchDealsByStages(accessToken, closedLostStageIds, salesPipeline.id);
+    const closedLostResult = await searchDeals(
+      accessToken,
+      new DealQuery()
+        .inPipeline(salesPipeline.id)
+        .enteredStageBetween(closedLostStageIds, weekStart, weekEnd)
+        .select(forecastProperties)
+    );
     closedLostDeals = closedLostResult.results;
     console.log(`✅ Found ${closedLostDeals.length} Closed Lost deal(s)\n`);
   }
 
+  // Calibrate stage weights from deals closed in the lookback window
+  const calibrationSettings = getCalibrationSettings();
+  let calibrationDeals: any[] = [];
+  if (closedWonStageIds.length + closedLostStageIds.length > 0) {
+    console.log(`⚖️  Fetching deals closed in the last ${calibrationSettings.lookbackDays} days to calibrate stage weights...\n`);
+    try {
+      const calibrationResult = await searchDeals(
+        accessToken,
+        new DealQuery()
+          .inPipeline(salesPipeline.id)
+          .inStages([...closedWonStageIds, ...closedLostStageIds])
+          .closeDateOnOrAfter(getLookbackStart(calibrationSettings))
+          .select(forecastProperties)
+      );
+      calibrationDeals = calibrationResult.results;
+      console.log(`✅ Found ${calibrationDeals.length} closed deal(s)\n`);
+    } catch (error) {
+      console.warn(`⚠️  Could not fetch closed deals, historical weights unavailable: ${error instanceof Error ? error.message : error}\n`);
+    }
+  }
+  const stageWeights = calibrateStageWeights(
+    registry.reports.weeklyForecast,
+    calibrationDeals,
+    registry,
+    calibrationSettings
+  );
+
+  // Leave out deals whose amount can't be converted to the reporting currency
+  const activeByCurrency = partitionByCurrency(activeDeals);
+  const closedWonByCurrency = partitionByCurrency(closedWonDeals);
+  const closedLostByCurrency = partitionByCurrency(closedLostDeals);
+  const unconvertedDeals = [
+    ...activeByCurrency.unconverted,
+    ...closedWonByCurrency.unconverted,
+    ...closedLostByCurrency.unconverted,
+  ];
+
   // Process active pipeline
   console.log('📊 Calculating pipeline metrics...\n');
-  const { stageBreakdown, totalPipeline, weightedPipeline } = processActivePipelineDeals(
-    activeDeals,
-    pipelines
+  const { stageBreakdown, totalPipeline, weightedPipeline, weightedPipelineBySource } = processActivePipelineDeals(
+    activeByCurrency.deals,
+    registry,
+    stageWeights
   );
 
   // Process closed deals
-  const closedWon = processClosedDeals(closedWonDeals, weekStart, weekEnd, true);
-  const closedLost = processClosedDeals(closedLostDeals, weekStart, weekEnd, false);
+  const closedWon = processClosedDeals(closedWonByCurrency.deals, weekStart, weekEnd);
+  const closedLost = processClosedDeals(closedLostByCurrency.deals, weekStart, weekEnd);
+
+  // Collect this week's movement from property history
+  console.log('🕰️  Fetching deal property history...\n');
+  let movement: WeeklyPipelineMovement | null = null;
+  try {
+    movement = await buildWeeklyMovement(
+      accessToken,
+      [...activeDeals, ...closedWonDeals, ...closedLostDeals],
+      registry,
+      weekStart,
+      weekEnd
+    );
+  } catch (error) {
+    console.warn(`⚠️  Could not fetch property history: ${error instanceof Error ? error.message : error}\n`);
+  }
 
   // Build report
   const report: WeeklyForecastReport = {
+    revenueBasis: getRevenueBasis(),
     metrics: {
       weekEnding: weekEndingDate,
       totalPipeline,
       weightedPipeline,
+      weightedPipelineBySource,
       closedWon,
       closedLost,
     },
     stageBreakdown,
     totalActive: totalPipeline,
     totalWeighted: weightedPipeline,
+    movement,
+    stageWeights,
+    unconvertedDeals,
   };
 
+  // Save the snapshot for forecast-accuracy
+  await recordForecastSnapshot(activeByCurrency.deals, registry, stageWeights, report, weekStart, weekEnd);
+
   // Display console report
   displayWeeklyForecastReport(report);
 